@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { dismissAlerts } from "@/lib/server/alerts";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { clearAlertsPayloadSchema } from "@/lib/server/schemas";
+import { errorResponse, parseJsonBody } from "@/lib/server/validation";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuthUser(req);
+    const { ids } = await parseJsonBody(req, clearAlertsPayloadSchema);
+    return NextResponse.json({ ok: true, dismissed: dismissAlerts(userId, ids) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { markAlerts } from "@/lib/server/alerts";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { markAlertsPayloadSchema } from "@/lib/server/schemas";
+import { errorResponse, parseJsonBody } from "@/lib/server/validation";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = getAuthUser(req);
+    const { state, ids } = await parseJsonBody(req, markAlertsPayloadSchema);
+    return NextResponse.json({ ok: true, state, updated: markAlerts(userId, state, ids) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
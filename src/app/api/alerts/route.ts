@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
+import { decodeAlertCursor, pageAlerts } from "@/lib/server/alerts";
 import { getAuthUser } from "@/lib/server/requestAuth";
-import { listAlerts } from "@/lib/server/store";
-import { errorResponse } from "@/lib/server/validation";
+import { AlertState } from "@/lib/server/store";
+import { errorResponse, HttpError } from "@/lib/server/validation";
+
+const STATES: AlertState[] = ["unread", "read", "dismissed"];
 
 export async function GET(req: NextRequest) {
   try {
     const { userId } = getAuthUser(req);
-    return NextResponse.json({ items: listAlerts(userId) });
+    const params = req.nextUrl.searchParams;
+    const state = params.get("state")?.trim() || undefined;
+    if (state && !STATES.includes(state as AlertState)) {
+      throw new HttpError(`"state" must be one of ${STATES.join(", ")}.`, 400);
+    }
+    const cursor = params.get("cursor")?.trim();
+    const after = cursor ? decodeAlertCursor(cursor) : undefined;
+    if (cursor && !after) throw new HttpError("Invalid cursor.", 400);
+    const rawLimit = params.get("limit")?.trim();
+    const limit = rawLimit ? Number(rawLimit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new HttpError('"limit" must be a positive whole number.', 400);
+    }
+    return NextResponse.json(pageAlerts(userId, { state: state as AlertState | undefined, after, limit }));
   } catch (error) {
     return errorResponse(error);
   }
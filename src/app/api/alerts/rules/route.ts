@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAlertRules, updateAlertRules } from "@/lib/server/alerts";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { alertRulesPayloadSchema } from "@/lib/server/schemas";
+import { errorResponse, parseJsonBody } from "@/lib/server/validation";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    return NextResponse.json({ rules: getAlertRules(userId, email) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const patch = await parseJsonBody(req, alertRulesPayloadSchema);
+    return NextResponse.json({ rules: updateAlertRules(userId, patch, email) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
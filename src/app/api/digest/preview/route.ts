@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DigestPeriod, previewDigest } from "@/lib/server/digest";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { getPreferences } from "@/lib/server/store";
+import { errorResponse, HttpError } from "@/lib/server/validation";
+
+const FORMATS = ["json", "html", "text"];
+
+// Renders the digest without sending it; ?format=html or text returns the body as-is.
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const params = req.nextUrl.searchParams;
+    const preferred = getPreferences(userId, email).digestFrequency;
+    const period = params.get("period")?.trim() || (preferred === "daily" ? "daily" : "weekly");
+    if (period !== "daily" && period !== "weekly") throw new HttpError('"period" must be daily or weekly.', 400);
+    const format = params.get("format")?.trim() || "json";
+    if (!FORMATS.includes(format)) throw new HttpError(`"format" must be one of ${FORMATS.join(", ")}.`, 400);
+
+    const preview = previewDigest(userId, email, period as DigestPeriod);
+    const headers = { "Cache-Control": "no-store, max-age=0" };
+    if (format === "html") return new NextResponse(preview.html, { headers: { ...headers, "Content-Type": "text/html; charset=utf-8" } });
+    if (format === "text") return new NextResponse(preview.text, { headers: { ...headers, "Content-Type": "text/plain; charset=utf-8" } });
+    return NextResponse.json(preview, { headers });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
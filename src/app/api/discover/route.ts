@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/server/requestAuth";
 import { listFollowing } from "@/lib/server/store";
 import { discoverForArtists } from "@/lib/server/discover";
+import { getHomeCurrency, homeAmount } from "@/lib/server/fx";
 import { errorResponse } from "@/lib/server/validation";
 
 export async function GET(req: NextRequest) {
@@ -14,9 +15,13 @@ export async function GET(req: NextRequest) {
         { headers: { "Cache-Control": "no-store, max-age=0" } }
       );
     }
-    const items = await discoverForArtists(artists);
+    const homeCurrency = getHomeCurrency(userId, email);
+    const items = (await discoverForArtists(artists)).map((item) => ({
+      ...item,
+      homePrice: homeAmount(item.price, item.currency, homeCurrency),
+    }));
     return NextResponse.json(
-      { items, followedArtists: artists.length },
+      { items, followedArtists: artists.length, homeCurrency },
       { headers: { "Cache-Control": "no-store, max-age=0" } }
     );
   } catch (error) {
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { issueAccessToken } from "@/lib/server/auth";
+import { listRateTables } from "@/lib/server/fx";
+import { POST } from "./route";
+
+// The env module reads the key once, at import.
+const ADMIN_KEY = vi.hoisted(() => {
+  process.env.ADMIN_API_KEY = "test-admin-key-0123456789";
+  return process.env.ADMIN_API_KEY;
+});
+
+function post(headers: Record<string, string>) {
+  return POST(
+    new NextRequest("http://localhost/api/fx/rates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ date: "2031-01-01", base: "USD", rates: { GBP: 5 } }),
+    })
+  );
+}
+
+describe("POST /api/fx/rates", () => {
+  it("refuses an ordinary signed-in user", async () => {
+    const accessToken = issueAccessToken("usr_test", "user@example.com");
+    const response = await post({ Authorization: `Bearer ${accessToken}` });
+    expect(response.status).toBe(403);
+    expect(listRateTables().some((table) => table.date === "2031-01-01")).toBe(false);
+  });
+
+  it("refuses a wrong admin key", async () => {
+    expect((await post({ "X-Admin-Key": "not-the-admin-key-at-all" })).status).toBe(403);
+  });
+
+  it("imports the table with the admin key", async () => {
+    const response = await post({ "X-Admin-Key": ADMIN_KEY });
+    expect(response.status).toBe(201);
+    expect(listRateTables().find((table) => table.date === "2031-01-01")?.rates).toEqual({ GBP: 5 });
+  });
+});
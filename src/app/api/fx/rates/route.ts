@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, requireAdminKey } from "@/lib/server/requestAuth";
+import { getHomeCurrency, getRateTable, importRateTable, listKnownCurrencies, listRateTables } from "@/lib/server/fx";
+import { fxRateTableSchema } from "@/lib/server/schemas";
+import { errorResponse, HttpError, parseJsonBody } from "@/lib/server/validation";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const date = req.nextUrl.searchParams.get("date")?.trim() || undefined;
+    const table = getRateTable(date);
+    if (!table) throw new HttpError("No exchange rate tables are available.", 404);
+    return NextResponse.json({
+      table,
+      dates: listRateTables().map((entry) => entry.date),
+      currencies: listKnownCurrencies(),
+      homeCurrency: getHomeCurrency(userId, email),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Imported tables apply to every user's conversions, so only the operator may add them.
+export async function POST(req: NextRequest) {
+  try {
+    requireAdminKey(req);
+    const table = await parseJsonBody(req, fxRateTableSchema);
+    importRateTable(table);
+    return NextResponse.json({ ok: true, table }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
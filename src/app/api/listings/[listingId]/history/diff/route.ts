@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { diffSnapshotHistory, getSnapshotHistory } from "@/lib/server/snapshotHistory";
+import { errorResponse, HttpError } from "@/lib/server/validation";
+
+type Params = { params: Promise<{ listingId: string }> };
+
+function readVersion(req: NextRequest, name: string): number | undefined {
+  const raw = req.nextUrl.searchParams.get(name)?.trim();
+  if (!raw) return undefined;
+  const version = Number(raw);
+  if (!Number.isInteger(version) || version < 1) throw new HttpError(`"${name}" must be a snapshot version number.`, 400);
+  return version;
+}
+
+export async function GET(req: NextRequest, context: Params) {
+  try {
+    getAuthUser(req);
+    const { listingId } = await context.params;
+    const from = readVersion(req, "from");
+    const to = readVersion(req, "to");
+    if (!getSnapshotHistory(listingId)) throw new HttpError("No snapshots have been saved for this listing.", 404);
+    const diff = diffSnapshotHistory(listingId, from, to);
+    if (!diff) throw new HttpError("Those snapshot versions were not found; a diff needs two saved versions.", 404);
+    return NextResponse.json(diff);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
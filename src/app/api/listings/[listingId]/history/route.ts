@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { getSnapshotHistory } from "@/lib/server/snapshotHistory";
+import { errorResponse, HttpError } from "@/lib/server/validation";
+
+type Params = { params: Promise<{ listingId: string }> };
+
+export async function GET(req: NextRequest, context: Params) {
+  try {
+    getAuthUser(req);
+    const { listingId } = await context.params;
+    const history = getSnapshotHistory(listingId);
+    if (!history) throw new HttpError("No snapshots have been saved for this listing.", 404);
+    return NextResponse.json(history);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { confirmEmailAddress, getNotificationSettings } from "@/lib/server/notifier";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { emailConfirmationPayloadSchema } from "@/lib/server/schemas";
+import { errorResponse, HttpError, parseJsonBody } from "@/lib/server/validation";
+
+// Takes the code mailed to a new alert address; alerts only go there once it is confirmed.
+export async function POST(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const { token } = await parseJsonBody(req, emailConfirmationPayloadSchema);
+    const state = confirmEmailAddress(userId, token, email);
+    if (state === "not_found") throw new HttpError("No email address is waiting for confirmation.", 404);
+    if (state === "expired") throw new HttpError("The confirmation code has expired; save the address again for a new one.", 410);
+    if (state === "invalid_token") throw new HttpError("The confirmation code is not valid.", 403);
+    return NextResponse.json(getNotificationSettings(userId, email));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
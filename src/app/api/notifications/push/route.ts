@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assertPublicHttpsUrl } from "@/lib/server/notifications";
+import { updateNotificationPreferences, vapidConfig } from "@/lib/server/notifier";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { pushSubscriptionPayloadSchema, pushUnsubscribePayloadSchema } from "@/lib/server/schemas";
+import { removePushSubscription, savePushSubscription } from "@/lib/server/store";
+import { errorResponse, HttpError, parseJsonBody } from "@/lib/server/validation";
+
+// Takes the browser's PushSubscription JSON and turns push notifications on.
+export async function POST(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    if (!vapidConfig()) throw new HttpError("Web Push is not configured on this server.", 503);
+    const { endpoint, keys } = await parseJsonBody(req, pushSubscriptionPayloadSchema);
+    await assertPublicHttpsUrl(endpoint).catch((error: Error) => {
+      throw new HttpError(`Push endpoint refused: ${error.message}`, 400);
+    });
+    savePushSubscription(userId, { endpoint, keys, createdAt: new Date().toISOString() });
+    updateNotificationPreferences(userId, { push: { enabled: true } }, email);
+    return NextResponse.json({ ok: true, endpoint }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const { userId } = getAuthUser(req);
+    const { endpoint } = await parseJsonBody(req, pushUnsubscribePayloadSchema);
+    if (!removePushSubscription(userId, endpoint)) throw new HttpError("That push subscription was not found.", 404);
+    return NextResponse.json({ ok: true, endpoint });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assertPublicHttpsUrl } from "@/lib/server/notifications";
+import { getNotificationSettings, sendEmailConfirmation, smtpConfig, updateNotificationPreferences } from "@/lib/server/notifier";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { notificationPreferencesPayloadSchema } from "@/lib/server/schemas";
+import { errorResponse, HttpError, parseJsonBody } from "@/lib/server/validation";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    return NextResponse.json(getNotificationSettings(userId, email));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const patch = await parseJsonBody(req, notificationPreferencesPayloadSchema);
+    if (patch.webhook?.url) {
+      await assertPublicHttpsUrl(patch.webhook.url).catch((error: Error) => {
+        throw new HttpError(`Webhook URL refused: ${error.message}`, 400);
+      });
+    }
+    const customAddress = patch.email?.address && patch.email.address !== email?.toLowerCase();
+    if (customAddress && !smtpConfig()) throw new HttpError("Email delivery is not configured on this server.", 503);
+    updateNotificationPreferences(userId, patch, email);
+    if (customAddress) {
+      await sendEmailConfirmation(userId, email).catch((error: Error) => {
+        throw new HttpError(`Confirmation email could not be sent: ${error.message}`, 502);
+      });
+    }
+    return NextResponse.json(getNotificationSettings(userId, email));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
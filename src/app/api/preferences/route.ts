@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { getHomeCurrency, listKnownCurrencies } from "@/lib/server/fx";
+import { getPreferences, updatePreferences } from "@/lib/server/store";
+import { preferencesPayloadSchema } from "@/lib/server/schemas";
+import { errorResponse, HttpError, parseJsonBody } from "@/lib/server/validation";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    return NextResponse.json({
+      preferences: { ...getPreferences(userId, email), homeCurrency: getHomeCurrency(userId, email) },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const patch = await parseJsonBody(req, preferencesPayloadSchema);
+    if (patch.homeCurrency && !listKnownCurrencies().includes(patch.homeCurrency)) {
+      throw new HttpError(`No exchange rates are available for ${patch.homeCurrency}.`, 400);
+    }
+    const preferences = updatePreferences(userId, patch, email);
+    return NextResponse.json({
+      preferences: { ...preferences, homeCurrency: getHomeCurrency(userId, email) },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,15 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/server/requestAuth";
-import { listWatchlist } from "@/lib/server/store";
+import { rescanWatchlist } from "@/lib/server/rescan";
+import { getPreferences, getScanSchedule } from "@/lib/server/store";
 import { errorResponse } from "@/lib/server/validation";
 
+// The background schedule for this user's watchlist; the entry appears once the scheduler has seen it.
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, email } = getAuthUser(req);
+    const cadence = getPreferences(userId, email).scanCadence ?? "daily";
+    const schedule = getScanSchedule(userId);
+    return NextResponse.json({
+      cadence,
+      nextRunAt: cadence === "off" ? undefined : schedule?.nextRunAt,
+      lastRunAt: schedule?.lastRunAt,
+      lastRun: schedule?.lastRun,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
 export async function POST(req: NextRequest) {
   try {
-    const { userId } = getAuthUser(req);
-    const items = listWatchlist(userId);
+    const { userId, email } = getAuthUser(req);
+    const results = await rescanWatchlist(userId, email);
     return NextResponse.json({
-      rescanned: items.length,
-      results: items.map((item) => ({ listingId: item.listingId, updated: true, missingFields: [] })),
+      rescanned: results.length,
+      failed: results.filter((result) => result.error).length,
+      results,
     });
   } catch (error) {
     return errorResponse(error);
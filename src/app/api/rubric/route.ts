@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { getActiveRubric, getRubric, listRubricVersions } from "@/lib/server/rubric";
+import { errorResponse, HttpError } from "@/lib/server/validation";
+
+export async function GET(req: NextRequest) {
+  try {
+    getAuthUser(req);
+    const version = req.nextUrl.searchParams.get("version")?.trim();
+    const rubric = version ? getRubric(version) : getActiveRubric();
+    if (!rubric) throw new HttpError(`Unknown rubric version "${version}".`, 404);
+    return NextResponse.json({ rubric, activeVersion: getActiveRubric().version, versions: listRubricVersions() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/server/requestAuth";
+import { getSellerHistory } from "@/lib/server/sellerGraph";
+import { errorResponse, HttpError } from "@/lib/server/validation";
+
+type Params = { params: Promise<{ source: string; handle: string }> };
+
+export async function GET(req: NextRequest, context: Params) {
+  try {
+    getAuthUser(req);
+    const { source, handle } = await context.params;
+    if (!source || !handle) throw new HttpError("Seller source and handle are required.", 400);
+    const history = getSellerHistory(source, handle);
+    if (!history) throw new HttpError("No listings from this seller have been scanned.", 404);
+    return NextResponse.json(history);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
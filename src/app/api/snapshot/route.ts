@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/server/requestAuth";
+import { getHomeCurrency, homeAmount } from "@/lib/server/fx";
 import { buildSnapshotFromUrl } from "@/lib/server/snapshot";
 import { resolveSnapshotWithPlaceholder } from "@/lib/server/snapshotPlaceholder";
 import { parseJsonBody, errorResponse } from "@/lib/server/validation";
@@ -57,7 +58,7 @@ function buildActionableSnapshotError(message: string, url?: string): {
 export async function POST(req: NextRequest) {
   let requestedUrl: string | undefined;
   try {
-    getAuthUser(req);
+    const { userId, email } = getAuthUser(req);
     const { url } = await parseJsonBody(req, urlPayloadSchema);
     requestedUrl = url;
     const result = await resolveSnapshotWithPlaceholder(url, buildSnapshotFromUrl);
@@ -68,7 +69,9 @@ export async function POST(req: NextRequest) {
     } else {
       console.info(`[snapshot] live fetch for ${url}`);
     }
-    return NextResponse.json(result.data);
+    const { artworkOverview } = result.data;
+    const homePrice = homeAmount(artworkOverview.price, artworkOverview.currency, getHomeCurrency(userId, email));
+    return NextResponse.json({ ...result.data, artworkOverview: { ...artworkOverview, homePrice } });
   } catch (error) {
     const message = (error as Error)?.message ?? "";
     const actionable = buildActionableSnapshotError(message, requestedUrl);
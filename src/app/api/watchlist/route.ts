@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/server/requestAuth";
+import { getHomeCurrency, homeAmount } from "@/lib/server/fx";
 import { addWatchlist, listWatchlist } from "@/lib/server/store";
 import { buildSnapshotFromUrl } from "@/lib/server/snapshot";
+import { latestVersionNumber } from "@/lib/server/snapshotHistory";
 import { parseJsonBody, errorResponse } from "@/lib/server/validation";
 import { urlPayloadSchema } from "@/lib/server/schemas";
 
@@ -11,8 +13,13 @@ function stripMarketplaceSuffix(value: string): string {
 
 export async function GET(req: NextRequest) {
   try {
-    const { userId } = getAuthUser(req);
-    return NextResponse.json({ items: listWatchlist(userId) });
+    const { userId, email } = getAuthUser(req);
+    const homeCurrency = getHomeCurrency(userId, email);
+    const items = listWatchlist(userId).map((item) => ({
+      ...item,
+      homePrice: homeAmount(item.price, item.currency, homeCurrency),
+    }));
+    return NextResponse.json({ items, homeCurrency });
   } catch (error) {
     return errorResponse(error);
   }
@@ -31,6 +38,8 @@ export async function POST(req: NextRequest) {
       thumbnailUrl: snap.artworkOverview.imageUrls[0],
       price: snap.artworkOverview.price,
       currency: snap.artworkOverview.currency,
+      score: snap.snapshot.score,
+      lastSeenVersion: latestVersionNumber(snap.snapshot.listingId),
     });
     return NextResponse.json({ ok: true, listingId: snap.snapshot.listingId }, { status: 201 });
   } catch (error) {
@@ -5,12 +5,26 @@ import Image, { type ImageLoaderProps } from "next/image";
 import { apiRequest } from "@/lib/client/api";
 import { clearSession, getSession, saveSession } from "@/lib/client/session";
 import { CURATED_ARTWORKS_MOCK_ITEMS, DISCOVER_MOCK_ITEMS } from "@/lib/shared/discoverMock";
+import { normalizeArtistKey, resolveArtist } from "@/lib/shared/artists";
+import { convertAmount, currencySymbol, DEFAULT_HOME_CURRENCY, type FxRateTable, type HomeAmount } from "@/lib/shared/currency";
 
 type Tab = "Discover" | "Detective" | "Dossier" | "Profile";
 type DetectiveView = "home" | "snapshot";
+type PriceSort = "recent" | "price-asc" | "price-desc";
+type ConfidenceStatus = "Good" | "Needs review" | "Missing evidence";
+type CheckValue = ConfidenceStatus | "Red flag";
+type EvidenceExcerpt = {
+  source: "title" | "description" | "jsonLd" | "meta" | "page";
+  text: string;
+  match: string;
+  start: number;
+  end: number;
+  polarity: "affirmed" | "negated" | "hedged";
+};
 
 type SnapshotResponse = {
   source: string;
+  rubricVersion?: string;
   snapshot: {
     score: number;
     status: "Good" | "Needs review" | "Missing evidence";
@@ -18,7 +32,7 @@ type SnapshotResponse = {
     topPositiveSignals: string[];
     topMissingOrSuspiciousSignals: string[];
     buckets: Array<{
-      key: "authenticity" | "provenance" | "price" | "risk" | "visual";
+      key: "authenticity" | "provenance" | "price" | "risk" | "visual" | "redFlags";
       label: string;
       score: number;
       weight: number;
@@ -26,20 +40,51 @@ type SnapshotResponse = {
       explanation: string;
       checks: Array<{
         label: string;
-        value: "Good" | "Needs review" | "Missing evidence";
+        value: CheckValue;
         detail: string;
+        evidence?: EvidenceExcerpt[];
+        grade?: number;
+        reasons?: string[];
       }>;
+      market?: {
+        scope: "work" | "artist";
+        currency: string;
+        sampleSize: number;
+        percentile?: number;
+        band?: { low: number; median: number; high: number };
+        trendPercent?: number;
+      };
     }>;
   };
   artworkOverview: {
     imageUrls: string[];
+    artistId?: string;
     artistName: string;
     title: string;
     dimensions: string;
+    measurements?: Array<{
+      variant: "sheet" | "image" | "framed" | "object" | "unspecified";
+      cm: { width: number; height: number; depth?: number };
+      in: { width: number; height: number; depth?: number };
+    }>;
     price?: number;
+    shippingPrice?: number;
     currency: string;
+    homePrice?: HomeAmount;
     medium: string;
     yearOfRelease: string;
+    edition?: string;
+    seller?: {
+      username?: string;
+      feedbackCount?: number;
+      positivePercent?: number;
+      memberSince?: string;
+      location?: string;
+    };
+    confidence?: {
+      medium?: "high" | "medium" | "low";
+      yearOfRelease?: "high" | "medium" | "low";
+    };
   };
 };
 
@@ -51,6 +96,7 @@ type WatchlistItem = {
   thumbnailUrl?: string;
   price?: number;
   currency?: string;
+  homePrice?: HomeAmount;
 };
 
 type CachedSnapshotRecord = {
@@ -121,12 +167,7 @@ function formatArtistName(input: string): string {
 }
 
 function symbol(currency?: string): string {
-  const c = (currency ?? "").toUpperCase();
-  if (c === "GBP") return "£";
-  if (c === "EUR") return "€";
-  if (c === "USD") return "$";
-  if (c === "JPY") return "¥";
-  return c ? `${c} ` : "";
+  return currency ? currencySymbol(currency) : "";
 }
 
 function passthroughImageLoader({ src }: ImageLoaderProps): string {
@@ -156,16 +197,95 @@ function formatSourceLabel(source: string): string {
     .replace(/\b([a-z])/g, (char) => char.toUpperCase());
 }
 
+function formatSeller(seller: SnapshotResponse["artworkOverview"]["seller"]): string | null {
+  if (!seller) return null;
+  const parts = [
+    seller.username,
+    typeof seller.feedbackCount === "number" ? `${seller.feedbackCount.toLocaleString()} feedback` : undefined,
+    typeof seller.positivePercent === "number" ? `${seller.positivePercent}% positive` : undefined,
+    seller.memberSince ? `since ${seller.memberSince.slice(0, 7)}` : undefined,
+    seller.location,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : null;
+}
+
 function formatPrice(value?: number, currency?: string): string {
   if (typeof value !== "number") return "Price unavailable";
   return `${symbol(currency)}${value.toLocaleString()}`;
 }
 
+function toHomeValue(
+  item: { price?: number; currency?: string },
+  homeCurrency: string,
+  rates: FxRateTable | null
+): number | undefined {
+  if (typeof item.price !== "number" || !item.currency) return undefined;
+  return rates ? convertAmount(item.price, item.currency, homeCurrency, rates) : undefined;
+}
+
+// Shows the converted amount next to the original when the listing is priced in another currency.
+function formatPriceWithHome(
+  item: { price?: number; currency?: string },
+  homeCurrency: string,
+  rates: FxRateTable | null
+): string {
+  const original = formatPrice(item.price, item.currency);
+  if (!item.currency || item.currency.toUpperCase() === homeCurrency.toUpperCase()) return original;
+  const converted = toHomeValue(item, homeCurrency, rates);
+  if (typeof converted !== "number") return original;
+  return `${original} (≈ ${formatPrice(Math.round(converted), homeCurrency)})`;
+}
+
+// Listings without a convertible price always sort last.
+function sortByHomePrice<T extends { price?: number; currency?: string }>(
+  items: T[],
+  sort: PriceSort,
+  homeCurrency: string,
+  rates: FxRateTable | null
+): T[] {
+  if (sort === "recent") return items;
+  const direction = sort === "price-asc" ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const left = toHomeValue(a, homeCurrency, rates);
+    const right = toHomeValue(b, homeCurrency, rates);
+    if (typeof left !== "number" || typeof right !== "number") {
+      return typeof left === "number" ? -1 : typeof right === "number" ? 1 : 0;
+    }
+    return (left - right) * direction;
+  });
+}
+
+function nextPriceSort(sort: PriceSort): PriceSort {
+  if (sort === "recent") return "price-asc";
+  if (sort === "price-asc") return "price-desc";
+  return "recent";
+}
+
+function priceSortLabel(sort: PriceSort): string {
+  if (sort === "price-asc") return "Price ↑";
+  if (sort === "price-desc") return "Price ↓";
+  return "Sort";
+}
+
 function formatBucketLabel(bucket: SnapshotResponse["snapshot"]["buckets"][number]): string {
   if (bucket.key === "authenticity") return "Authenticity";
   return bucket.label;
 }
 
+function formatDimensions(overview: SnapshotResponse["artworkOverview"]): string {
+  const dimensions = decodeHtmlEntities(overview.dimensions);
+  const measurement = overview.measurements?.find((entry) => dimensions.startsWith(`${entry.cm.width} x ${entry.cm.height}`));
+  if (!measurement) return dimensions;
+  const size = measurement.in;
+  const inches = [size.width, size.height, ...(typeof size.depth === "number" ? [size.depth] : [])].join(" x ");
+  return `${dimensions} · ${inches} in`;
+}
+
+function withConfidence(value: string, confidence?: "high" | "medium" | "low"): string {
+  if (!confidence || confidence === "high" || isMissingArtworkDetail(value)) return value;
+  return `${value} (${confidence} confidence)`;
+}
+
 function isMissingArtworkDetail(value?: string | null): boolean {
   if (!value) return true;
   const normalized = decodeHtmlEntities(value).trim().toLowerCase();
@@ -180,9 +300,10 @@ function isInterruptionText(value?: string | null): boolean {
 function discoverArtistCards(searchTerm: string) {
   const byArtist = new Map<string, { artist: string; imageUrl?: string }>();
   for (const item of DISCOVER_MOCK_ITEMS) {
-    const key = item.artist.trim().toLowerCase();
+    const resolved = resolveArtist(item.artist);
+    const key = resolved?.id ?? normalizeArtistKey(item.artist);
     if (!key || byArtist.has(key)) continue;
-    byArtist.set(key, { artist: item.artist, imageUrl: item.imageUrl });
+    byArtist.set(key, { artist: resolved?.displayName ?? item.artist, imageUrl: item.imageUrl });
   }
   const normalizedSearch = searchTerm.trim().toLowerCase();
   return Array.from(byArtist.values())
@@ -193,6 +314,8 @@ function discoverArtistCards(searchTerm: string) {
 function resolveCanonicalArtistName(input: string): string {
   const trimmed = input.trim();
   if (!trimmed) return "";
+  const resolved = resolveArtist(trimmed);
+  if (resolved) return resolved.displayName;
   const normalized = trimmed.toLowerCase();
   const exact = DISCOVER_MOCK_ITEMS.find((item) => item.artist.toLowerCase() === normalized);
   if (exact) return exact.artist;
@@ -201,12 +324,39 @@ function resolveCanonicalArtistName(input: string): string {
   return formatArtistName(trimmed);
 }
 
-function statusClass(status: "Good" | "Needs review" | "Missing evidence"): string {
+function statusClass(status: CheckValue): string {
   if (status === "Good") return "chipGood";
   if (status === "Needs review") return "chipReview";
+  if (status === "Red flag") return "chipRedFlag";
   return "chipMissing";
 }
 
+function formatEvidenceSource(excerpt: EvidenceExcerpt): string {
+  const label =
+    excerpt.source === "jsonLd"
+      ? "JSON-LD"
+      : excerpt.source === "meta"
+        ? "Meta tag"
+        : excerpt.source === "page"
+          ? "Page text"
+          : excerpt.source === "title"
+            ? "Title"
+            : "Description";
+  return `${label} · chars ${excerpt.start}–${excerpt.end}`;
+}
+
+function formatMarketSummary(market: NonNullable<SnapshotResponse["snapshot"]["buckets"][number]["market"]>): string {
+  const parts = [`${market.sampleSize} comparable${market.sampleSize === 1 ? "" : "s"} (${market.scope})`];
+  if (market.band) {
+    parts.push(`Band ${formatPrice(market.band.low, market.currency)}–${formatPrice(market.band.high, market.currency)}`);
+  }
+  if (typeof market.percentile === "number") parts.push(`${market.percentile}th percentile`);
+  if (typeof market.trendPercent === "number") {
+    parts.push(`12-month trend ${market.trendPercent >= 0 ? "+" : ""}${market.trendPercent}%`);
+  }
+  return parts.join(" · ");
+}
+
 function confidenceLabel(status: "Good" | "Needs review" | "Missing evidence"): "High" | "Medium" | "Low" {
   if (status === "Good") return "High";
   if (status === "Needs review") return "Medium";
@@ -461,6 +611,10 @@ export default function Home() {
   const [pendingDeleteItem, setPendingDeleteItem] = useState<WatchlistItem | null>(null);
   const [expandedBucketKey, setExpandedBucketKey] = useState<string | null>(null);
   const [profileSweepActive, setProfileSweepActive] = useState(false);
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_HOME_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRateTable | null>(null);
+  const [dossierSort, setDossierSort] = useState<PriceSort>("recent");
+  const [curatedSort, setCuratedSort] = useState<PriceSort>("recent");
 
   useEffect(() => {
     const session = getSession();
@@ -554,28 +708,54 @@ export default function Home() {
   const activeSnapshot = detectiveView === "snapshot" ? reportSnapshot : snapshot;
   const activeUrl = detectiveView === "snapshot" ? reportUrl : url;
   const activeCachedSnapshotAt = detectiveView === "snapshot" ? reportCachedSnapshotAt : cachedSnapshotAt;
+  // Thresholds live in the server-side rubric, so colour by the status it assigned.
   const scoreClass = useMemo(() => {
-    const score = activeSnapshot?.snapshot.score ?? 0;
-    if (score >= 75) return "good";
-    if (score >= 50) return "review";
+    const status = activeSnapshot?.snapshot.status;
+    if (status === "Good") return "good";
+    if (status === "Needs review") return "review";
     return "missing";
-  }, [activeSnapshot?.snapshot.score]);
+  }, [activeSnapshot?.snapshot.status]);
   const snapshotScore = activeSnapshot?.snapshot.score ?? 0;
   const clampedSnapshotScore = Math.min(100, Math.max(0, snapshotScore));
   const artworkDetailRows = activeSnapshot
     ? [
         { label: "Artist", value: decodeHtmlEntities(activeSnapshot.artworkOverview.artistName) },
         { label: "Title", value: decodeHtmlEntities(stripMarketplaceSuffix(activeSnapshot.artworkOverview.title)) },
-        { label: "Size", value: decodeHtmlEntities(activeSnapshot.artworkOverview.dimensions) },
+        { label: "Size", value: formatDimensions(activeSnapshot.artworkOverview) },
         {
           label: "Price",
           value:
             typeof activeSnapshot.artworkOverview.price === "number"
-              ? `${symbol(activeSnapshot.artworkOverview.currency)}${activeSnapshot.artworkOverview.price.toLocaleString()}`
+              ? `${symbol(activeSnapshot.artworkOverview.currency)}${activeSnapshot.artworkOverview.price.toLocaleString()}${
+                  typeof activeSnapshot.artworkOverview.shippingPrice === "number"
+                    ? activeSnapshot.artworkOverview.shippingPrice === 0
+                      ? " + free shipping"
+                      : ` + ${symbol(activeSnapshot.artworkOverview.currency)}${activeSnapshot.artworkOverview.shippingPrice.toLocaleString()} shipping`
+                    : ""
+                }${
+                  activeSnapshot.artworkOverview.homePrice &&
+                  activeSnapshot.artworkOverview.homePrice.currency !== activeSnapshot.artworkOverview.currency
+                    ? ` (≈ ${formatPrice(Math.round(activeSnapshot.artworkOverview.homePrice.amount), activeSnapshot.artworkOverview.homePrice.currency)})`
+                    : ""
+                }`
               : null,
         },
-        { label: "Medium", value: decodeHtmlEntities(activeSnapshot.artworkOverview.medium) },
-        { label: "Year of release", value: decodeHtmlEntities(activeSnapshot.artworkOverview.yearOfRelease) },
+        {
+          label: "Medium",
+          value: withConfidence(
+            decodeHtmlEntities(activeSnapshot.artworkOverview.medium),
+            activeSnapshot.artworkOverview.confidence?.medium
+          ),
+        },
+        {
+          label: "Year of release",
+          value: withConfidence(
+            decodeHtmlEntities(activeSnapshot.artworkOverview.yearOfRelease),
+            activeSnapshot.artworkOverview.confidence?.yearOfRelease
+          ),
+        },
+        { label: "Edition", value: activeSnapshot.artworkOverview.edition ?? null },
+        { label: "Seller", value: formatSeller(activeSnapshot.artworkOverview.seller) },
       ]
     : [];
   const discoverCards = useMemo(() => discoverArtistCards(artistInput), [artistInput]);
@@ -621,9 +801,16 @@ export default function Home() {
     writeWatchlistCache(cacheEmail, merged);
   }
 
+  async function refreshRates() {
+    const data = await apiRequest<{ table: FxRateTable; homeCurrency: string }>("/api/fx/rates");
+    setFxRates(data.table);
+    setHomeCurrency(data.homeCurrency);
+  }
+
   async function refreshAll(cacheEmail = email) {
     await refreshFollowing();
     await refreshSaved(cacheEmail);
+    await refreshRates();
   }
 
   function handleApiError(err: unknown) {
@@ -945,7 +1132,10 @@ export default function Home() {
       </div>
       <div className="scoreSliderBlock" role="group" aria-label="Confidence score, read-only">
         <p className="scoreSliderValue">Confidence rating: {confidenceRatingText}</p>
-        <p className="scoreSliderCaption">Calculated from listing signals</p>
+        <p className="scoreSliderCaption">
+          Calculated from listing signals
+          {activeSnapshot.rubricVersion ? ` · Rubric v${activeSnapshot.rubricVersion}` : ""}
+        </p>
         <div className="scoreSlider" aria-hidden="true">
           <div className={`scoreSliderFill ${scoreClass}`} style={{ width: `${clampedSnapshotScore}%` }} />
         </div>
@@ -992,10 +1182,32 @@ export default function Home() {
                   <p className="bucketMeta">
                     Confidence rating: {confidenceLabel(bucket.status)} · Weight {bucket.weight}%
                   </p>
-                  {bucket.checks.slice(0, 3).map((check) => (
-                    <p key={check.label} className="bucketCheck">
-                      {check.label}: <span className={statusClass(check.value)}>{check.value}</span>
-                    </p>
+                  {bucket.market ? <p className="bucketMeta">{formatMarketSummary(bucket.market)}</p> : null}
+                  {bucket.checks.map((check) => (
+                    <div key={check.label} className="bucketCheckGroup">
+                      <p className="bucketCheck">
+                        {check.label}: <span className={statusClass(check.value)}>{check.value}</span>
+                        {check.grade !== undefined ? ` (${Math.round(check.grade * 100)}/100)` : null}
+                      </p>
+                      {check.evidence?.length ? (
+                        check.evidence.map((excerpt) => (
+                          <blockquote
+                            key={`${excerpt.source}-${excerpt.start}`}
+                            className={`bucketEvidence ${excerpt.polarity}`}
+                          >
+                            <p className="bucketEvidenceQuote">“{decodeHtmlEntities(excerpt.text)}”</p>
+                            <cite className="bucketEvidenceSource">{formatEvidenceSource(excerpt)}</cite>
+                          </blockquote>
+                        ))
+                      ) : (
+                        <p className="bucketEvidenceEmpty">{check.detail}</p>
+                      )}
+                      {check.reasons?.map((reason) => (
+                        <p key={reason} className="bucketEvidenceEmpty">
+                          {reason}
+                        </p>
+                      ))}
+                    </div>
                   ))}
                 </div>
               ) : null}
@@ -1180,13 +1392,18 @@ export default function Home() {
                     <h2 className="curatedTitle">Curated for you</h2>
                     <p className="curatedSubtitle">Based on the artists you follow</p>
                   </div>
-                  <button type="button" className="sortButton curatedSortButton" aria-label="Sort curated artworks">
+                  <button
+                    type="button"
+                    className="sortButton curatedSortButton"
+                    aria-label="Sort curated artworks by price"
+                    onClick={() => setCuratedSort(nextPriceSort(curatedSort))}
+                  >
                     <Image src="/icons/icon-sort.svg" alt="" aria-hidden="true" width={20} height={20} />
-                    Sort
+                    {priceSortLabel(curatedSort)}
                   </button>
                 </div>
                 <div className="curatedGrid">
-                  {CURATED_ARTWORKS_MOCK_ITEMS.map((item) => (
+                  {sortByHomePrice(CURATED_ARTWORKS_MOCK_ITEMS, curatedSort, homeCurrency, fxRates).map((item) => (
                     <article key={item.id} className="curatedArtworkCard">
                       {item.imageUrl ? (
                         <Image
@@ -1204,7 +1421,7 @@ export default function Home() {
                       <p className="curatedArtworkTitle">{decodeHtmlEntities(item.title)}</p>
                       <p className="curatedArtworkArtist">{decodeHtmlEntities(item.artist)}</p>
                       <p className="curatedArtworkSource">{formatSourceLabel(item.source)}</p>
-                      <p className="curatedArtworkPrice">{formatPrice(item.price, item.currency)}</p>
+                      <p className="curatedArtworkPrice">{formatPriceWithHome(item, homeCurrency, fxRates)}</p>
                       <p className="curatedArtworkStatus">
                         <span className={`curatedStatusDot ${item.isAvailable ? "isAvailable" : "isUnavailable"}`} />
                         {item.isAvailable ? "Available" : "Unavailable"}
@@ -1225,13 +1442,18 @@ export default function Home() {
                 <h2 className="savedReportsTitle">Saved reports</h2>
                 <div className="savedListMeta">
                   <p className="sub">{watchlist.length} Artwork{watchlist.length === 1 ? "" : "s"}</p>
-                  <button type="button" className="sortButton" aria-label="Sort saved reports">
+                  <button
+                    type="button"
+                    className="sortButton"
+                    aria-label="Sort saved reports by price"
+                    onClick={() => setDossierSort(nextPriceSort(dossierSort))}
+                  >
                     <Image src="/icons/icon-sort.svg" alt="" aria-hidden="true" width={20} height={20} />
-                    Sort
+                    {priceSortLabel(dossierSort)}
                   </button>
                 </div>
                 {watchlist.length === 0 ? <p className="sub">No saved listings yet.</p> : null}
-                {watchlist.map((item) => (
+                {sortByHomePrice(watchlist, dossierSort, homeCurrency, fxRates).map((item) => (
                   <div key={item.listingId} className="lineItem">
                     <div className="savedItemContainer">
                       <button
@@ -1257,7 +1479,7 @@ export default function Home() {
                           <div className="savedItemBody">
                             <strong>{decodeHtmlEntities(stripMarketplaceSuffix(item.title))}</strong>
                             <p>{formatSourceLabel(item.source)}</p>
-                            <p className="savedItemPrice">{formatPrice(item.price, item.currency)}</p>
+                            <p className="savedItemPrice">{formatPriceWithHome(item, homeCurrency, fxRates)}</p>
                           </div>
                         </div>
                       </button>
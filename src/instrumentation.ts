@@ -0,0 +1,6 @@
+export async function register() {
+  // The scheduler uses the store and node:crypto, so it only runs in the Node.js server runtime.
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startScanScheduler } = await import("@/lib/server/scheduler");
+  startScanScheduler();
+}
@@ -9,6 +9,16 @@ const serverEnvSchema = publicEnvSchema.extend({
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
   SNAPSHOT_PLACEHOLDER_TARGET_URL: z.url().optional(),
   SNAPSHOT_PLACEHOLDER_TARGET_URLS: z.string().optional(),
+  SCORING_RUBRIC_PATH: z.string().min(1).optional(),
+  ADMIN_API_KEY: z.string().min(16, "ADMIN_API_KEY must be at least 16 characters.").optional(),
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.coerce.number().int().positive().optional(),
+  SMTP_USER: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().min(1).optional(),
+  SMTP_FROM: z.string().min(3).optional(),
+  VAPID_PUBLIC_KEY: z.string().min(1).optional(),
+  VAPID_PRIVATE_KEY: z.string().min(1).optional(),
+  VAPID_SUBJECT: z.string().min(1).optional(),
 });
 
 function parseBoolean(value: string | undefined): boolean {
@@ -22,6 +32,16 @@ const parsed = serverEnvSchema.safeParse({
   SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
   SNAPSHOT_PLACEHOLDER_TARGET_URL: process.env.SNAPSHOT_PLACEHOLDER_TARGET_URL,
   SNAPSHOT_PLACEHOLDER_TARGET_URLS: process.env.SNAPSHOT_PLACEHOLDER_TARGET_URLS,
+  SCORING_RUBRIC_PATH: process.env.SCORING_RUBRIC_PATH,
+  ADMIN_API_KEY: process.env.ADMIN_API_KEY,
+  SMTP_HOST: process.env.SMTP_HOST,
+  SMTP_PORT: process.env.SMTP_PORT,
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+  SMTP_FROM: process.env.SMTP_FROM,
+  VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
+  VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+  VAPID_SUBJECT: process.env.VAPID_SUBJECT,
 });
 
 if (!parsed.success) {
@@ -40,6 +60,19 @@ export const env = {
   SNAPSHOT_PLACEHOLDER_MODE: parseBoolean(process.env.SNAPSHOT_PLACEHOLDER_MODE),
   SNAPSHOT_PLACEHOLDER_TARGET_URL: parsed.success ? parsed.data.SNAPSHOT_PLACEHOLDER_TARGET_URL : undefined,
   SNAPSHOT_PLACEHOLDER_TARGET_URLS: parsed.success ? parsed.data.SNAPSHOT_PLACEHOLDER_TARGET_URLS : undefined,
+  SCORING_RUBRIC_PATH: parsed.success ? parsed.data.SCORING_RUBRIC_PATH : undefined,
+  ADMIN_API_KEY: parsed.success ? parsed.data.ADMIN_API_KEY : undefined,
+  SCAN_SCHEDULER_DISABLED: parseBoolean(process.env.SCAN_SCHEDULER_DISABLED),
+  SMTP_HOST: parsed.success ? parsed.data.SMTP_HOST : undefined,
+  SMTP_PORT: parsed.success ? parsed.data.SMTP_PORT : undefined,
+  // Implicit TLS from the first byte (port 465); otherwise STARTTLS is used when the server offers it.
+  SMTP_SECURE: parseBoolean(process.env.SMTP_SECURE),
+  SMTP_USER: parsed.success ? parsed.data.SMTP_USER : undefined,
+  SMTP_PASSWORD: parsed.success ? parsed.data.SMTP_PASSWORD : undefined,
+  SMTP_FROM: parsed.success ? parsed.data.SMTP_FROM : undefined,
+  VAPID_PUBLIC_KEY: parsed.success ? parsed.data.VAPID_PUBLIC_KEY : undefined,
+  VAPID_PRIVATE_KEY: parsed.success ? parsed.data.VAPID_PRIVATE_KEY : undefined,
+  VAPID_SUBJECT: parsed.success ? parsed.data.VAPID_SUBJECT : undefined,
   hasSupabasePublic: parsedPublic.success,
   hasSupabaseService: Boolean(parsed.success && parsed.data.SUPABASE_SERVICE_ROLE_KEY),
 };
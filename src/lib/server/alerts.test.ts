@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { decodeAlertCursor, dismissAlerts, markAlerts, pageAlerts } from "./alerts";
+import { addAlert, ensureUser } from "./store";
+
+function seed(userId: string, count: number) {
+  const createdAt = new Date("2026-10-19T09:00:00Z");
+  // Pairs share a timestamp so the id has to break the tie.
+  return Array.from({ length: count }, (_, index) =>
+    addAlert(userId, { type: "listingEnded", message: `Alert ${index}` }, new Date(createdAt.getTime() + Math.floor(index / 2) * 1000))
+  );
+}
+
+function pageThrough(userId: string, options: Parameters<typeof pageAlerts>[1] = {}) {
+  const ids: string[] = [];
+  let page = pageAlerts(userId, options);
+  ids.push(...page.items.map((item) => item.id));
+  while (page.nextCursor) {
+    page = pageAlerts(userId, { ...options, after: decodeAlertCursor(page.nextCursor) });
+    ids.push(...page.items.map((item) => item.id));
+  }
+  return ids;
+}
+
+describe("pageAlerts", () => {
+  it("returns every alert once, newest first, across pages", () => {
+    const user = ensureUser("pages@example.com");
+    const alerts = seed(user.id, 7);
+    const first = pageAlerts(user.id, { limit: 3 });
+    expect(first.items).toHaveLength(3);
+    expect(first.unreadCount).toBe(7);
+    expect(first.items[0].createdAt >= first.items[2].createdAt).toBe(true);
+
+    const ids = pageThrough(user.id, { limit: 3 });
+    expect(ids).toHaveLength(7);
+    expect(new Set(ids)).toEqual(new Set(alerts.map((alert) => alert.id)));
+  });
+
+  it("keeps the cursor stable when new alerts arrive between pages", () => {
+    const user = ensureUser("stable@example.com");
+    seed(user.id, 4);
+    const first = pageAlerts(user.id, { limit: 2 });
+    addAlert(user.id, { type: "listingEnded", message: "Newer" }, new Date("2026-10-20T00:00:00Z"));
+    const second = pageAlerts(user.id, { limit: 2, after: decodeAlertCursor(first.nextCursor!) });
+    expect(second.items.map((item) => item.message)).not.toContain("Newer");
+    expect([...first.items, ...second.items].map((item) => item.id)).toHaveLength(4);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it("filters by state and hides dismissed alerts by default", () => {
+    const user = ensureUser("states@example.com");
+    const [a, b, c] = seed(user.id, 3);
+    markAlerts(user.id, "read", [a.id]);
+    dismissAlerts(user.id, [b.id]);
+    expect(pageThrough(user.id)).toEqual([c.id, a.id]);
+    expect(pageThrough(user.id, { state: "dismissed" })).toEqual([b.id]);
+    expect(pageAlerts(user.id).unreadCount).toBe(1);
+  });
+
+  it("clamps the page size", () => {
+    const user = ensureUser("limits@example.com");
+    seed(user.id, 3);
+    expect(pageAlerts(user.id, { limit: 0 }).items).toHaveLength(1);
+  });
+});
+
+describe("inbox cap", () => {
+  it("reports unread alerts dropped past the cap until the inbox is read", () => {
+    const user = ensureUser("overflow@example.com");
+    seed(user.id, 503);
+    expect(pageAlerts(user.id)).toMatchObject({ unreadCount: 500, droppedUnreadCount: 3 });
+    markAlerts(user.id, "read", [pageAlerts(user.id).items[0].id]);
+    expect(pageAlerts(user.id).droppedUnreadCount).toBe(3);
+    markAlerts(user.id, "read");
+    expect(pageAlerts(user.id)).toMatchObject({ unreadCount: 0, droppedUnreadCount: 0 });
+    // Read alerts make room first, so nothing unread is lost now.
+    seed(user.id, 2);
+    expect(pageAlerts(user.id)).toMatchObject({ unreadCount: 2, droppedUnreadCount: 0 });
+  });
+});
+
+describe("decodeAlertCursor", () => {
+  it("rejects cursors that are not a position", () => {
+    expect(decodeAlertCursor("garbage")).toBeUndefined();
+    expect(decodeAlertCursor(Buffer.from("yesterday|alt_1").toString("base64url"))).toBeUndefined();
+    expect(decodeAlertCursor(Buffer.from("2026-10-19T09:00:00.000Z|alt_1").toString("base64url"))).toEqual({
+      createdAt: "2026-10-19T09:00:00.000Z",
+      id: "alt_1",
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { currencySymbol } from "@/lib/shared/currency";
+import { sameArtist } from "@/lib/shared/artists";
+import { planDeliveries } from "./notifier";
+import {
+  addAlert,
+  AlertEntry,
+  AlertRuleOverrides,
+  AlertRules,
+  AlertState,
+  getDroppedUnreadCount,
+  getPreferences,
+  listAlerts,
+  listFollowers,
+  setAlertState,
+  updatePreferences,
+} from "./store";
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  priceDrop: { enabled: true, minPercent: 5 },
+  priceRise: { enabled: true, minPercent: 5 },
+  scoreDowngrade: { enabled: true, minPoints: 10 },
+  listingEnded: { enabled: true },
+  listingEdited: { enabled: true },
+  newListing: { enabled: true, minScore: 0 },
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export type AlertEvent =
+  | {
+      type: "priceDrop" | "priceRise";
+      listingId: string;
+      title: string;
+      from: number;
+      to: number;
+      currency: string;
+      changePercent: number;
+    }
+  | { type: "scoreDowngrade"; listingId: string; title: string; from: number; to: number }
+  | { type: "listingEnded"; listingId: string; title: string }
+  // Sellers sometimes edit a listing after buyers have saved it.
+  | { type: "listingEdited"; listingId: string; title: string; edited: string[]; missingFields: string[] }
+  | {
+      type: "newListing";
+      listingId: string;
+      title: string;
+      url: string;
+      artistId: string;
+      artistName: string;
+      score: number;
+      price?: number;
+      currency: string;
+    };
+
+export type AlertCursor = { createdAt: string; id: string };
+
+export type AlertPage = {
+  items: AlertEntry[];
+  nextCursor?: string;
+  unreadCount: number;
+  // Unread alerts that were dropped because the inbox was full; cleared by marking everything read or dismissed.
+  droppedUnreadCount: number;
+};
+
+export function resolveAlertRules(overrides: AlertRuleOverrides = {}): AlertRules {
+  return {
+    priceDrop: { ...DEFAULT_ALERT_RULES.priceDrop, ...overrides.priceDrop },
+    priceRise: { ...DEFAULT_ALERT_RULES.priceRise, ...overrides.priceRise },
+    scoreDowngrade: { ...DEFAULT_ALERT_RULES.scoreDowngrade, ...overrides.scoreDowngrade },
+    listingEnded: { ...DEFAULT_ALERT_RULES.listingEnded, ...overrides.listingEnded },
+    listingEdited: { ...DEFAULT_ALERT_RULES.listingEdited, ...overrides.listingEdited },
+    newListing: { ...DEFAULT_ALERT_RULES.newListing, ...overrides.newListing },
+  };
+}
+
+export function getAlertRules(userId: string, email?: string): AlertRules {
+  return resolveAlertRules(getPreferences(userId, email).alertRules);
+}
+
+export function updateAlertRules(userId: string, patch: AlertRuleOverrides, email?: string): AlertRules {
+  const current = getPreferences(userId, email).alertRules ?? {};
+  const merged: AlertRuleOverrides = {
+    priceDrop: { ...current.priceDrop, ...patch.priceDrop },
+    priceRise: { ...current.priceRise, ...patch.priceRise },
+    scoreDowngrade: { ...current.scoreDowngrade, ...patch.scoreDowngrade },
+    listingEnded: { ...current.listingEnded, ...patch.listingEnded },
+    listingEdited: { ...current.listingEdited, ...patch.listingEdited },
+    newListing: { ...current.newListing, ...patch.newListing },
+  };
+  return resolveAlertRules(updatePreferences(userId, { alertRules: merged }, email).alertRules);
+}
+
+function passesRule(event: AlertEvent, rules: AlertRules): boolean {
+  switch (event.type) {
+    case "priceDrop":
+    case "priceRise":
+      return rules[event.type].enabled && Math.abs(event.changePercent) >= rules[event.type].minPercent;
+    case "scoreDowngrade":
+      return rules.scoreDowngrade.enabled && event.from - event.to >= rules.scoreDowngrade.minPoints;
+    case "listingEdited":
+      return rules.listingEdited.enabled && Boolean(event.edited.length || event.missingFields.length);
+    case "newListing":
+      return rules.newListing.enabled && event.score >= rules.newListing.minScore;
+    case "listingEnded":
+      return rules.listingEnded.enabled;
+  }
+}
+
+function formatMoney(amount: number | undefined, currency: string): string {
+  return typeof amount === "number" ? `${currencySymbol(currency)}${amount.toLocaleString("en-US")}` : "no price";
+}
+
+function describeEvent(event: AlertEvent): Pick<AlertEntry, "message" | "data"> {
+  switch (event.type) {
+    case "priceDrop":
+    case "priceRise": {
+      const { from, to, currency, changePercent } = event;
+      return {
+        message: `"${event.title}" ${event.type === "priceDrop" ? "dropped" : "rose"} from ${formatMoney(from, currency)} to ${formatMoney(to, currency)} (${changePercent > 0 ? "+" : ""}${changePercent}%).`,
+        data: { from, to, currency, changePercent },
+      };
+    }
+    case "scoreDowngrade":
+      return {
+        message: `Confidence for "${event.title}" fell from ${event.from} to ${event.to}.`,
+        data: { from: event.from, to: event.to },
+      };
+    case "listingEnded":
+      return { message: `"${event.title}" has ended or is no longer available.` };
+    case "listingEdited": {
+      const edited = event.edited.join(" and ");
+      const missing = event.missingFields.join(", ");
+      let message = `"${event.title}" no longer shows: ${missing}.`;
+      if (edited) message = `The seller edited the ${edited} of "${event.title}"${missing ? `, which no longer shows: ${missing}` : ""}.`;
+      return {
+        message,
+        data: { edited: event.edited.join(","), missingFields: event.missingFields.join(",") },
+      };
+    }
+    case "newListing":
+      return {
+        message: `New ${event.artistName} listing: "${event.title}" at ${formatMoney(event.price, event.currency)} (confidence ${event.score}).`,
+        data: { url: event.url, score: event.score, ...(event.price !== undefined ? { price: event.price, currency: event.currency } : {}) },
+      };
+  }
+}
+
+// Returns undefined when the user's rules filter the event out.
+export function raiseAlert(userId: string, event: AlertEvent, rules: AlertRules): AlertEntry | undefined {
+  if (!passesRule(event, rules)) return undefined;
+  const deliveries = planDeliveries(userId, event.type);
+  return addAlert(userId, {
+    type: event.type,
+    listingId: event.listingId,
+    artistId: event.type === "newListing" ? event.artistId : undefined,
+    ...describeEvent(event),
+    deliveries: deliveries.length ? deliveries : undefined,
+  });
+}
+
+// Followed artists are stored as typed, so match on the canonical artist as well as the id.
+export function alertFollowers(event: Extract<AlertEvent, { type: "newListing" }>): AlertEntry[] {
+  return listFollowers().flatMap(({ userId, email, artists }) => {
+    const follows = artists.some((artist) => artist === event.artistId || sameArtist(artist, event.artistName));
+    const alert = follows ? raiseAlert(userId, event, getAlertRules(userId, email)) : undefined;
+    return alert ? [alert] : [];
+  });
+}
+
+// Alerts sort newest first with the id breaking ties, so a cursor is the last alert's position in that order.
+function encodeCursor(entry: AlertEntry): string {
+  return Buffer.from(`${entry.createdAt}|${entry.id}`).toString("base64url");
+}
+
+export function decodeAlertCursor(cursor: string): AlertCursor | undefined {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  if (!createdAt || !id || Number.isNaN(Date.parse(createdAt))) return undefined;
+  return { createdAt, id };
+}
+
+function compareAlerts(a: AlertCursor, b: AlertCursor): number {
+  return b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+}
+
+// Dismissed alerts only appear when asked for by state.
+export function pageAlerts(userId: string, options: { state?: AlertState; after?: AlertCursor; limit?: number } = {}): AlertPage {
+  const all = listAlerts(userId).sort(compareAlerts);
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const { after } = options;
+  const matching = all.filter(
+    (entry) =>
+      (options.state ? entry.state === options.state : entry.state !== "dismissed") &&
+      (!after || compareAlerts(after, entry) < 0)
+  );
+  const items = matching.slice(0, limit);
+  return {
+    items,
+    nextCursor: matching.length > limit ? encodeCursor(items[items.length - 1]) : undefined,
+    unreadCount: all.filter((entry) => entry.state === "unread").length,
+    droppedUnreadCount: getDroppedUnreadCount(userId),
+  };
+}
+
+export function markAlerts(userId: string, state: "read" | "unread", ids?: string[]): number {
+  return setAlertState(userId, state, ids, ["read", "unread"]);
+}
+
+export function dismissAlerts(userId: string, ids?: string[]): number {
+  return setAlertState(userId, "dismissed", ids);
+}
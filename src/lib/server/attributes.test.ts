@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { extractMedium, extractReleaseYears, normalizeMedium, releaseYearToCheck } from "./attributes";
+import { EvidenceSource } from "./evidence";
+import { ListingRecord } from "./types";
+
+const now = new Date("2026-10-19T09:00:00Z");
+
+function listing(artwork: Partial<ListingRecord["artwork"]> = {}): ListingRecord {
+  return {
+    listingId: "ebay_1",
+    source: "ebay",
+    url: "https://www.ebay.co.uk/itm/1",
+    fetchedAt: now.toISOString(),
+    currency: "GBP",
+    artwork: { title: "Print", ...artwork },
+    artist: {},
+    visual: { imageUrls: [] },
+  };
+}
+
+const sources = (...entries: Array<[EvidenceSource["kind"], string]>): EvidenceSource[] =>
+  entries.map(([kind, text]) => ({ kind, text }));
+
+describe("normalizeMedium", () => {
+  it.each([
+    ["Serigraph", "Screen print"],
+    ["Offset litho poster", "Offset lithograph"],
+    ["Archival pigment print", "Giclée"],
+    ["Mixed media", "Mixed media"],
+  ])("reads %s as %s", (value, label) => {
+    expect(normalizeMedium(value)).toBe(label);
+  });
+});
+
+describe("extractMedium", () => {
+  it("trusts a structured field over the text", () => {
+    expect(extractMedium(listing({ medium: "silkscreen" }), sources(["title", "Giclée print"]))).toEqual({
+      value: "Screen print",
+      confidence: "high",
+      source: "specifics",
+    });
+  });
+
+  it("takes the most specific term from the most trusted source", () => {
+    expect(extractMedium(listing(), sources(["page", "Lithograph"], ["description", "Offset lithograph poster, unframed."]))).toEqual({
+      value: "Offset lithograph",
+      confidence: "medium",
+      source: "description",
+    });
+  });
+
+  it("ignores a medium the seller rules out", () => {
+    expect(extractMedium(listing(), sources(["description", "Not a giclée."]))).toBeUndefined();
+  });
+});
+
+describe("extractReleaseYears", () => {
+  it("ranks stated and structured years above passing mentions", () => {
+    const raw = `<script type="application/ld+json">{"@type":"VisualArtwork","dateCreated":"2004"}</script>`;
+    const years = extractReleaseYears(listing({ yearOfRelease: "2004" }), sources(["page", "Seller member since 2010. Printed in 2004."]), raw, now);
+    expect(years.map((candidate) => [candidate.year, candidate.confidence, candidate.source])).toEqual([
+      [2004, "high", "specifics"],
+      [2004, "high", "jsonLd"],
+      [2004, "medium", "page"],
+    ]);
+  });
+
+  it("skips dates, purchase years and years still to come", () => {
+    const text = "Bought in 2019, framed 2020. Shipped 12/2023. Ships 2027. Released 2015.";
+    expect(extractReleaseYears(listing(), sources(["description", text]), "", now).map((candidate) => candidate.year)).toEqual([2015]);
+  });
+});
+
+describe("releaseYearToCheck", () => {
+  const at = (...entries: Array<[EvidenceSource["kind"], string]>) => extractReleaseYears(listing(), sources(...entries), "", now);
+
+  it("passes a single confident year", () => {
+    expect(releaseYearToCheck(at(["title", "Banksy Girl with Balloon (2004)"]))).toMatchObject({ value: "Good" });
+  });
+
+  it("asks for review when confident years disagree or the only year is a passing mention", () => {
+    expect(releaseYearToCheck(at(["title", "Print (2004)"], ["description", "Released 2006."])).detail).toBe(
+      "Listing gives conflicting years (2004, 2006)."
+    );
+    expect(releaseYearToCheck(at(["description", "Great condition, 2004 vibes."])).value).toBe("Needs review");
+  });
+
+  it("falls back to the catalogue year", () => {
+    expect(releaseYearToCheck([], 2003).value).toBe("Good");
+    expect(releaseYearToCheck([]).value).toBe("Missing evidence");
+  });
+});
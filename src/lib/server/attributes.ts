@@ -0,0 +1,164 @@
+import { EvidenceSource, findEvidence } from "./evidence";
+import { extractJsonLdObjects } from "./extractors/shared";
+import { ExtractedAttribute, ExtractionConfidence, ListingRecord, SnapshotBucketCheck } from "./types";
+
+type MediumTerm = { label: string; terms: RegExp };
+
+// Ordered most-specific first: "offset lithograph" must win over "lithograph", "giclée on canvas" over "canvas".
+export const MEDIUM_VOCABULARY: MediumTerm[] = [
+  { label: "Offset lithograph", terms: /\boffset[- ]?(?:litho(?:graph)?s?|prints?)\b/i },
+  { label: "Screen print", terms: /\b(?:screen[- ]?prints?|screen[- ]?printed|silk[- ]?screens?|serigraphs?|serigraphy)\b/i },
+  { label: "Giclée", terms: /\b(?:gicl[eé]es?|archival pigment prints?|pigment prints?)\b/i },
+  { label: "Lithograph", terms: /\b(?:lithographs?|lithography|litho)\b/i },
+  { label: "Etching", terms: /\b(?:etchings?|aquatint|drypoint)\b/i },
+  { label: "Vinyl figure", terms: /\b(?:vinyl (?:figures?|toys?|sculptures?)|designer toys?|art toys?)\b/i },
+  { label: "Resin", terms: /\b(?:cast resin|resin (?:figures?|sculptures?|statues?)|resin)\b/i },
+  { label: "Canvas", terms: /\b(?:(?:oil|acrylic) on canvas|canvas prints?|on canvas|canvas)\b/i },
+];
+
+const SOURCE_CONFIDENCE: Record<EvidenceSource["kind"], ExtractionConfidence> = {
+  title: "high",
+  jsonLd: "high",
+  description: "medium",
+  meta: "medium",
+  page: "low",
+};
+const CONFIDENCE_RANK: Record<ExtractionConfidence, number> = { high: 3, medium: 2, low: 1 };
+
+const EARLIEST_YEAR = 1850;
+const YEAR = /\b(1[89]\d{2}|20\d{2})\b/g;
+const RELEASE_CUE = /\b(?:released?|release date|dropped|published|printed|created|made|dated|issued|circa|c\.|©|\(c\))\s*(?:in|on)?\s*$/i;
+// Years that describe the seller's history with the item rather than the work itself.
+const UNRELATED_CUE = /\b(?:bought|purchased|acquired|received|shipped|framed|since|member|joined|copyright \d|warranty)\b[^.\n]{0,24}$/i;
+
+// "Bought in March 2019", "acquired from the gallery in 2015".
+const ACQUISITION =
+  /\b(?:bought|purchased|acquired|obtained)\b[^.\n]{0,40}?\b(?:(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+)?(1[89]\d{2}|20\d{2})\b/gi;
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+export type YearCandidate = ExtractedAttribute & { year: number };
+
+export type AcquisitionClaim = {
+  year: number;
+  month?: number;
+  excerpt: string;
+  source: EvidenceSource["kind"];
+};
+
+function toConfidence(rank: number): ExtractionConfidence {
+  return rank >= 3 ? "high" : rank === 2 ? "medium" : "low";
+}
+
+export function normalizeMedium(value?: string): string | undefined {
+  if (!value?.trim()) return undefined;
+  return MEDIUM_VOCABULARY.find((entry) => entry.terms.test(value))?.label ?? value.trim();
+}
+
+// A medium the extractor read from structured fields (item specifics, artMedium) outranks free text.
+export function extractMedium(listing: ListingRecord, sources: EvidenceSource[]): ExtractedAttribute | undefined {
+  const stated = normalizeMedium(listing.artwork.medium);
+  if (stated) return { value: stated, confidence: "high", source: "specifics" };
+
+  let best: (ExtractedAttribute & { rank: number }) | undefined;
+  for (const entry of MEDIUM_VOCABULARY) {
+    const result = findEvidence(sources, { terms: entry.terms });
+    for (const hit of result.hits) {
+      if (hit.polarity !== "affirmed") continue;
+      const rank = CONFIDENCE_RANK[SOURCE_CONFIDENCE[hit.source]];
+      if (!best || rank > best.rank) best = { value: entry.label, confidence: toConfidence(rank), source: hit.source, rank };
+    }
+  }
+  if (!best) return undefined;
+  return { value: best.value, confidence: best.confidence, source: best.source };
+}
+
+function readYear(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const match = String(value).match(/\b(1[89]\d{2}|20\d{2})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function isPlausibleYear(year: number, now: Date): boolean {
+  return year >= EARLIEST_YEAR && year <= now.getUTCFullYear();
+}
+
+function yearsInText(source: EvidenceSource, now: Date): YearCandidate[] {
+  const candidates: YearCandidate[] = [];
+  for (const match of source.text.matchAll(YEAR)) {
+    const year = Number(match[1]);
+    const start = match.index ?? 0;
+    if (!isPlausibleYear(year, now)) continue;
+    const before = source.text.slice(Math.max(0, start - 40), start);
+    const after = source.text.slice(start + match[0].length, start + match[0].length + 16);
+    if (UNRELATED_CUE.test(before)) continue;
+    // "12/2023", "2023-05-01" and "2019 x 2020" style noise is not a release year.
+    if (/[/\-]\s*$/.test(before) || /^\s*[/\-]\d/.test(after)) continue;
+    const cued = RELEASE_CUE.test(before) || /\(\s*$/.test(before) || /^\s*(?:release|edition|drop)\b/i.test(after);
+    const base = CONFIDENCE_RANK[SOURCE_CONFIDENCE[source.kind]];
+    const rank = cued ? Math.min(3, base + 1) : base - 1;
+    if (rank < 1) continue;
+    candidates.push({ year, value: String(year), confidence: toConfidence(rank), source: source.kind });
+  }
+  return candidates;
+}
+
+export function extractReleaseYears(listing: ListingRecord, sources: EvidenceSource[], raw: string, now = new Date()): YearCandidate[] {
+  const candidates: YearCandidate[] = [];
+  const stated = readYear(listing.artwork.yearOfRelease);
+  if (stated && isPlausibleYear(stated, now)) {
+    candidates.push({ year: stated, value: String(stated), confidence: "high", source: "specifics" });
+  }
+  for (const object of extractJsonLdObjects(raw)) {
+    const year = readYear(object.dateCreated ?? object.releaseDate ?? object.datePublished);
+    if (year && isPlausibleYear(year, now)) {
+      candidates.push({ year, value: String(year), confidence: "high", source: "jsonLd" });
+    }
+  }
+  // Structured JSON-LD dates are read above; its free text would only repeat them.
+  for (const source of sources) {
+    if (source.kind !== "jsonLd") candidates.push(...yearsInText(source, now));
+  }
+  return candidates.sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence]);
+}
+
+export function releaseYearToCheck(candidates: YearCandidate[], catalogueYear?: number): SnapshotBucketCheck {
+  const label = "Release context";
+  const best = candidates[0];
+  if (!best) {
+    if (catalogueYear) {
+      return { label, value: "Good", detail: `Listing gives no year; the catalogue dates this work to ${catalogueYear}.` };
+    }
+    return { label, value: "Missing evidence", detail: "No release or creation year found." };
+  }
+  const confident = candidates.filter((candidate) => candidate.confidence !== "low");
+  const distinct = [...new Set(confident.map((candidate) => candidate.year))];
+  if (distinct.length > 1) {
+    return { label, value: "Needs review", detail: `Listing gives conflicting years (${distinct.join(", ")}).` };
+  }
+  if (best.confidence === "low") {
+    return { label, value: "Needs review", detail: `Only a passing mention of ${best.year} — confirm the release year.` };
+  }
+  return { label, value: "Good", detail: `Release year ${best.year} (${best.confidence} confidence, from ${describeSource(best.source)}).` };
+}
+
+function describeSource(source: ExtractedAttribute["source"]): string {
+  if (source === "specifics") return "item details";
+  if (source === "jsonLd") return "structured data";
+  if (source === "meta") return "meta tags";
+  if (source === "page") return "page text";
+  return `the ${source}`;
+}
+
+// The earliest date the seller claims to have acquired the work, so later checks err towards the seller.
+export function extractAcquisitionClaim(sources: EvidenceSource[], now = new Date()): AcquisitionClaim | undefined {
+  const claims: AcquisitionClaim[] = [];
+  for (const source of sources) {
+    for (const match of source.text.matchAll(ACQUISITION)) {
+      const year = Number(match[2]);
+      if (!isPlausibleYear(year, now)) continue;
+      const month = match[1] ? MONTHS.indexOf(match[1].toLowerCase()) + 1 : undefined;
+      claims.push({ year, month, excerpt: match[0], source: source.kind });
+    }
+  }
+  return claims.sort((a, b) => a.year - b.year || (a.month ?? 1) - (b.month ?? 1))[0];
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { applyCatalogueMatch, catalogueToCheck, matchCatalogueWork } from "./catalogue";
+import { parseMeasurements } from "./dimensions";
+import { ListingRecord } from "./types";
+
+function listing(title: string, artwork: Partial<ListingRecord["artwork"]> = {}, artist: ListingRecord["artist"] = {}): ListingRecord {
+  return {
+    listingId: "ebay_1",
+    source: "ebay",
+    url: "https://www.ebay.co.uk/itm/1",
+    fetchedAt: "2026-10-19T09:00:00Z",
+    currency: "GBP",
+    artwork: { title, ...artwork },
+    artist,
+    visual: { imageUrls: [] },
+  };
+}
+
+describe("matchCatalogueWork", () => {
+  it("finds the work through an alias and the artist named in the title", () => {
+    const match = matchCatalogueWork(listing("Banksy Flower Thrower screenprint"));
+    expect(match).toMatchObject({ artist: "Banksy", work: { id: "banksy-love-is-in-the-air" }, mismatches: [] });
+    expect(match?.filled).toEqual(["medium", "year of release", "dimensions", "publisher"]);
+  });
+
+  it("prefers the longest matching name", () => {
+    expect(matchCatalogueWork(listing("KAWS Companion Flayed Open Edition grey"))?.work.id).toBe("kaws-companion-flayed-open-edition");
+  });
+
+  it("does not match part of a word", () => {
+    expect(matchCatalogueWork(listing("KAWS BFFS plush", {}, { id: "kaws" }))).toBeUndefined();
+  });
+
+  it("returns nothing for artists outside the catalogue", () => {
+    expect(matchCatalogueWork(listing("Girl with Balloon tribute", {}, { name: "Unknown Painter" }))).toBeUndefined();
+  });
+
+  it("reports an edition size, size or year the catalogue does not know", () => {
+    const match = matchCatalogueWork(
+      listing(
+        "Banksy Girl with Balloon",
+        {
+          edition: { raw: "12/300", number: 12, size: 300, variant: "standard" },
+          measurements: parseMeasurements("40 x 30 cm"),
+          yearOfRelease: "2006",
+        },
+        { id: "banksy" }
+      )
+    );
+    expect(match?.mismatches).toEqual([
+      'Listed as an edition of 300, but "Girl with Balloon" was released in editions of 150 / 600.',
+      "Listed at 40 x 30 cm; the catalogue gives 70 x 50 cm.",
+      "Listing dates the work to 2006; the catalogue has 2004.",
+    ]);
+  });
+
+  it("flags a numbered edition of an open-edition release", () => {
+    const match = matchCatalogueWork(listing("KAWS BFF", { edition: { raw: "5/50", number: 5, size: 50, variant: "standard" } }, { id: "kaws" }));
+    expect(match?.mismatches).toEqual(['Listed as an edition of 50, but "BFF" is an open edition.']);
+  });
+});
+
+describe("applyCatalogueMatch", () => {
+  it("fills gaps and keeps what the seller stated", () => {
+    const item = listing("Banksy Girl with Balloon", { medium: "Giclée", dimensions: "Not provided" }, { id: "banksy" });
+    const { artwork } = applyCatalogueMatch(item, matchCatalogueWork(item));
+    expect(artwork).toMatchObject({
+      catalogueWorkId: "banksy-girl-with-balloon",
+      medium: "Giclée",
+      yearOfRelease: "2004",
+      dimensions: "70 x 50 cm",
+      publisher: "Pictures on Walls",
+    });
+    expect(artwork.measurements).toHaveLength(1);
+  });
+});
+
+describe("catalogueToCheck", () => {
+  it("grades a clean match, a mismatch and no match", () => {
+    const item = listing("Banksy Girl with Balloon", { medium: "Screen print" }, { id: "banksy" });
+    expect(catalogueToCheck(matchCatalogueWork(item))).toMatchObject({ value: "Good" });
+    expect(catalogueToCheck(matchCatalogueWork(item)).detail).toContain("Filled in year of release");
+    expect(catalogueToCheck(matchCatalogueWork({ ...item, artwork: { ...item.artwork, yearOfRelease: "1999" } })).value).toBe("Needs review");
+    expect(catalogueToCheck(undefined).value).toBe("Missing evidence");
+  });
+});
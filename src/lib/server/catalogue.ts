@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { findArtistInText, getArtistById, normalizeArtistKey } from "@/lib/shared/artists";
+import bundledCatalogue from "./catalogues/works.json";
+import { measurementsMatch, parseMeasurements, primaryMeasurement } from "./dimensions";
+import { ListingRecord, SnapshotBucketCheck } from "./types";
+
+const catalogueWorkSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  releaseYear: z.number().int().optional(),
+  publisher: z.string().optional(),
+  // Known edition runs, e.g. signed and unsigned; empty for unnumbered works.
+  editionSizes: z.array(z.number().int().positive()).default([]),
+  openEdition: z.boolean().optional(),
+  medium: z.string().optional(),
+  dimensions: z.string().optional(),
+});
+
+const catalogueSchema = z.object({
+  version: z.string().min(1),
+  artists: z.array(
+    z.object({
+      artistId: z.string().min(1),
+      works: z.array(catalogueWorkSchema).min(1),
+    })
+  ),
+});
+
+export type CatalogueWork = z.infer<typeof catalogueWorkSchema>;
+export type CatalogueArtist = z.infer<typeof catalogueSchema>["artists"][number];
+
+export type CatalogueMatch = {
+  artist: string;
+  work: CatalogueWork;
+  filled: string[];
+  mismatches: string[];
+};
+
+const catalogue = catalogueSchema.parse(bundledCatalogue);
+
+function containsPhrase(haystack: string, phrase: string): boolean {
+  const needle = normalizeArtistKey(phrase);
+  return Boolean(needle) && ` ${haystack} `.includes(` ${needle} `);
+}
+
+function isMissing(value?: string): boolean {
+  return !value || value === "Not provided";
+}
+
+function findArtist(listing: ListingRecord): CatalogueArtist | undefined {
+  const artistId = listing.artist.id ?? findArtistInText(listing.artwork.title)?.id;
+  return artistId ? catalogue.artists.find((entry) => entry.artistId === artistId) : undefined;
+}
+
+// Longest matching title or alias wins so "Companion (Flayed)" beats a bare "Companion".
+function findWork(artist: CatalogueArtist, haystack: string): CatalogueWork | undefined {
+  let best: { work: CatalogueWork; length: number } | undefined;
+  for (const work of artist.works) {
+    for (const name of [work.title, ...work.aliases]) {
+      if (!containsPhrase(haystack, name)) continue;
+      const length = normalizeArtistKey(name).length;
+      if (!best || length > best.length) best = { work, length };
+    }
+  }
+  return best?.work;
+}
+
+function findMismatches(listing: ListingRecord, work: CatalogueWork): string[] {
+  const mismatches: string[] = [];
+  const edition = listing.artwork.edition;
+  if (edition && edition.variant === "standard") {
+    if (work.openEdition && typeof edition.size === "number") {
+      mismatches.push(`Listed as an edition of ${edition.size}, but "${work.title}" is an open edition.`);
+    } else if (typeof edition.size === "number" && work.editionSizes.length && !work.editionSizes.includes(edition.size)) {
+      mismatches.push(
+        `Listed as an edition of ${edition.size}, but "${work.title}" was released in editions of ${work.editionSizes.join(" / ")}.`
+      );
+    }
+  }
+  const known = primaryMeasurement(work.dimensions ? parseMeasurements(work.dimensions) : []);
+  const listed = primaryMeasurement(listing.artwork.measurements?.filter((measurement) => measurement.variant !== "framed"));
+  if (known && listed && !measurementsMatch(known.cm, listed.cm)) {
+    mismatches.push(`Listed at ${listed.raw}; the catalogue gives ${work.dimensions}.`);
+  }
+  const listedYear = Number(listing.artwork.yearOfRelease?.match(/\b(19|20)\d{2}\b/)?.[0]);
+  if (listedYear && work.releaseYear && listedYear !== work.releaseYear) {
+    mismatches.push(`Listing dates the work to ${listedYear}; the catalogue has ${work.releaseYear}.`);
+  }
+  return mismatches;
+}
+
+export function matchCatalogueWork(listing: ListingRecord): CatalogueMatch | undefined {
+  const haystack = normalizeArtistKey([listing.artwork.title, listing.artist.name].filter(Boolean).join(" "));
+  const artist = findArtist(listing);
+  if (!artist) return undefined;
+  const work = findWork(artist, haystack);
+  if (!work) return undefined;
+
+  const filled: string[] = [];
+  if (isMissing(listing.artwork.medium) && work.medium) filled.push("medium");
+  if (isMissing(listing.artwork.yearOfRelease) && work.releaseYear) filled.push("year of release");
+  if (isMissing(listing.artwork.dimensions) && work.dimensions) filled.push("dimensions");
+  if (isMissing(listing.artwork.publisher) && work.publisher) filled.push("publisher");
+
+  const artistName = getArtistById(artist.artistId)?.displayName ?? artist.artistId;
+  return { artist: artistName, work, filled, mismatches: findMismatches(listing, work) };
+}
+
+// Catalogue values only fill gaps; whatever the seller stated is kept and compared instead.
+export function applyCatalogueMatch(listing: ListingRecord, match?: CatalogueMatch): ListingRecord {
+  if (!match) return listing;
+  const { work } = match;
+  const artwork = listing.artwork;
+  return {
+    ...listing,
+    artwork: {
+      ...artwork,
+      catalogueWorkId: work.id,
+      medium: isMissing(artwork.medium) ? work.medium ?? artwork.medium : artwork.medium,
+      yearOfRelease:
+        isMissing(artwork.yearOfRelease) && work.releaseYear ? String(work.releaseYear) : artwork.yearOfRelease,
+      dimensions: isMissing(artwork.dimensions) ? work.dimensions ?? artwork.dimensions : artwork.dimensions,
+      measurements:
+        !artwork.measurements?.length && work.dimensions ? parseMeasurements(work.dimensions) : artwork.measurements,
+      publisher: isMissing(artwork.publisher) ? work.publisher ?? artwork.publisher : artwork.publisher,
+    },
+  };
+}
+
+export function catalogueToCheck(match?: CatalogueMatch): SnapshotBucketCheck {
+  const label = "Catalogue match";
+  if (!match) {
+    return { label, value: "Missing evidence", detail: "Work not found in the local catalogue of known releases." };
+  }
+  if (match.mismatches.length) {
+    return { label, value: "Needs review", detail: match.mismatches.join(" ") };
+  }
+  const filled = match.filled.length ? ` Filled in ${match.filled.join(", ")} from the catalogue.` : "";
+  return {
+    label,
+    value: "Good",
+    detail: `Matches ${match.artist} — "${match.work.title}" in the catalogue.${filled}`,
+  };
+}
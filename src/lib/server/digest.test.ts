@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildDigest, renderDigest, sendDueDigests } from "./digest";
+import { MailMessage, SmtpConfig } from "./notifications";
+import { addWatchlist, appendSnapshotVersion, ensureUser, followArtist, updatePreferences, updateWatchlistItem } from "./store";
+import { SnapshotResponseBody } from "./types";
+
+// The env module reads SMTP settings once, at import.
+vi.hoisted(() => {
+  process.env.SMTP_HOST = "smtp.example.com";
+  process.env.SMTP_FROM = "alerts@example.com";
+});
+
+const NOW = Date.parse("2026-10-19T09:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+const iso = (offsetHours: number) => new Date(NOW + offsetHours * HOUR_MS).toISOString();
+
+function response(title: string, price: number, score: number, artistId = "banksy"): SnapshotResponseBody {
+  return {
+    source: "ebay",
+    rubricVersion: "6.0.0",
+    snapshot: { listingId: "x", score, status: score >= 70 ? "Good" : "Needs review", recommendedAction: "Proceed", topPositiveSignals: [], topMissingOrSuspiciousSignals: [], buckets: [] },
+    artworkOverview: {
+      imageUrls: [],
+      artistId,
+      artistName: artistId === "banksy" ? "Banksy" : "Stik",
+      title,
+      dimensions: "Not provided",
+      measurements: [],
+      price,
+      currency: "GBP",
+      medium: "Not provided",
+      yearOfRelease: "Not provided",
+      edition: "Not provided",
+      confidence: {},
+    },
+  };
+}
+
+function scan(listingId: string, at: string, body: SnapshotResponseBody, discovered = false) {
+  appendSnapshotVersion({ listingId, url: `https://www.ebay.co.uk/itm/${listingId}`, capturedAt: at, response: body, discovered });
+}
+
+describe("buildDigest", () => {
+  it("reports watchlist moves, ended listings and discovered listings from followed artists", () => {
+    const user = ensureUser("digest@example.com");
+    followArtist(user.id, "Banksy", user.email);
+    addWatchlist(user.id, { listingId: "w1", source: "ebay", url: "https://www.ebay.co.uk/itm/w1", title: "Watched print" });
+    addWatchlist(user.id, { listingId: "w2", source: "ebay", url: "https://www.ebay.co.uk/itm/w2", title: "Gone print" });
+    scan("w1", iso(-30), response("Watched print", 1000, 80));
+    scan("w1", iso(-2), response("Watched print", 850, 60));
+    updateWatchlistItem(user.id, "w2", { ended: true, endedAt: iso(-5) });
+    scan("found", iso(-3), response("Discovered print", 500, 75), true);
+    scan("someone-elses", iso(-3), response("Another user's scan", 400, 90));
+    scan("other-artist", iso(-3), response("Stik print", 300, 90, "stik"), true);
+
+    const digest = buildDigest(user.id, user.email, "daily", NOW);
+    expect(digest.empty).toBe(false);
+    expect(digest.priceMovements).toMatchObject([{ listingId: "w1", from: 1000, to: 850, change: -150, changePercent: -15 }]);
+    expect(digest.scoreChanges).toMatchObject([{ listingId: "w1", from: 80, to: 60, statusTo: "Needs review" }]);
+    expect(digest.endedListings.map((entry) => entry.listingId)).toEqual(["w2"]);
+    expect(digest.newListings.map((entry) => entry.listingId)).toEqual(["found"]);
+  });
+
+  it("is empty when nothing happened in the window", () => {
+    const user = ensureUser("quiet@example.com");
+    expect(buildDigest(user.id, user.email, "weekly", NOW)).toMatchObject({ empty: true, since: iso(-7 * 24) });
+  });
+
+  it("escapes listing titles in the HTML", () => {
+    const user = ensureUser("escape@example.com");
+    addWatchlist(user.id, { listingId: "xss", source: "ebay", url: "https://www.ebay.co.uk/itm/xss", title: `<img src=x onerror="alert(1)">` });
+    updateWatchlistItem(user.id, "xss", { ended: true, endedAt: iso(-1) });
+    const { html, text } = renderDigest(buildDigest(user.id, user.email, "daily", NOW));
+    expect(html).not.toContain("<img");
+    expect(html).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;");
+    expect(text).toContain(`<img src=x onerror="alert(1)">`);
+  });
+});
+
+describe("sendDueDigests", () => {
+  it("sends due digests to the account address and skips empty ones", async () => {
+    const busy = ensureUser("busy@example.com");
+    addWatchlist(busy.id, { listingId: "b1", source: "ebay", url: "https://www.ebay.co.uk/itm/b1", title: "Busy print" });
+    updateWatchlistItem(busy.id, "b1", { ended: true, endedAt: iso(25) });
+    updatePreferences(busy.id, { digestFrequency: "daily", notifications: { email: { enabled: true, address: "unconfirmed@elsewhere.example" } } }, busy.email);
+    const idle = ensureUser("idle@example.com");
+    updatePreferences(idle.id, { digestFrequency: "daily" }, idle.email);
+
+    const sent: MailMessage[] = [];
+    const send = async (_config: SmtpConfig, message: MailMessage) => {
+      sent.push(message);
+    };
+    // The first run only schedules; a day later both are due.
+    await sendDueDigests(NOW, send);
+    const summary = await sendDueDigests(NOW + 26 * HOUR_MS, send);
+    expect(summary).toMatchObject({ sent: 1, failed: 0 });
+    expect(sent.map((message) => message.to)).toEqual(["busy@example.com"]);
+  });
+});
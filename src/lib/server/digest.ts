@@ -0,0 +1,226 @@
+import { sameArtist } from "@/lib/shared/artists";
+import { renderDigestHtml, renderDigestSubject, renderDigestText } from "./digestTemplate";
+import { sendMail } from "./notifications";
+import { emailAddress, quietHoursRemaining, smtpConfig } from "./notifier";
+import {
+  DigestScheduleEntry,
+  getDigestSchedule,
+  listFirstSnapshotVersions,
+  listFollowing,
+  listSnapshotVersions,
+  listUserPreferences,
+  listWatchlist,
+  saveDigestSchedule,
+  SnapshotVersion,
+} from "./store";
+import { ConfidenceStatus } from "./types";
+
+export type DigestPeriod = DigestScheduleEntry["frequency"];
+
+export type DigestPriceMovement = {
+  listingId: string;
+  title: string;
+  url: string;
+  from: number;
+  to: number;
+  currency: string;
+  change: number;
+  changePercent: number;
+};
+
+export type DigestScoreChange = {
+  listingId: string;
+  title: string;
+  url: string;
+  from: number;
+  to: number;
+  change: number;
+  statusFrom: ConfidenceStatus;
+  statusTo: ConfidenceStatus;
+};
+
+export type DigestEndedListing = { listingId: string; title: string; url: string; endedAt: string };
+
+export type DigestNewListing = {
+  listingId: string;
+  title: string;
+  url: string;
+  artistName: string;
+  price?: number;
+  currency: string;
+  score: number;
+  status: ConfidenceStatus;
+  firstSeenAt: string;
+};
+
+export type Digest = {
+  period: DigestPeriod;
+  since: string;
+  until: string;
+  priceMovements: DigestPriceMovement[];
+  endedListings: DigestEndedListing[];
+  newListings: DigestNewListing[];
+  scoreChanges: DigestScoreChange[];
+  empty: boolean;
+};
+
+export type RenderedDigest = { subject: string; text: string; html: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS: Record<DigestPeriod, number> = { daily: DAY_MS, weekly: 7 * DAY_MS };
+const DIGEST_RETRY_MS = 15 * 60 * 1000;
+const MAX_NEW_LISTINGS = 20;
+
+// The state at the start of the window (or the first scan inside it) against the latest scan before its end.
+function versionsAcross(listingId: string, since: string, until: string): [SnapshotVersion, SnapshotVersion] | undefined {
+  const versions = listSnapshotVersions(listingId).filter((entry) => entry.capturedAt < until);
+  if (versions.length < 2) return undefined;
+  const before = versions.filter((entry) => entry.capturedAt <= since);
+  const baseline = before[before.length - 1] ?? versions[0];
+  const latest = versions[versions.length - 1];
+  return baseline === latest ? undefined : [baseline, latest];
+}
+
+export function buildDigest(userId: string, email: string | undefined, period: DigestPeriod, now = Date.now(), since?: string): Digest {
+  const until = new Date(now).toISOString();
+  const from = since ?? new Date(now - PERIOD_MS[period]).toISOString();
+  const digest: Digest = { period, since: from, until, priceMovements: [], endedListings: [], newListings: [], scoreChanges: [], empty: true };
+
+  const watchlist = listWatchlist(userId);
+  for (const item of watchlist) {
+    if (item.ended && item.endedAt && item.endedAt >= from && item.endedAt < until) {
+      digest.endedListings.push({ listingId: item.listingId, title: item.title, url: item.url, endedAt: item.endedAt });
+    }
+    const pair = versionsAcross(item.listingId, from, until);
+    if (!pair) continue;
+    const [baseline, latest] = pair;
+    const before = baseline.response;
+    const after = latest.response;
+    const priceFrom = before.artworkOverview.price;
+    const priceTo = after.artworkOverview.price;
+    // Only prices in the same currency are comparable.
+    if (
+      priceFrom !== undefined &&
+      priceTo !== undefined &&
+      priceFrom !== priceTo &&
+      before.artworkOverview.currency === after.artworkOverview.currency
+    ) {
+      digest.priceMovements.push({
+        listingId: item.listingId,
+        title: item.title,
+        url: item.url,
+        from: priceFrom,
+        to: priceTo,
+        currency: after.artworkOverview.currency,
+        change: Math.round((priceTo - priceFrom) * 100) / 100,
+        changePercent: priceFrom ? Math.round(((priceTo - priceFrom) / priceFrom) * 1000) / 10 : 0,
+      });
+    }
+    if (before.snapshot.score !== after.snapshot.score) {
+      digest.scoreChanges.push({
+        listingId: item.listingId,
+        title: item.title,
+        url: item.url,
+        from: before.snapshot.score,
+        to: after.snapshot.score,
+        change: after.snapshot.score - before.snapshot.score,
+        statusFrom: before.snapshot.status,
+        statusTo: after.snapshot.status,
+      });
+    }
+  }
+
+  const followed = listFollowing(userId, email);
+  const watched = new Set(watchlist.map((item) => item.listingId));
+  if (followed.length) {
+    // Listings other users scanned stay private; only what the app discovered itself is shared.
+    digest.newListings = listFirstSnapshotVersions(from, until)
+      .filter((entry) => {
+        const { artistId, artistName } = entry.response.artworkOverview;
+        if (!entry.discovered || watched.has(entry.listingId)) return false;
+        return followed.some((artist) => artist === artistId || sameArtist(artist, artistName));
+      })
+      .sort((a, b) => b.response.snapshot.score - a.response.snapshot.score)
+      .slice(0, MAX_NEW_LISTINGS)
+      .map((entry) => ({
+        listingId: entry.listingId,
+        title: entry.response.artworkOverview.title,
+        url: entry.url,
+        artistName: entry.response.artworkOverview.artistName,
+        price: entry.response.artworkOverview.price,
+        currency: entry.response.artworkOverview.currency,
+        score: entry.response.snapshot.score,
+        status: entry.response.snapshot.status,
+        firstSeenAt: entry.capturedAt,
+      }));
+  }
+
+  // Biggest moves first.
+  digest.priceMovements.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
+  digest.scoreChanges.sort((a, b) => a.change - b.change);
+  digest.empty = !(digest.priceMovements.length || digest.endedListings.length || digest.newListings.length || digest.scoreChanges.length);
+  return digest;
+}
+
+// Keeps digests on the same time of day instead of drifting by however late each tick ran.
+function followingSendAt(entry: DigestScheduleEntry, now: number): string {
+  const period = PERIOD_MS[entry.frequency];
+  const due = Date.parse(entry.nextSendAt);
+  return new Date(due + (Math.floor((now - due) / period) + 1) * period).toISOString();
+}
+
+export function renderDigest(digest: Digest): RenderedDigest {
+  return { subject: renderDigestSubject(digest), text: renderDigestText(digest), html: renderDigestHtml(digest) };
+}
+
+// The preview covers the same window the next scheduled digest would.
+export function previewDigest(userId: string, email: string | undefined, period: DigestPeriod, now = Date.now()) {
+  const schedule = getDigestSchedule(userId);
+  const since = schedule?.frequency === period ? schedule.lastSentAt : undefined;
+  const digest = buildDigest(userId, email, period, now, since);
+  return { digest, ...renderDigest(digest), schedule };
+}
+
+// Digests go out by email to users who chose a frequency; an empty one is skipped and its period rolls into the next.
+export async function sendDueDigests(now = Date.now(), send = sendMail): Promise<{ sent: number; skipped: number; failed: number }> {
+  const summary = { sent: 0, skipped: 0, failed: 0 };
+  const config = smtpConfig();
+  for (const { userId, email, preferences } of listUserPreferences()) {
+    const frequency = preferences.digestFrequency;
+    if (!frequency || frequency === "off") continue;
+    let entry = getDigestSchedule(userId);
+    if (!entry || entry.frequency !== frequency) {
+      const lastSentAt = entry?.lastSentAt;
+      entry = {
+        userId,
+        frequency,
+        lastSentAt,
+        nextSendAt: new Date((lastSentAt ? Date.parse(lastSentAt) : now) + PERIOD_MS[frequency]).toISOString(),
+      };
+      saveDigestSchedule(entry);
+    }
+    if (Date.parse(entry.nextSendAt) > now || !config) continue;
+    if (quietHoursRemaining(preferences.notifications?.quietHours, now)) continue;
+
+    const digest = buildDigest(userId, email, frequency, now, entry.lastSentAt);
+    const nextSendAt = followingSendAt(entry, now);
+    if (digest.empty) {
+      saveDigestSchedule({ ...entry, nextSendAt, lastError: undefined });
+      summary.skipped += 1;
+      continue;
+    }
+    try {
+      await send(config, { to: emailAddress({ userId, email, preferences: preferences.notifications ?? {} }) ?? email, ...renderDigest(digest) });
+      saveDigestSchedule({ ...entry, nextSendAt, lastSentAt: digest.until, lastError: undefined });
+      summary.sent += 1;
+    } catch (error) {
+      saveDigestSchedule({
+        ...entry,
+        nextSendAt: new Date(now + DIGEST_RETRY_MS).toISOString(),
+        lastError: (error as Error)?.message || "Digest could not be sent.",
+      });
+      summary.failed += 1;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,132 @@
+import { currencySymbol } from "@/lib/shared/currency";
+import type { Digest } from "./digest";
+import { escapeHtml } from "./notifier";
+
+// The app's dossier palette and type, inlined because email clients ignore stylesheets.
+const PAPER = "#F4F1EA";
+const CARD = "#ffffff";
+const LINE = "#e4ddd3";
+const INK = "#1a1a1a";
+const MUTED = "#5e5b57";
+const ACCENT = "#ec5b13";
+const OK = "#16a34a";
+const DANGER = "#d41111";
+const STENCIL = `"Stardos Stencil", Georgia, "Times New Roman", serif`;
+const TYPEWRITER = `"Courier Prime", "Courier New", Courier, monospace`;
+
+function money(amount: number | undefined, currency: string): string {
+  return typeof amount === "number" ? `${currencySymbol(currency)}${amount.toLocaleString("en-US")}` : "no price";
+}
+
+function signed(value: number, suffix = ""): string {
+  return `${value > 0 ? "+" : ""}${value}${suffix}`;
+}
+
+function day(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+function periodLabel(digest: Digest): string {
+  return digest.period === "daily" ? "Daily dossier" : "Weekly dossier";
+}
+
+export function renderDigestSubject(digest: Digest): string {
+  const counts = [
+    digest.priceMovements.length ? `${digest.priceMovements.length} price move${digest.priceMovements.length === 1 ? "" : "s"}` : undefined,
+    digest.endedListings.length ? `${digest.endedListings.length} ended` : undefined,
+    digest.newListings.length ? `${digest.newListings.length} new` : undefined,
+    digest.scoreChanges.length ? `${digest.scoreChanges.length} score change${digest.scoreChanges.length === 1 ? "" : "s"}` : undefined,
+  ].filter(Boolean);
+  return `Art Detective ${periodLabel(digest).toLowerCase()}: ${counts.length ? counts.join(", ") : "nothing new"}`;
+}
+
+type Section = { title: string; lines: Array<{ text: string; html: string }> };
+
+function sections(digest: Digest): Section[] {
+  const link = (title: string, url: string) => `<a href="${escapeHtml(url)}" style="color:${INK};">${escapeHtml(title)}</a>`;
+  return [
+    {
+      title: "Price movements",
+      lines: digest.priceMovements.map((entry) => {
+        const change = `${money(entry.from, entry.currency)} → ${money(entry.to, entry.currency)} (${signed(entry.changePercent, "%")})`;
+        // Drops are good news for a buyer.
+        const color = entry.change < 0 ? OK : DANGER;
+        return {
+          text: `${entry.title}: ${change}\n  ${entry.url}`,
+          html: `${link(entry.title, entry.url)}<br><span style="color:${color};">${escapeHtml(change)}</span>`,
+        };
+      }),
+    },
+    {
+      title: "Listings that ended",
+      lines: digest.endedListings.map((entry) => ({
+        text: `${entry.title}: ended ${day(entry.endedAt)}\n  ${entry.url}`,
+        html: `${link(entry.title, entry.url)}<br><span style="color:${MUTED};">Ended ${escapeHtml(day(entry.endedAt))}</span>`,
+      })),
+    },
+    {
+      title: "New from artists you follow",
+      lines: digest.newListings.map((entry) => {
+        const detail = `${entry.artistName} · ${money(entry.price, entry.currency)} · confidence ${entry.score} (${entry.status})`;
+        return {
+          text: `${entry.title}: ${detail}\n  ${entry.url}`,
+          html: `${link(entry.title, entry.url)}<br><span style="color:${MUTED};">${escapeHtml(detail)}</span>`,
+        };
+      }),
+    },
+    {
+      title: "Score changes",
+      lines: digest.scoreChanges.map((entry) => {
+        const change = `${entry.from} → ${entry.to} (${signed(entry.change)})${entry.statusFrom !== entry.statusTo ? `, now ${entry.statusTo}` : ""}`;
+        const color = entry.change < 0 ? DANGER : OK;
+        return {
+          text: `${entry.title}: confidence ${change}\n  ${entry.url}`,
+          html: `${link(entry.title, entry.url)}<br><span style="color:${color};">Confidence ${escapeHtml(change)}</span>`,
+        };
+      }),
+    },
+  ].filter((section) => section.lines.length);
+}
+
+export function renderDigestText(digest: Digest): string {
+  const heading = `ART DETECTIVE — ${periodLabel(digest).toUpperCase()}`;
+  const lines = [heading, `${day(digest.since)} to ${day(digest.until)}`, ""];
+  if (digest.empty) lines.push("Nothing moved on your watchlist or followed artists in this period.");
+  for (const section of sections(digest)) {
+    lines.push(section.title.toUpperCase(), "-".repeat(section.title.length));
+    for (const line of section.lines) lines.push(`* ${line.text}`);
+    lines.push("");
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+export function renderDigestHtml(digest: Digest): string {
+  const body = digest.empty
+    ? `<p style="margin:0;color:${MUTED};">Nothing moved on your watchlist or followed artists in this period.</p>`
+    : sections(digest)
+        .map(
+          (section) => `
+      <h2 style="margin:24px 0 8px;font-family:${STENCIL};font-size:20px;font-weight:normal;color:${INK};">${escapeHtml(section.title)}</h2>
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">
+        ${section.lines
+          .map(
+            (line) =>
+              `<tr><td style="padding:10px 12px;background:${CARD};border:1px solid ${LINE};border-left:3px solid ${ACCENT};font-size:14px;line-height:1.5;">${line.html}</td></tr><tr><td style="height:6px;"></td></tr>`
+          )
+          .join("\n        ")}
+      </table>`
+        )
+        .join("");
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:0;background:${PAPER};">
+    <div style="max-width:600px;margin:0 auto;padding:24px 16px;font-family:${TYPEWRITER};color:${INK};">
+      <div style="display:inline-block;padding:10px 24px;background:linear-gradient(180deg,#f8f2e8 0%,#ede0ce 100%);font-family:${STENCIL};font-size:24px;">${escapeHtml(periodLabel(digest))}</div>
+      <p style="margin:12px 0 0;color:${MUTED};font-size:13px;">${escapeHtml(day(digest.since))} to ${escapeHtml(day(digest.until))}</p>
+      ${body}
+      <p style="margin:32px 0 0;padding-top:12px;border-top:1px solid ${LINE};color:${MUTED};font-size:12px;">Art Detective · change or stop this digest in your notification settings.</p>
+    </div>
+  </body>
+</html>
+`;
+}
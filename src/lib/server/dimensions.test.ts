@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { formatMeasurement, measurementsMatch, parseMeasurements, primaryMeasurement } from "./dimensions";
+
+describe("parseMeasurements", () => {
+  it("reads cm, mm and inch sizes in both systems", () => {
+    const [cm] = parseMeasurements("Screenprint, 50 x 70 cm.");
+    expect(cm).toMatchObject({ cm: { width: 50, height: 70 }, in: { width: 19.7, height: 27.6 }, sourceUnit: "cm", variant: "unspecified" });
+    expect(parseMeasurements('Poster 24" x 36"')[0]).toMatchObject({ cm: { width: 61, height: 91.4 }, sourceUnit: "in" });
+    expect(parseMeasurements("Sheet 500 x 700 mm")[0]).toMatchObject({ cm: { width: 50, height: 70 }, variant: "sheet" });
+    expect(parseMeasurements("Figure 20cm x 10cm x 5,5cm")[0]).toMatchObject({ cm: { width: 20, height: 10, depth: 5.5 }, variant: "object" });
+  });
+
+  it("labels framed sizes and skips shipping boxes and unitless pairs", () => {
+    const measurements = parseMeasurements("Sheet 50 x 70 cm. Framed size 60 x 80 cm. Shipped in a box 70 x 90 cm. Pack of 3 x 4.");
+    expect(measurements.map((entry) => entry.variant)).toEqual(["sheet", "framed"]);
+    expect(primaryMeasurement(measurements)?.variant).toBe("sheet");
+    expect(primaryMeasurement(parseMeasurements("Framed 60 x 80 cm"))?.variant).toBe("framed");
+  });
+
+  it("formats and compares sizes regardless of orientation", () => {
+    const [measurement] = parseMeasurements("Framed 60 x 80 cm");
+    expect(formatMeasurement(measurement)).toBe("60 x 80 cm (framed)");
+    expect(formatMeasurement(measurement, "in")).toBe("23.6 x 31.5 in (framed)");
+    expect(measurementsMatch({ width: 50, height: 70 }, { width: 70.5, height: 49 })).toBe(true);
+    expect(measurementsMatch({ width: 50, height: 70 }, { width: 50, height: 76 })).toBe(false);
+  });
+});
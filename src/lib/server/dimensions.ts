@@ -0,0 +1,106 @@
+import { ArtworkMeasurement, MeasurementSize, MeasurementVariant } from "./types";
+
+const CM_PER_INCH = 2.54;
+const NUMBER = String.raw`(\d{1,4}(?:[.,]\d{1,2})?)`;
+const UNIT = String.raw`(cm|mm|inches|inch|in\.?(?![a-z]|\s+[a-z])|"|”|'')`;
+const SEPARATOR = String.raw`\s*(?:x|×|by)\s*`;
+// "50 x 70 cm", "24 x 36 in", '24" x 36"', "50cm x 70cm x 5cm".
+const MEASUREMENT = new RegExp(
+  String.raw`\b${NUMBER}\s*${UNIT}?${SEPARATOR}${NUMBER}\s*${UNIT}?(?:${SEPARATOR}${NUMBER}\s*${UNIT}?)?`,
+  "gi"
+);
+const CONTEXT_WINDOW = 60;
+const SHIPPING_CONTEXT = /\b(?:ship(?:ping|ped|s)?|post(?:age|ed)?|packag(?:e|ed|ing)|parcel|box(?:ed)?|carton|crate|tube|mailer|delivery|courier)\b/i;
+const VARIANT_CONTEXT: Array<[MeasurementVariant, RegExp]> = [
+  ["sheet", /\b(?:unframed|sheet|paper(?: size)?)\b/i],
+  ["framed", /\b(?:framed|frame size|with (?:the )?frame|in frame)\b/i],
+  ["image", /\b(?:image(?: size| area)?|print(?:ed)? area|plate(?: size)?)\b/i],
+  ["object", /\b(?:figure|sculpture|stands?|tall|height of)\b/i],
+];
+
+function toNumber(value: string): number {
+  return Number(value.replace(",", "."));
+}
+
+function normalizeUnit(value: string | undefined): ArtworkMeasurement["sourceUnit"] | undefined {
+  if (!value) return undefined;
+  const unit = value.toLowerCase();
+  if (unit === "cm") return "cm";
+  if (unit === "mm") return "mm";
+  return "in";
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function scale(size: MeasurementSize, factor: number): MeasurementSize {
+  return {
+    width: round(size.width * factor),
+    height: round(size.height * factor),
+    ...(typeof size.depth === "number" ? { depth: round(size.depth * factor) } : {}),
+  };
+}
+
+// Only the words just before a match and within the same sentence describe it.
+function readContext(text: string, start: number): string {
+  const before = text.slice(Math.max(0, start - CONTEXT_WINDOW), start);
+  const sentenceStart = Math.max(before.lastIndexOf("."), before.lastIndexOf("\n"), before.lastIndexOf(";"));
+  return sentenceStart >= 0 ? before.slice(sentenceStart + 1) : before;
+}
+
+function readVariant(context: string): MeasurementVariant {
+  for (const [variant, pattern] of VARIANT_CONTEXT) {
+    if (pattern.test(context)) return variant;
+  }
+  return "unspecified";
+}
+
+export function parseMeasurements(text: string): ArtworkMeasurement[] {
+  const measurements: ArtworkMeasurement[] = [];
+  for (const match of text.matchAll(MEASUREMENT)) {
+    const [raw, first, firstUnit, second, secondUnit, third, thirdUnit] = match;
+    // Without any unit "3 x 4" is just as likely a quantity or a grid.
+    const unit = normalizeUnit(thirdUnit ?? secondUnit ?? firstUnit);
+    if (!unit) continue;
+    const context = readContext(text, match.index ?? 0);
+    if (SHIPPING_CONTEXT.test(context)) continue;
+
+    const size: MeasurementSize = {
+      width: toNumber(first),
+      height: toNumber(second),
+      ...(third ? { depth: toNumber(third) } : {}),
+    };
+    if (!size.width || !size.height) continue;
+    const cm = unit === "in" ? scale(size, CM_PER_INCH) : unit === "mm" ? scale(size, 0.1) : scale(size, 1);
+    measurements.push({
+      variant: readVariant(context),
+      cm,
+      in: unit === "in" ? scale(size, 1) : scale(cm, 1 / CM_PER_INCH),
+      sourceUnit: unit,
+      raw: raw.trim(),
+    });
+  }
+  return measurements;
+}
+
+// Sheet or unlabelled sizes describe the work itself; framed sizes are a last resort.
+export function primaryMeasurement(measurements: ArtworkMeasurement[] | undefined): ArtworkMeasurement | undefined {
+  if (!measurements?.length) return undefined;
+  const order: MeasurementVariant[] = ["sheet", "unspecified", "image", "object", "framed"];
+  return [...measurements].sort((a, b) => order.indexOf(a.variant) - order.indexOf(b.variant))[0];
+}
+
+export function formatMeasurement(measurement: ArtworkMeasurement, unit: "cm" | "in" = "cm"): string {
+  const size = measurement[unit];
+  const parts = [size.width, size.height, ...(typeof size.depth === "number" ? [size.depth] : [])];
+  const label = measurement.variant === "unspecified" ? "" : ` (${measurement.variant})`;
+  return `${parts.join(" x ")} ${unit}${label}`;
+}
+
+// Orientation and small rounding differences between cm and inch listings are ignored.
+export function measurementsMatch(a: MeasurementSize, b: MeasurementSize, toleranceCm = 2): boolean {
+  const left = [a.width, a.height].sort((x, y) => x - y);
+  const right = [b.width, b.height].sort((x, y) => x - y);
+  return left.every((value, index) => Math.abs(value - right[index]) <= Math.max(toleranceCm, value * 0.03));
+}
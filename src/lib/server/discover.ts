@@ -1,12 +1,8 @@
 import { DISCOVER_MOCK_ITEMS, type DiscoverItem } from "@/lib/shared/discoverMock";
+import { sameArtist } from "@/lib/shared/artists";
 
 export async function discoverForArtists(artists: string[]): Promise<DiscoverItem[]> {
   if (!artists.length) return [];
-  const followed = artists.map((a) => a.trim().toLowerCase()).filter(Boolean);
-  return DISCOVER_MOCK_ITEMS.filter((item) =>
-    followed.some((artist) => {
-      const candidate = item.artist.toLowerCase();
-      return candidate.includes(artist) || artist.includes(candidate);
-    })
-  );
+  const followed = artists.map((a) => a.trim()).filter(Boolean);
+  return DISCOVER_MOCK_ITEMS.filter((item) => followed.some((artist) => sameArtist(item.artist, artist)));
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { analyzeEdition, describeEdition } from "./edition";
+import { EvidenceSource } from "./evidence";
+
+const analyze = (title: string, description = "") =>
+  analyzeEdition([
+    { kind: "title", text: title },
+    { kind: "description", text: description },
+  ] satisfies EvidenceSource[]);
+
+describe("analyzeEdition", () => {
+  it("reads numbered editions, proofs and stated sizes", () => {
+    expect(analyze("Banksy Girl with Balloon 23/150 screenprint").edition).toMatchObject({ number: 23, size: 150, variant: "standard" });
+    expect(analyze("Stik Big Mother AP 5/25").edition).toMatchObject({ number: 5, size: 25, variant: "AP" });
+    expect(analyze("Hirst spot print", "Numbered 12 of 250 in pencil.").edition).toMatchObject({ number: 12, size: 250 });
+    expect(analyze("KAWS Companion", "Limited edition of 500 pieces.").edition).toMatchObject({ size: 500 });
+    expect(describeEdition(analyze("Murakami Flower open edition offset print").edition)).toBe("Open edition");
+    expect(describeEdition(analyze("Haring lithograph H.C. copy").edition)).toBe("HC");
+  });
+
+  it("does not read dates, dimensions or ratios as numbering", () => {
+    expect(analyze("Print dated 12/2023").edition).toBeUndefined();
+    expect(analyze("Poster 24/36 in").edition).toBeUndefined();
+    expect(analyze("Portrait in 3/4 view").edition).toBeUndefined();
+    expect(analyze("Edition no. 3/2020").edition).toMatchObject({ number: 3, size: 2020 });
+  });
+
+  it("reports numbering that contradicts itself", () => {
+    expect(analyze("Print 151/150").contradictions).toEqual(["Edition number 151/150 exceeds the edition size."]);
+    expect(analyze("Banksy 23/150", "This is number 32/150.").contradictions).toEqual([
+      "Edition numbering in the title differs from the description.",
+    ]);
+    expect(analyze("Unique 1/1 screenprint", "From an edition of 50.").contradictions).toContain(
+      "Listed as 1/1 but described as a multiple or larger edition."
+    );
+    expect(analyze("Open edition print 12/100").contradictions).toContain("Listing claims an open edition but also quotes a numbered edition.");
+    expect(analyze("Stik 23/150", "Numbered 23/150, edition of 150.").contradictions).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { EvidenceSource } from "./evidence";
+import { EditionInfo, EditionVariant, EvidenceExcerpt, SnapshotBucketCheck } from "./types";
+
+export type EditionMention = EditionInfo & {
+  source: EvidenceSource["kind"];
+  start: number;
+  end: number;
+};
+
+export type EditionAnalysis = {
+  edition?: EditionInfo;
+  mentions: EditionMention[];
+  contradictions: string[];
+};
+
+const VARIANT_PATTERNS: Array<[EditionVariant, RegExp]> = [
+  ["AP", /\b(?:a\.?\s?p\.?|artist'?s? proofs?)(?=[\s\d#:/,.]|$)/i],
+  ["PP", /\b(?:p\.?\s?p\.?|printer'?s? proofs?)(?=[\s\d#:/,.]|$)/i],
+  ["HC", /\b(?:h\.?\s?c\.?|hors[- ]commerce)(?=[\s\d#:/,.]|$)/i],
+  ["EA", /\b(?:e\.?\s?a\.?|[ée]preuve d'artiste)(?=[\s\d#:/,.]|$)/i],
+];
+const NUMBERED_CONTEXT = /\b(?:no\.?|nr\.?|number(?:ed)?|edition|ed\.?|#)\s*$/i;
+const FRACTION = /(?:#\s*)?\b(\d{1,4})\s?(?:\/|\bof\b)\s?(\d{1,4})\b(?!\s*(?:in\.?(?!\s*[a-z])|inch|cm\b|mm\b|"|”))/gi;
+const EDITION_SIZE = /\b(?:(?:limited\s+)?edition|ed\.?|run)\s+(?:size\s+)?(?:of\s+)?(\d{1,5})\b|\b(\d{1,5})\s+(?:pieces|copies|prints|impressions)\b|\blimited to\s+(\d{1,5})\b/gi;
+const OPEN_EDITION = /\bopen edition\b/i;
+const UNIQUE = /\b(?:unique|one[- ]of[- ]a[- ]kind|one[- ]off)\b/i;
+const MULTIPLE = /\b(?:multiple|from an edition of|open edition|screen ?prints?|lithographs?|gicl[eé]es?|vinyl figures?|posters?)\b/i;
+
+function readVariant(prefix: string): EditionVariant | undefined {
+  const near = prefix.slice(-24);
+  for (const [variant, pattern] of VARIANT_PATTERNS) {
+    if (pattern.test(near)) return variant;
+  }
+  return undefined;
+}
+
+// "12/2023" and "3/4 view" look like editions; keep fractions that read as numbering.
+function isPlausibleFraction(number: number, size: number, prefix: string): boolean {
+  if (number < 1 || size < 1) return false;
+  const hasContext = NUMBERED_CONTEXT.test(prefix) || Boolean(readVariant(prefix));
+  const looksLikeDate = size >= 1900 && size <= 2100 && number <= 12;
+  if (looksLikeDate && !hasContext) return false;
+  if (hasContext) return true;
+  return size >= 5 || (number === 1 && size === 1);
+}
+
+function findMentions(source: EvidenceSource): EditionMention[] {
+  const { text, kind } = source;
+  const mentions: EditionMention[] = [];
+
+  for (const match of text.matchAll(FRACTION)) {
+    const start = match.index ?? 0;
+    const number = Number(match[1]);
+    const size = Number(match[2]);
+    const prefix = text.slice(Math.max(0, start - 32), start);
+    if (!isPlausibleFraction(number, size, prefix)) continue;
+    const variant = readVariant(prefix) ?? "standard";
+    mentions.push({ source: kind, start, end: start + match[0].length, raw: match[0].trim(), number, size, variant });
+  }
+
+  for (const match of text.matchAll(EDITION_SIZE)) {
+    const start = match.index ?? 0;
+    const size = Number(match[1] ?? match[2] ?? match[3]);
+    if (!size) continue;
+    if (mentions.some((mention) => mention.source === kind && start <= mention.end && mention.start <= start + match[0].length)) continue;
+    mentions.push({ source: kind, start, end: start + match[0].length, raw: match[0].trim(), size, variant: "standard" });
+  }
+
+  for (const [variant, pattern] of VARIANT_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const start = match.index;
+    if (mentions.some((mention) => mention.source === kind && mention.variant === variant)) continue;
+    mentions.push({ source: kind, start, end: start + match[0].length, raw: match[0].trim(), variant });
+  }
+
+  const open = OPEN_EDITION.exec(text);
+  if (open) {
+    mentions.push({ source: kind, start: open.index, end: open.index + open[0].length, raw: open[0], variant: "standard", openEdition: true });
+  }
+
+  return mentions;
+}
+
+function formatEdition(edition: EditionInfo): string {
+  const prefix = edition.variant && edition.variant !== "standard" ? `${edition.variant} ` : "";
+  if (edition.openEdition) return "Open edition";
+  if (typeof edition.number === "number" && typeof edition.size === "number") return `${prefix}${edition.number}/${edition.size}`;
+  if (typeof edition.size === "number") return `${prefix}Edition of ${edition.size}`;
+  return prefix.trim() || edition.raw;
+}
+
+export function describeEdition(edition?: EditionInfo): string {
+  return edition ? formatEdition(edition) : "Not provided";
+}
+
+function sameNumbering(a: EditionMention, b: EditionMention): boolean {
+  return a.number === b.number && a.size === b.size && a.variant === b.variant;
+}
+
+export function analyzeEdition(sources: EvidenceSource[]): EditionAnalysis {
+  const mentions = sources.flatMap(findMentions);
+  const contradictions: string[] = [];
+  const numbered = mentions.filter((mention) => typeof mention.number === "number" && typeof mention.size === "number");
+  const sizes = mentions.filter((mention) => typeof mention.size === "number" && mention.variant === "standard");
+  const allText = sources.map((source) => source.text).join("\n");
+
+  for (const mention of numbered) {
+    if ((mention.number ?? 0) > (mention.size ?? 0)) {
+      contradictions.push(`Edition number ${mention.raw} exceeds the edition size.`);
+    }
+  }
+
+  const unique = numbered.find((mention) => mention.number === 1 && mention.size === 1);
+  const largestSize = Math.max(0, ...sizes.map((mention) => mention.size ?? 0));
+  if (unique && (largestSize > 1 || (MULTIPLE.test(allText) && !UNIQUE.test(allText)))) {
+    contradictions.push("Listed as 1/1 but described as a multiple or larger edition.");
+  }
+
+  const titleNumbering = numbered.filter((mention) => mention.source === "title");
+  const bodyNumbering = numbered.filter((mention) => mention.source !== "title");
+  if (titleNumbering.length && bodyNumbering.length) {
+    const mismatch = titleNumbering.some((title) => !bodyNumbering.some((body) => sameNumbering(title, body)));
+    if (mismatch) contradictions.push("Edition numbering in the title differs from the description.");
+  }
+
+  const standardSizes = new Set(
+    sizes.filter((mention) => !mention.openEdition && mention !== unique).map((mention) => mention.size)
+  );
+  if (standardSizes.size > 1) {
+    contradictions.push(`Listing quotes more than one edition size (${[...standardSizes].join(", ")}).`);
+  }
+  if (mentions.some((mention) => mention.openEdition) && numbered.some((mention) => mention.variant === "standard")) {
+    contradictions.push("Listing claims an open edition but also quotes a numbered edition.");
+  }
+
+  // Prefer a fully numbered mention, then a stated edition size, then a proof variant.
+  const primary =
+    numbered.find((mention) => mention.source === "title") ??
+    numbered[0] ??
+    mentions.find((mention) => mention.openEdition) ??
+    sizes[0] ??
+    mentions[0];
+  const edition: EditionInfo | undefined = primary
+    ? {
+        raw: primary.raw,
+        number: primary.number,
+        size: primary.size ?? (primary.number === undefined ? undefined : sizes[0]?.size),
+        variant: primary.variant,
+        openEdition: primary.openEdition,
+      }
+    : undefined;
+
+  return { edition, mentions, contradictions };
+}
+
+function toExcerpt(mention: EditionMention, sources: EvidenceSource[]): EvidenceExcerpt {
+  const text = sources.find((source) => source.kind === mention.source)?.text ?? "";
+  const from = Math.max(0, mention.start - 40);
+  return {
+    source: mention.source,
+    text: text.slice(from, Math.min(text.length, mention.end + 40)).trim(),
+    match: mention.raw,
+    start: mention.start,
+    end: mention.end,
+    polarity: "affirmed",
+  };
+}
+
+// Structured numbering overrides the keyword check; without any numbering the keyword verdict stands.
+export function editionToCheck(analysis: EditionAnalysis, keywordCheck: SnapshotBucketCheck, sources: EvidenceSource[]): SnapshotBucketCheck {
+  const evidence = analysis.mentions.slice(0, 3).map((mention) => toExcerpt(mention, sources));
+  if (analysis.contradictions.length) {
+    return { label: keywordCheck.label, value: "Needs review", detail: analysis.contradictions.join(" "), evidence };
+  }
+  if (!analysis.edition || keywordCheck.value === "Red flag") return keywordCheck;
+  return {
+    label: keywordCheck.label,
+    value: "Good",
+    detail: `Edition parsed as ${formatEdition(analysis.edition)} and consistent across the listing.`,
+    evidence,
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { buildEvidenceSources, EVIDENCE_RULES, evidenceToCheck, findEvidence, RED_FLAG_RULES, toEvidenceExcerpts } from "./evidence";
+import { extractListing } from "./extractors";
+
+const verdict = (text: string, rule: (typeof RED_FLAG_RULES)[keyof typeof RED_FLAG_RULES]) =>
+  findEvidence([{ kind: "description", text }], rule).verdict;
+
+describe("RED_FLAG_RULES.attributionHedging", () => {
+  it.each(["After Banksy, screenprint on paper", "Girl with Balloon after banksy", "AFTER KAWS companion figure", "After Mr. Brainwash", "In the style of Keith Haring"])(
+    "flags %s",
+    (text) => expect(verdict(text, RED_FLAG_RULES.attributionHedging)).toBe("affirmed")
+  );
+
+  it.each(["Ships After Payment", "Available After March", "Dispatched after payment clears", "Collect After Work Hours"])(
+    "leaves %s alone",
+    (text) => expect(verdict(text, RED_FLAG_RULES.attributionHedging)).toBe("absent")
+  );
+});
+
+describe("RED_FLAG_RULES.unofficialMerch", () => {
+  it("no longer treats a bare tribute as fan-made", () => {
+    expect(verdict("Tribute edition released for the 2019 show", RED_FLAG_RULES.unofficialMerch)).toBe("absent");
+  });
+
+  it("still flags homages and fan art", () => {
+    expect(verdict("Homage to Banksy, fan art print", RED_FLAG_RULES.unofficialMerch)).toBe("affirmed");
+  });
+});
+
+describe("negation scoping", () => {
+  const rule = (name: keyof typeof EVIDENCE_RULES) => EVIDENCE_RULES[name];
+  const polarity = (text: string, name: keyof typeof EVIDENCE_RULES) => findEvidence([{ kind: "description", text }], rule(name)).verdict;
+
+  it.each([
+    ["No COA.", "coa"],
+    ["Comes with no original signed COA", "coa"],
+    ["No returns.", "returnPolicy"],
+    ["Print is not signed", "signature"],
+    ["Unsigned lithograph", "signature"],
+    ["Returns: none", "returnPolicy"],
+  ] as const)("reads %s as a denial", (text, name) => expect(polarity(text, name)).toBe("negated"));
+
+  it.each([
+    ["No questions asked returns within 30 days", "returnPolicy"],
+    ["No quibble returns accepted", "returnPolicy"],
+    ["No reserve. Hand signed in pencil", "signature"],
+    ["No returns, but signed by the artist", "signature"],
+    ["No fading at all, numbered 12/250", "edition"],
+  ] as const)("does not let the negation in %s reach the term", (text, name) => expect(polarity(text, name)).toBe("affirmed"));
+
+  it("keeps hedges that contain a negation word hedged", () => {
+    expect(polarity("Not sure if it is signed", "signature")).toBe("hedged");
+  });
+});
+
+describe("evidenceToCheck", () => {
+  const details = { good: "good", missing: "missing", negated: "negated", hedged: "hedged", mixed: "mixed" };
+  const check = (...texts: string[]) =>
+    evidenceToCheck("Signature evidence", findEvidence(texts.map((text) => ({ kind: "description" as const, text })), EVIDENCE_RULES.signature), details);
+
+  it("treats a plain statement of absence as missing evidence, not a red flag", () => {
+    expect(check("Unsigned print from the open edition.")).toMatchObject({ value: "Missing evidence", detail: "negated" });
+    const returns = evidenceToCheck("Return policy", findEvidence([{ kind: "description", text: "No returns." }], EVIDENCE_RULES.returnPolicy), details);
+    expect(returns.value).toBe("Missing evidence");
+  });
+
+  it("raises a red flag when the listing claims and denies the same thing", () => {
+    expect(check("Hand signed by the artist.", "Please note the print is not signed.")).toMatchObject({ value: "Red flag", detail: "mixed" });
+  });
+
+  it("does not let the rest of the page contradict the seller", () => {
+    const result = findEvidence(
+      [
+        { kind: "description", text: "Hand signed by the artist." },
+        { kind: "page", text: "Similar items: Unsigned poster, open edition. Hand signed by the artist." },
+      ],
+      EVIDENCE_RULES.signature
+    );
+    expect(result.verdict).toBe("affirmed");
+    expect(evidenceToCheck("Signature evidence", result, details).value).toBe("Good");
+  });
+
+  it("reads the page on its own only when the seller is silent, and never as a contradiction", () => {
+    const onlyPage = (text: string) => findEvidence([{ kind: "title", text: "Banksy print" }, { kind: "page", text }], EVIDENCE_RULES.signature).verdict;
+    expect(onlyPage("Hand signed in pencil.")).toBe("affirmed");
+    expect(onlyPage("Signed print. You may also like: unsigned poster.")).toBe("hedged");
+  });
+
+  it("passes affirmed evidence and asks for review on hedges", () => {
+    expect(check("Hand signed in pencil.").value).toBe("Good");
+    expect(check("Signature may be a later addition.").value).toBe("Needs review");
+    expect(check("Limited run of 100.").value).toBe("Missing evidence");
+  });
+});
+
+describe("buildEvidenceSources", () => {
+  const raw = `<html><head><title>Banksy Flower Thrower</title>
+<meta property="og:description" content="Signed print with COA.">
+<meta name="description" content="Signed print with COA.">
+<script type="application/ld+json">{"@type":"Product","@id":"https://example.com/#product","name":"Banksy Flower Thrower","image":"https://example.com/a.jpg","description":"Signed print with COA."}</script>
+</head><body><p>Signed in pencil.</p></body></html>`;
+
+  it("keeps each source's text apart and leaves out empty ones", () => {
+    const listing = extractListing({ url: "https://example.com/print", raw, listingId: "listing_1", fetchedAt: "2026-03-01T00:00:00.000Z" });
+    const sources = buildEvidenceSources({ ...listing, description: undefined }, raw);
+    expect(sources.map((source) => source.kind)).toEqual(["title", "jsonLd", "meta", "page"]);
+    expect(sources.find((source) => source.kind === "jsonLd")?.text).toBe("Banksy Flower Thrower\nSigned print with COA.");
+    expect(sources.find((source) => source.kind === "meta")?.text).toBe("Signed print with COA.");
+  });
+});
+
+describe("toEvidenceExcerpts", () => {
+  it("points each excerpt at the matched words in its source", () => {
+    const source = { kind: "description" as const, text: "Comes framed. Hand signed in pencil by the artist." };
+    const [excerpt] = toEvidenceExcerpts(findEvidence([source], EVIDENCE_RULES.signature));
+    expect(excerpt).toMatchObject({ source: "description", text: "Hand signed in pencil by the artist", polarity: "affirmed" });
+    expect(source.text.slice(excerpt.start, excerpt.end)).toBe(excerpt.match);
+  });
+
+  it("trims long clauses around the match", () => {
+    const text = `${"Lovely condition ".repeat(20)}signed ${"and framed ".repeat(20)}`;
+    const [excerpt] = toEvidenceExcerpts(findEvidence([{ kind: "description", text }], EVIDENCE_RULES.signature));
+    expect(excerpt.text.length).toBe(160);
+    expect(excerpt.text).toContain("signed");
+  });
+
+  it("drops repeated wording and keeps at most three excerpts", () => {
+    const result = findEvidence(
+      [
+        { kind: "title", text: "Signed print" },
+        { kind: "meta", text: "Signed print" },
+        { kind: "description", text: "Signed front. Signed back. Signed frame. Signed COA." },
+      ],
+      EVIDENCE_RULES.signature
+    );
+    expect(toEvidenceExcerpts(result).map((excerpt) => `${excerpt.source}:${excerpt.text}`)).toEqual([
+      "title:Signed print",
+      "description:Signed front",
+      "description:Signed back",
+    ]);
+  });
+});
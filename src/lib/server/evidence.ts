@@ -0,0 +1,322 @@
+import { CANONICAL_ARTISTS } from "@/lib/shared/artists";
+import { escapeRegExp, extractJsonLdObjects, extractMetaContent, stripTags } from "./extractors/shared";
+import { EvidenceExcerpt, EvidenceSourceKind, ListingRecord, SnapshotBucketCheck } from "./types";
+
+export type EvidencePolarity = EvidenceExcerpt["polarity"];
+export type EvidenceVerdict = EvidencePolarity | "mixed" | "absent";
+
+export type EvidenceRule = {
+  // Keywords that count as evidence when stated positively.
+  terms: RegExp;
+  // Words that already carry their own negation, e.g. "unsigned".
+  negatedTerms?: RegExp;
+  // Phrases that contain a term but are unrelated, e.g. "signed in".
+  exclude?: RegExp;
+};
+
+export type EvidenceSource = {
+  kind: EvidenceSourceKind;
+  text: string;
+};
+
+export type EvidenceHit = {
+  source: EvidenceSourceKind;
+  term: string;
+  polarity: EvidencePolarity;
+  clause: string;
+  clauseStart: number;
+  index: number;
+};
+
+export type EvidenceResult = {
+  verdict: EvidenceVerdict;
+  hits: EvidenceHit[];
+};
+
+const NEGATION_BEFORE =
+  /\b(not|non|without|never|none|lacks?|lacking|missing|absent|isn'?t|doesn'?t|don'?t|didn'?t|won'?t|cannot|can'?t|nor)\b/i;
+const NEGATION_AFTER =
+  /^\s*(?:[:\-–]\s*|(?:is|are|was|were)\s+)?(?:none\b|n\/a\b|no\b(?!\s+[a-z])|not\s+(?:included|provided|available|present|supplied|offered|accepted|guaranteed)\b|missing\b|unavailable\b|lost\b)/i;
+// A bare "no" only governs the next couple of words ("no original signed COA"), and idioms like "no questions asked" deny nothing.
+const NEGATION_DETERMINER = /\bno(?:\s+[\w'-]+){0,2}$/i;
+const NON_NEGATING_NO = /\bno[- ](?:questions asked|quibbles?|problems?|worries|hassle|fuss|matter|doubt)\b/gi;
+// Hedges that contain a negation word must win over the plain negation check.
+const NEGATED_HEDGE_CUES = /\b(not sure|unsure|not certain|cannot confirm|can'?t confirm|cannot guarantee|can'?t guarantee)\b/i;
+const HEDGE_CUES =
+  /\b(on request|upon request|if available|may be|might be|may have|might have|possibly|probably|presumably|believed|believe|thought to|appears to|seems to|looks like|unverified|unknown|unconfirmed|ask|enquire|inquire)\b/i;
+const CLAUSE_BREAK = /[.!?;\n]|\b(?:but|however|although|though|except|whereas)\b/gi;
+const NEGATION_WINDOW_WORDS = 4;
+
+function clauseBounds(text: string, index: number, length: number): { start: number; end: number } {
+  let start = 0;
+  let end = text.length;
+  for (const match of text.matchAll(CLAUSE_BREAK)) {
+    const at = match.index ?? 0;
+    if (at + match[0].length <= index) start = at + match[0].length;
+    else if (at >= index + length) {
+      end = at;
+      break;
+    }
+  }
+  return { start, end };
+}
+
+// Negation cues only reach back a few words and never across a comma, so "No returns, signed" stays signed.
+function negationWindow(value: string): string {
+  const scoped = value.split(/[,(]/).pop() ?? "";
+  return scoped.trim().split(/\s+/).slice(-NEGATION_WINDOW_WORDS).join(" ");
+}
+
+function classifyHit(source: EvidenceSource, text: string, index: number, term: string): EvidenceHit {
+  const { start, end } = clauseBounds(text, index, term.length);
+  const leading = text.slice(start, end).search(/\S/);
+  const clauseStart = start + Math.max(0, leading);
+  const clause = text.slice(clauseStart, end).trimEnd();
+  const originalClause = source.text.slice(clauseStart, end).trimEnd();
+  const before = negationWindow(text.slice(start, index));
+  const after = text.slice(index + term.length, end);
+
+  let polarity: EvidencePolarity = "affirmed";
+  if (NEGATED_HEDGE_CUES.test(clause)) polarity = "hedged";
+  else if (NEGATION_BEFORE.test(before) || NEGATION_DETERMINER.test(before.replace(NON_NEGATING_NO, "").trim()) || NEGATION_AFTER.test(after))
+    polarity = "negated";
+  else if (HEDGE_CUES.test(clause) || text[end] === "?") polarity = "hedged";
+
+  return { source: source.kind, term, polarity, clause: originalClause, clauseStart, index };
+}
+
+// Matching runs on text with excluded phrases blanked out; excerpts still quote the original source.
+function collectHits(
+  source: EvidenceSource,
+  text: string,
+  pattern: RegExp,
+  polarity?: EvidencePolarity
+): EvidenceHit[] {
+  const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+  const hits: EvidenceHit[] = [];
+  for (const match of text.matchAll(new RegExp(pattern.source, flags))) {
+    const index = match.index ?? 0;
+    const hit = classifyHit(source, text, index, match[0]);
+    hits.push(polarity ? { ...hit, polarity } : hit);
+  }
+  return hits;
+}
+
+function maskExcluded(text: string, exclude?: RegExp): string {
+  if (!exclude) return text;
+  const flags = exclude.flags.includes("g") ? exclude.flags : `${exclude.flags}g`;
+  // Keep offsets stable by blanking the excluded phrase rather than removing it.
+  return text.replace(new RegExp(exclude.source, flags), (value) => " ".repeat(value.length));
+}
+
+function isSellerAuthored(kind: EvidenceSourceKind): boolean {
+  return kind !== "page";
+}
+
+// Only the seller's own words can contradict each other. Page text (carousels, boilerplate, other sellers' blurbs)
+// backs up what the seller wrote and is read on its own only when the seller said nothing either way.
+function summarize(hits: EvidenceHit[]): EvidenceVerdict {
+  if (!hits.length) return "absent";
+  const sellerHits = hits.filter((hit) => isSellerAuthored(hit.source));
+  const considered = sellerHits.length ? sellerHits : hits;
+  const affirmed = considered.some((hit) => hit.polarity === "affirmed");
+  const negated = considered.some((hit) => hit.polarity === "negated");
+  if (affirmed && negated) return sellerHits.length ? "mixed" : "hedged";
+  if (negated) return "negated";
+  if (affirmed) return "affirmed";
+  return "hedged";
+}
+
+// A negation scopes over its whole clause, so a label like "Returns: no returns accepted" reads as negated.
+function applyClauseNegation(hits: EvidenceHit[]): EvidenceHit[] {
+  const clauseKey = (hit: EvidenceHit) => `${hit.source}:${hit.clauseStart}`;
+  const negatedClauses = new Set(hits.filter((hit) => hit.polarity === "negated").map(clauseKey));
+  return hits.map((hit) => (negatedClauses.has(clauseKey(hit)) ? { ...hit, polarity: "negated" } : hit));
+}
+
+export function findEvidence(sources: EvidenceSource[], rule: EvidenceRule): EvidenceResult {
+  const hits = sources.flatMap((source) => {
+    const searchable = maskExcluded(source.text, rule.exclude);
+    return applyClauseNegation(
+      [
+        ...collectHits(source, searchable, rule.terms),
+        ...(rule.negatedTerms ? collectHits(source, searchable, rule.negatedTerms, "negated") : []),
+      ].sort((a, b) => a.index - b.index)
+    );
+  });
+  return { verdict: summarize(hits), hits };
+}
+
+function collectJsonLdText(value: unknown, into: string[]): void {
+  if (typeof value === "string") {
+    if (!/^https?:\/\//i.test(value)) into.push(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const entry of value) collectJsonLdText(entry, into);
+    return;
+  }
+  if (value && typeof value === "object") {
+    for (const [key, entry] of Object.entries(value)) {
+      if (!key.startsWith("@")) collectJsonLdText(entry, into);
+    }
+  }
+}
+
+// Each source keeps its own text so excerpt offsets point back into exactly what the seller published there.
+export function buildEvidenceSources(listing: ListingRecord, raw: string): EvidenceSource[] {
+  const jsonLdText: string[] = [];
+  for (const object of extractJsonLdObjects(raw)) collectJsonLdText(object, jsonLdText);
+  const metaText = ["og:title", "og:description", "description", "twitter:description"]
+    .map((key) => extractMetaContent(raw, key))
+    .filter((value): value is string => Boolean(value));
+  const sources: EvidenceSource[] = [
+    { kind: "title", text: listing.artwork.title ?? "" },
+    { kind: "description", text: listing.description ?? "" },
+    { kind: "jsonLd", text: jsonLdText.join("\n") },
+    { kind: "meta", text: [...new Set(metaText)].join("\n") },
+    { kind: "page", text: stripTags(raw) },
+  ];
+  return sources.filter((source) => source.text.trim());
+}
+
+const EXCERPT_MAX_LENGTH = 160;
+const EXCERPTS_PER_CHECK = 3;
+
+function toExcerpt(hit: EvidenceHit): EvidenceExcerpt {
+  const matchOffset = hit.index - hit.clauseStart;
+  let snippetStart = 0;
+  if (hit.clause.length > EXCERPT_MAX_LENGTH) {
+    snippetStart = Math.max(0, Math.min(matchOffset - EXCERPT_MAX_LENGTH / 2, hit.clause.length - EXCERPT_MAX_LENGTH));
+  }
+  const text = hit.clause.slice(snippetStart, snippetStart + EXCERPT_MAX_LENGTH);
+  return {
+    source: hit.source,
+    text,
+    match: hit.term,
+    start: hit.index,
+    end: hit.index + hit.term.length,
+    polarity: hit.polarity,
+  };
+}
+
+export function toEvidenceExcerpts(result: EvidenceResult): EvidenceExcerpt[] {
+  const seen = new Set<string>();
+  const excerpts: EvidenceExcerpt[] = [];
+  // Sources are ordered from most to least seller-authored, so page-wide boilerplate comes last.
+  for (const hit of result.hits) {
+    const excerpt = toExcerpt(hit);
+    const key = `${excerpt.polarity}:${excerpt.text.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    excerpts.push(excerpt);
+    if (excerpts.length >= EXCERPTS_PER_CHECK) break;
+  }
+  return excerpts;
+}
+
+export type EvidenceCheckDetails = {
+  good: string;
+  missing: string;
+  negated: string;
+  hedged: string;
+  mixed: string;
+};
+
+// Affirmed evidence passes and hedged wording needs review. A plain statement that something is absent ("no COA",
+// "no returns") is missing evidence rather than a warning; a listing that both claims and denies it is a red flag.
+export function evidenceToCheck(label: string, result: EvidenceResult, details: EvidenceCheckDetails): SnapshotBucketCheck {
+  const evidence = toEvidenceExcerpts(result);
+  switch (result.verdict) {
+    case "affirmed":
+      return { label, value: "Good", detail: details.good, evidence };
+    case "negated":
+      return { label, value: "Missing evidence", detail: details.negated, evidence };
+    case "hedged":
+      return { label, value: "Needs review", detail: details.hedged, evidence };
+    case "mixed":
+      return { label, value: "Red flag", detail: details.mixed, evidence };
+    default:
+      return { label, value: "Missing evidence", detail: details.missing, evidence };
+  }
+}
+
+export type RedFlagCheckDetails = {
+  clear: string;
+  flagged: string;
+  hedged: string;
+  denied: string;
+};
+
+// Inverse of evidenceToCheck: finding the phrase is the problem, and an explicit denial ("not a reproduction") clears it.
+export function redFlagToCheck(label: string, result: EvidenceResult, details: RedFlagCheckDetails): SnapshotBucketCheck {
+  const evidence = toEvidenceExcerpts(result);
+  switch (result.verdict) {
+    case "affirmed":
+      return { label, value: "Red flag", detail: details.flagged, evidence };
+    case "hedged":
+    case "mixed":
+      return { label, value: "Needs review", detail: details.hedged, evidence };
+    case "negated":
+      return { label, value: "Good", detail: details.denied, evidence };
+    default:
+      return { label, value: "Good", detail: details.clear, evidence };
+  }
+}
+
+// Related-item carousels and marketplace boilerplate live in the page text, so red flags only read what the seller wrote.
+export function sellerAuthoredSources(sources: EvidenceSource[]): EvidenceSource[] {
+  return sources.filter((source) => isSellerAuthored(source.kind));
+}
+
+export const EVIDENCE_RULES = {
+  coa: {
+    terms: /\b(coa|certificate of authenticity|authenticity certificate|certificate of authentication)\b/i,
+  },
+  signature: {
+    terms: /\b(hand[- ]signed|signed|signature)\b/i,
+    negatedTerms: /\bunsigned\b/i,
+    exclude: /\b((?:you(?:'re| are)|already|not) signed (?:in|out)|signed (?:in|out) (?:to|as)|sign (?:in|out|up))\b/i,
+  },
+  edition: {
+    terms: /\b(edition|ed\.\s?\d+|numbered|\d{1,4}\s?\/\s?\d{1,4})\b/i,
+    negatedTerms: /\bunnumbered\b/i,
+  },
+  provenance: {
+    terms: /\b(provenance|acquired from|from the collection|previous sale|auction|sold at)\b/i,
+  },
+  returnPolicy: {
+    terms: /\b(return policy|returns? accepted|return within|\d+[- ]day returns?|returns)\b/i,
+  },
+  insurance: {
+    terms: /\b(shipping insurance|insured shipping|insured|insurance)\b/i,
+    negatedTerms: /\buninsured\b/i,
+  },
+  buyerProtection: {
+    terms: /\b(buyer protection|money back guarantee|guarantee)\b/i,
+  },
+  documents: {
+    terms: /\b(receipt|invoice|proof of purchase|documentation)\b/i,
+  },
+} satisfies Record<string, EvidenceRule>;
+
+// Every name a known artist goes by, longest first, with any run of spaces allowed between words.
+const ARTIST_NAMES = CANONICAL_ARTISTS.flatMap((artist) => [artist.displayName, artist.realName ?? "", ...artist.aliases, ...artist.misspellings])
+  .filter(Boolean)
+  .sort((a, b) => b.length - a.length)
+  .map((name) => escapeRegExp(name).replace(/\s+/g, "\\s+"))
+  .join("|");
+
+// "After" only hedges an attribution when a known artist follows it, so "after Banksy" is flagged but "Ships After Payment" is not.
+export const RED_FLAG_RULES = {
+  reproductionLanguage: {
+    terms: /\b(replica|reproduction|repro|facsimile|counterfeit|fake|copy print|print of the original|gicl[eé]e poster|poster print|art poster)\b/i,
+    exclude: /\b(copy of (?:the )?(?:receipt|invoice|coa|certificate))\b/i,
+  },
+  attributionHedging: {
+    terms: new RegExp(`\\b(?:in the (?:style|manner) of|style of|attributed to|school of|circle of|follower of|after (?:${ARTIST_NAMES}))\\b`, "i"),
+  },
+  unofficialMerch: {
+    terms: /\b(unofficial|fan[- ]?art|fan[- ]made|homage|bootleg|parody|inspired by|not affiliated)\b/i,
+  },
+} satisfies Record<string, EvidenceRule>;
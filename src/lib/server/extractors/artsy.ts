@@ -0,0 +1,60 @@
+import {
+  MarketplaceExtractor,
+  buildListingRecord,
+  extractDocumentTitle,
+  extractElementText,
+  extractFromJsonLd,
+  extractImageUrls,
+  extractMetaContent,
+  firstNonEmpty,
+  inferMeasurements,
+  mergeImageUrls,
+} from "./shared";
+import { parsePriceAmount } from "../price";
+
+// Artsy titles read "Artist | Work Title (2004) | Available for Sale | Artsy".
+function splitArtsyTitle(value: string | undefined): { artistName?: string; title?: string; year?: string } {
+  if (!value) return {};
+  const parts = value
+    .split("|")
+    .map((part) => part.trim())
+    .filter((part) => part && !/^artsy$/i.test(part) && !/available for sale/i.test(part));
+  if (parts.length < 2) return { title: parts[0] };
+  const year = parts[1].match(/\((\d{4})\)\s*$/)?.[1];
+  return { artistName: parts[0], title: parts[1].replace(/\s*\(\d{4}\)\s*$/, ""), year };
+}
+
+export const artsyExtractor: MarketplaceExtractor = {
+  source: "artsy",
+  nativeListingId: (url) => url.pathname.match(/\/artwork\/([a-z0-9-]+)/i)?.[1].toLowerCase(),
+  matchesHost: (hostname) => /(?:^|\.)artsy\.net$/i.test(hostname),
+  extract(page) {
+    const { raw } = page;
+    const jsonLd = extractFromJsonLd(raw);
+    const fromTitle = splitArtsyTitle(firstNonEmpty(extractMetaContent(raw, "og:title"), extractDocumentTitle(raw)));
+    const ogImage = extractMetaContent(raw, "og:image");
+    // Artsy prints sizes with a multiplication sign ("53.3 × 37.6 cm").
+    const dimensionText = (extractElementText(raw, "data-test", "artworkDimensions") ?? raw).replace(/×/g, "x");
+
+    return buildListingRecord(page, "artsy", {
+      title: firstNonEmpty(jsonLd.title, fromTitle.title),
+      description: firstNonEmpty(
+        extractElementText(raw, "data-test", "artworkDescription"),
+        jsonLd.description,
+        extractMetaContent(raw, "og:description")
+      ),
+      price: jsonLd.price ?? parsePriceAmount(extractMetaContent(raw, "product:price:amount")),
+      currency: jsonLd.currency ?? extractMetaContent(raw, "product:price:currency"),
+      artistName: firstNonEmpty(jsonLd.artistName, fromTitle.artistName),
+      measurements: inferMeasurements(dimensionText),
+      medium: jsonLd.medium,
+      yearOfRelease: firstNonEmpty(jsonLd.dateCreated, fromTitle.year),
+      seller: { username: jsonLd.sellerName },
+      imageUrls: mergeImageUrls(
+        jsonLd.images,
+        ogImage ? [ogImage] : undefined,
+        extractImageUrls(raw).filter((url) => /artsy\.net/i.test(url))
+      ),
+    });
+  },
+};
@@ -0,0 +1,116 @@
+import {
+  MarketplaceExtractor,
+  buildListingRecord,
+  decodeHtmlEntities,
+  escapeRegExp,
+  extractDocumentTitle,
+  extractElementText,
+  extractFromJsonLd,
+  extractImageUrls,
+  extractMetaContent,
+  firstNonEmpty,
+  inferMeasurements,
+  mergeImageUrls,
+  stripTags,
+} from "./shared";
+import { currencyFromText, findItemPrice, parsePriceAmount } from "../price";
+import { mergeSellerProfiles, parseSellerProfile } from "../seller";
+import { SellerProfile } from "../types";
+
+function stripEbaySuffix(value: string): string {
+  return value.replace(/\s*\|\s*eBay.*$/i, "").trim();
+}
+
+// The read-only proxy returns a markdown rendering that starts with "Title: ...".
+function readProxyTitle(raw: string): string | undefined {
+  return raw.match(/^Title:\s*(.+)$/m)?.[1]?.trim();
+}
+
+// Item specifics render as label/value pairs, e.g. "Artist" -> "Banksy".
+export function readItemSpecific(raw: string, label: string): string | undefined {
+  const re = new RegExp(
+    `ux-labels-values__labels[\\s\\S]{0,300}?<span[^>]*>\\s*${escapeRegExp(label)}\\s*:?\\s*<\\/span>[\\s\\S]{0,400}?ux-labels-values__values[\\s\\S]{0,300}?<span[^>]*>([^<]+)<\\/span>`,
+    "i"
+  );
+  const value = raw.match(re)?.[1];
+  return value ? decodeHtmlEntities(value).trim() : undefined;
+}
+
+// The seller and store cards nest several divs, so read a window of markup after each one rather than a single element.
+function readCardText(raw: string, className: string): string {
+  const index = raw.search(new RegExp(`${escapeRegExp(className)}\\b`));
+  if (index < 0) return "";
+  const start = raw.lastIndexOf("<", index);
+  return stripTags(raw.slice(Math.max(0, start), index + 4000));
+}
+
+function readEbaySeller(raw: string, now: Date): SellerProfile | undefined {
+  const username = extractElementText(raw, "class", "x-sellercard-atf__info__about-seller");
+  return mergeSellerProfiles(
+    { username },
+    parseSellerProfile(readCardText(raw, "x-sellercard-atf"), now),
+    parseSellerProfile(readCardText(raw, "x-store-information"), now),
+    parseSellerProfile(extractElementText(raw, "class", "ux-labels-values--itemLocation") ?? "", now)
+  );
+}
+
+function extractEbayImages(raw: string): string[] {
+  return extractImageUrls(raw).filter((url) => /ebayimg\.com/i.test(url));
+}
+
+export const ebayExtractor: MarketplaceExtractor = {
+  source: "ebay",
+  // Item numbers are shared by every eBay site, so ebay.com and ebay.co.uk links meet on one id.
+  nativeListingId: (url) =>
+    url.pathname.match(/\/itm\/(?:[^/]+\/)?(\d{9,15})(?:\/|$)/)?.[1] ?? url.searchParams.get("item")?.match(/^\d{9,15}$/)?.[0],
+  allowProxyFallback: true,
+  matchesHost: (hostname) => /(?:^|\.)ebay\./i.test(hostname),
+  extract(page) {
+    const { raw } = page;
+    const jsonLd = extractFromJsonLd(raw);
+    const title = stripEbaySuffix(
+      firstNonEmpty(
+        extractElementText(raw, "class", "x-item-title__mainTitle"),
+        jsonLd.title,
+        extractMetaContent(raw, "og:title"),
+        extractDocumentTitle(raw),
+        readProxyTitle(raw)
+      ) ?? ""
+    );
+    const primaryPriceText = extractElementText(raw, "class", "x-price-primary");
+    const pagePrice = findItemPrice(stripTags(raw));
+    const price =
+      jsonLd.price ??
+      parsePriceAmount(extractMetaContent(raw, "price")) ??
+      parsePriceAmount(primaryPriceText) ??
+      pagePrice.price?.amount;
+    const currency = firstNonEmpty(
+      jsonLd.currency,
+      extractMetaContent(raw, "priceCurrency"),
+      currencyFromText(primaryPriceText),
+      pagePrice.price?.currency
+    );
+    const shippingText = extractElementText(raw, "class", "ux-labels-values--shipping");
+    const shippingPrice = !shippingText
+      ? pagePrice.shipping?.amount
+      : /\bfree\b/i.test(shippingText)
+        ? 0
+        : parsePriceAmount(shippingText);
+    const ogImage = extractMetaContent(raw, "og:image");
+    const specificsDimensions = firstNonEmpty(readItemSpecific(raw, "Size"), readItemSpecific(raw, "Dimensions"));
+
+    return buildListingRecord(page, "ebay", {
+      title,
+      description: firstNonEmpty(extractElementText(raw, "class", "x-item-description"), extractMetaContent(raw, "og:description")),
+      price,
+      currency,
+      shippingPrice,
+      artistName: readItemSpecific(raw, "Artist"),
+      measurements: inferMeasurements(specificsDimensions, stripTags(raw)),
+      medium: firstNonEmpty(readItemSpecific(raw, "Medium"), readItemSpecific(raw, "Production Technique")),
+      yearOfRelease: readItemSpecific(raw, "Year of Production"),
+      seller: readEbaySeller(raw, new Date(page.fetchedAt)),
+      imageUrls: mergeImageUrls(jsonLd.images, ogImage ? [ogImage] : undefined, extractEbayImages(raw)),
+    });
+  },
+};
@@ -0,0 +1,76 @@
+import {
+  MarketplaceExtractor,
+  buildListingRecord,
+  decodeHtmlEntities,
+  extractDocumentTitle,
+  extractElementText,
+  extractFromJsonLd,
+  extractImageUrls,
+  extractMetaContent,
+  firstNonEmpty,
+  inferMeasurements,
+  mergeImageUrls,
+  stripTags,
+} from "./shared";
+import { parsePriceAmount } from "../price";
+
+const STOREFRONT_MARKERS = [/cdn\.shopify\.com/i, /\bShopify\.shop\b/, /\bwoocommerce\b/i, /static1\.squarespace\.com/i, /bigcartel/i];
+
+function isProductPage(raw: string): boolean {
+  return (
+    /<meta[^>]+(?:property|name)=["']og:type["'][^>]+content=["'](?:og:)?product["']/i.test(raw) ||
+    /"@type"\s*:\s*"Product"/i.test(raw)
+  );
+}
+
+// Shopify embeds the product JSON with the vendor, which galleries use for the artist.
+function readShopifyVendor(raw: string): string | undefined {
+  const value = raw.match(/"vendor"\s*:\s*"([^"]{1,80})"/)?.[1];
+  return value ? decodeHtmlEntities(value) : undefined;
+}
+
+function readProductDescription(raw: string): string | undefined {
+  return firstNonEmpty(
+    extractElementText(raw, "class", "product__description"),
+    extractElementText(raw, "class", "product-single__description"),
+    extractElementText(raw, "class", "woocommerce-product-details__short-description"),
+    extractElementText(raw, "class", "ProductItem-details-excerpt")
+  );
+}
+
+// Independent galleries mostly sell through hosted storefronts, so detect them by markup rather than host.
+export const galleryExtractor: MarketplaceExtractor = {
+  source: "independent_gallery",
+  matchesMarkup: (raw) => isProductPage(raw) && STOREFRONT_MARKERS.some((marker) => marker.test(raw)),
+  extract(page) {
+    const { raw } = page;
+    const jsonLd = extractFromJsonLd(raw);
+    const description = firstNonEmpty(readProductDescription(raw), jsonLd.description, extractMetaContent(raw, "og:description"));
+    const ogImage = extractMetaContent(raw, "og:image");
+
+    return buildListingRecord(page, "independent_gallery", {
+      title: firstNonEmpty(
+        jsonLd.title,
+        extractElementText(raw, "class", "product_title"),
+        extractMetaContent(raw, "og:title"),
+        extractDocumentTitle(raw)
+      ),
+      description,
+      price:
+        jsonLd.price ??
+        parsePriceAmount(extractMetaContent(raw, "og:price:amount")) ??
+        parsePriceAmount(extractMetaContent(raw, "product:price:amount")),
+      currency: firstNonEmpty(
+        jsonLd.currency,
+        extractMetaContent(raw, "og:price:currency"),
+        extractMetaContent(raw, "product:price:currency")
+      ),
+      artistName: firstNonEmpty(jsonLd.artistName, readShopifyVendor(raw)),
+      measurements: inferMeasurements(description, stripTags(raw)),
+      medium: jsonLd.medium,
+      yearOfRelease: jsonLd.dateCreated,
+      seller: { username: jsonLd.sellerName },
+      imageUrls: mergeImageUrls(jsonLd.images, ogImage ? [ogImage] : undefined, extractImageUrls(raw)),
+    });
+  },
+};
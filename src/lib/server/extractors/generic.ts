@@ -0,0 +1,50 @@
+import {
+  MarketplaceExtractor,
+  buildListingRecord,
+  extractDocumentTitle,
+  extractFromJsonLd,
+  extractImageUrls,
+  extractMetaContent,
+  firstNonEmpty,
+  inferMeasurements,
+  mergeImageUrls,
+  stripTags,
+} from "./shared";
+import { findItemPrice, parsePriceAmount } from "../price";
+
+function stripMarketplaceSuffix(value: string): string {
+  return value.replace(/\s*\|\s*eBay.*$/i, "").trim();
+}
+
+export function guessSourceFromUrl(url: string): string {
+  return /ebay\./i.test(url) ? "ebay" : /stockx\./i.test(url) ? "stockx" : /artsy\./i.test(url) ? "artsy" : "listing";
+}
+
+// Fallback for hosts without a dedicated extractor: JSON-LD, then meta tags, then page-wide regexes.
+export const genericExtractor: MarketplaceExtractor = {
+  source: "listing",
+  extract(page) {
+    const { raw } = page;
+    const jsonLd = extractFromJsonLd(raw);
+    const titleCandidate = firstNonEmpty(jsonLd.title, extractMetaContent(raw, "og:title"), extractDocumentTitle(raw));
+    const title = stripMarketplaceSuffix(titleCandidate ?? "") || "Untitled listing";
+    // Page text is the last resort; shipping, "was" and related-item prices are skipped there.
+    const pagePrice = findItemPrice(stripTags(raw));
+    const price =
+      (typeof jsonLd.price === "number" && Number.isFinite(jsonLd.price) ? jsonLd.price : undefined) ??
+      parsePriceAmount(extractMetaContent(raw, "product:price:amount")) ??
+      pagePrice.price?.amount;
+    const ogImage = extractMetaContent(raw, "og:image");
+
+    return buildListingRecord(page, guessSourceFromUrl(page.url), {
+      title,
+      description: firstNonEmpty(jsonLd.description, extractMetaContent(raw, "og:description"), extractMetaContent(raw, "description")),
+      price,
+      currency: firstNonEmpty(jsonLd.currency, extractMetaContent(raw, "product:price:currency"), pagePrice.price?.currency),
+      shippingPrice: pagePrice.shipping?.amount,
+      measurements: inferMeasurements(stripTags(raw)),
+      seller: { username: jsonLd.sellerName },
+      imageUrls: mergeImageUrls(jsonLd.images, ogImage ? [ogImage] : undefined, extractImageUrls(raw)),
+    });
+  },
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { extractListing, resolveExtractor, resolveExtractorForUrl } from "./index";
+
+const fetchedAt = "2026-03-01T12:00:00.000Z";
+
+const page = (url: string, raw: string) => ({ url, raw, listingId: "listing_1", fetchedAt });
+
+const EBAY_PAGE = `<!doctype html><html><head><title>Banksy Girl with Balloon Screenprint | eBay</title>
+<meta property="og:image" content="https://i.ebayimg.com/images/g/abc/s-l1600.jpg"></head><body>
+<h1 class="x-item-title__mainTitle"><span class="ux-textspans">Banksy Girl with Balloon Screenprint &amp; COA</span></h1>
+<div class="x-price-primary"><span class="ux-textspans">£2,450.00</span></div>
+<div class="ux-labels-values--shipping"><span>Free delivery</span></div>
+<div class="ux-labels-values__labels"><span class="ux-textspans">Artist</span></div>
+<div class="ux-labels-values__values"><span class="ux-textspans">Banksy</span></div>
+<div class="ux-labels-values__labels"><span class="ux-textspans">Production Technique</span></div>
+<div class="ux-labels-values__values"><span class="ux-textspans">Screen Print</span></div>
+<div class="ux-labels-values__labels"><span class="ux-textspans">Size</span></div>
+<div class="ux-labels-values__values"><span class="ux-textspans">70 x 50 cm</span></div>
+<div class="ux-labels-values__labels"><span class="ux-textspans">Year of Production</span></div>
+<div class="ux-labels-values__values"><span class="ux-textspans">2004</span></div>
+<img src="https://i.ebayimg.com/images/g/def/s-l500.jpg"><img src="https://ir.ebaystatic.com/sprite.png">
+</body></html>`;
+
+const ARTSY_PAGE = `<!doctype html><html><head>
+<meta property="og:title" content="Keith Haring | Untitled (Dancing Figures) (1987) | Available for Sale | Artsy">
+<meta property="og:image" content="https://d32dm0rphc51dk.cloudfront.net/haring/large.jpg">
+<script type="application/ld+json">{"@type":"Product","offers":{"price":"12000","priceCurrency":"USD"},"image":"https://files.artsy.net/haring/main.jpg"}</script>
+</head><body><div data-test="artworkDimensions">50.8 × 40.6 cm</div>
+<div data-test="artworkDescription">Lithograph, signed in pencil.</div></body></html>`;
+
+const STOCKX_PAGE = `<!doctype html><html><head><title>KAWS Companion Flayed Open Edition Vinyl Figure Grey - StockX</title>
+<script type="application/ld+json">{"@type":"Product","name":"KAWS Companion Flayed Open Edition Vinyl Figure Grey","brand":{"@type":"Brand","name":"KAWS"},"offers":{"lowPrice":"410","priceCurrency":"USD"},"image":"https://images.stockx.com/images/kaws-companion.jpg"}</script>
+</head><body><h1 data-component="primary-product-title">KAWS Companion Flayed Open Edition Vinyl Figure Grey</h1>
+<div data-component="product-description">Stands 11 inches tall. Height: 28 cm.</div></body></html>`;
+
+const GENERIC_PAGE = `<!doctype html><html><head><title>Shepard Fairey Obey Giant print</title>
+<meta property="og:description" content="Signed Obey Giant print, 18 x 24 in.">
+<meta property="product:price:amount" content="350"><meta property="product:price:currency" content="USD">
+</head><body><p>Signed Obey Giant print, 18 x 24 in.</p><img src="https://example.com/obey.jpg"></body></html>`;
+
+describe("resolveExtractorForUrl", () => {
+  it.each([
+    ["https://www.ebay.co.uk/itm/123456789012", "ebay"],
+    ["https://ebay.com/itm/123456789012", "ebay"],
+    ["https://www.artsy.net/artwork/keith-haring-untitled", "artsy"],
+    ["https://stockx.com/kaws-companion-flayed", "stockx"],
+  ])("picks the extractor for %s", (url, source) => {
+    expect(resolveExtractorForUrl(url)?.source).toBe(source);
+  });
+
+  it.each(["https://notebay.example.com/itm/1", "https://artsy.net.example.com/artwork/x", "not a url"])("has none for %s", (url) => {
+    expect(resolveExtractorForUrl(url)).toBeUndefined();
+  });
+});
+
+describe("resolveExtractor", () => {
+  it("detects hosted gallery storefronts by markup", () => {
+    const raw = `<meta property="og:type" content="product"><script src="https://cdn.shopify.com/s/app.js"></script>`;
+    expect(resolveExtractor("https://shop.example-gallery.com/products/print", raw).source).toBe("independent_gallery");
+  });
+
+  it("falls back to the generic extractor", () => {
+    expect(resolveExtractor("https://example.com/print", GENERIC_PAGE).source).toBe("listing");
+  });
+});
+
+describe("extractListing", () => {
+  it("reads an eBay listing's item specifics, price and photos", () => {
+    const record = extractListing(page("https://www.ebay.co.uk/itm/123456789012", EBAY_PAGE));
+    expect(record).toMatchObject({
+      source: "ebay",
+      price: 2450,
+      currency: "GBP",
+      shippingPrice: 0,
+      artist: { id: "banksy" },
+      artwork: { title: "Banksy Girl with Balloon Screenprint & COA", medium: "Screen Print", yearOfRelease: "2004" },
+    });
+    expect(record.artwork.measurements).not.toEqual([]);
+    expect(record.visual.imageUrls).toEqual([
+      "https://i.ebayimg.com/images/g/abc/s-l1600.jpg",
+      "https://i.ebayimg.com/images/g/def/s-l500.jpg",
+    ]);
+  });
+
+  it("splits an Artsy title into artist, work and year", () => {
+    const record = extractListing(page("https://www.artsy.net/artwork/keith-haring-untitled", ARTSY_PAGE));
+    expect(record).toMatchObject({
+      source: "artsy",
+      price: 12000,
+      currency: "USD",
+      description: "Lithograph, signed in pencil.",
+      artist: { name: "Keith Haring" },
+      artwork: { title: "Untitled (Dancing Figures)", yearOfRelease: "1987" },
+    });
+    expect(record.artwork.measurements).not.toEqual([]);
+  });
+
+  it("uses the StockX brand as the artist and drops the site suffix", () => {
+    const record = extractListing(page("https://stockx.com/kaws-companion-flayed", STOCKX_PAGE));
+    expect(record).toMatchObject({
+      source: "stockx",
+      artist: { id: "kaws" },
+      artwork: { title: "KAWS Companion Flayed Open Edition Vinyl Figure Grey" },
+      visual: { imageUrls: ["https://images.stockx.com/images/kaws-companion.jpg"] },
+    });
+  });
+
+  it("reads meta tags on an unknown host", () => {
+    const record = extractListing(page("https://example.com/print", GENERIC_PAGE));
+    expect(record).toMatchObject({
+      source: "listing",
+      price: 350,
+      currency: "USD",
+      description: "Signed Obey Giant print, 18 x 24 in.",
+      artwork: { title: "Shepard Fairey Obey Giant print" },
+      visual: { imageUrls: ["https://example.com/obey.jpg"] },
+    });
+  });
+
+  it("decodes entities in the document title", () => {
+    const raw = `<title>&lt;script&gt;alert(1)&lt;/script&gt; Print</title>`;
+    expect(extractListing(page("https://example.com/x", raw)).artwork.title).toBe("<script>alert(1)</script> Print");
+  });
+});
@@ -0,0 +1,34 @@
+import { ListingRecord } from "../types";
+import { artsyExtractor } from "./artsy";
+import { ebayExtractor } from "./ebay";
+import { galleryExtractor } from "./gallery";
+import { genericExtractor } from "./generic";
+import { ListingPage, MarketplaceExtractor, hostnameOf } from "./shared";
+import { stockxExtractor } from "./stockx";
+
+export type { ListingPage, MarketplaceExtractor } from "./shared";
+
+const extractors: MarketplaceExtractor[] = [ebayExtractor, stockxExtractor, artsyExtractor, galleryExtractor];
+
+// Later registrations win so a site-specific extractor can override a built-in one.
+export function registerExtractor(extractor: MarketplaceExtractor): void {
+  extractors.unshift(extractor);
+}
+
+export function resolveExtractorForUrl(url: string): MarketplaceExtractor | undefined {
+  const hostname = hostnameOf(url);
+  if (!hostname) return undefined;
+  return extractors.find((extractor) => extractor.matchesHost?.(hostname));
+}
+
+export function resolveExtractor(url: string, raw: string): MarketplaceExtractor {
+  return (
+    resolveExtractorForUrl(url) ??
+    extractors.find((extractor) => extractor.matchesMarkup?.(raw)) ??
+    genericExtractor
+  );
+}
+
+export function extractListing(page: ListingPage): ListingRecord {
+  return resolveExtractor(page.url, page.raw).extract(page);
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { decodeHtmlEntities } from "./shared";
+
+describe("decodeHtmlEntities", () => {
+  it("decodes astral code points whole", () => {
+    expect(decodeHtmlEntities("Mint &#128512; &#x1F600;")).toBe("Mint \u{1F600} \u{1F600}");
+  });
+
+  it.each(["&#x110000;", "&#99999999;", "&#0;", "&#xD800;"])("leaves %s as written", (entity) => {
+    expect(decodeHtmlEntities(`a ${entity} b`)).toBe(`a ${entity} b`);
+  });
+
+  it("decodes named entities once", () => {
+    expect(decodeHtmlEntities("Tom &amp; Jerry &pound;5 &quot;Flower&quot; &amp;lt;")).toBe('Tom & Jerry £5 "Flower" &lt;');
+    expect(decodeHtmlEntities("&#38;lt;")).toBe("&lt;");
+  });
+
+  it("keeps unknown names", () => {
+    expect(decodeHtmlEntities("&copy; &hellip;")).toBe("&copy; &hellip;");
+  });
+});
@@ -0,0 +1,320 @@
+import { findArtistInText, resolveArtist } from "@/lib/shared/artists";
+import { formatMeasurement, parseMeasurements, primaryMeasurement } from "../dimensions";
+import { currencyFromHost } from "../price";
+import { mergeSellerProfiles, parseSellerProfile } from "../seller";
+import { ArtworkMeasurement, ListingRecord, SellerProfile } from "../types";
+
+export type ListingPage = {
+  url: string;
+  raw: string;
+  listingId: string;
+  fetchedAt: string;
+};
+
+export type JsonLdListing = {
+  title?: string;
+  description?: string;
+  price?: number;
+  currency?: string;
+  images?: string[];
+  artistName?: string;
+  medium?: string;
+  dateCreated?: string;
+  sellerName?: string;
+  // schema.org availability, e.g. "https://schema.org/InStock".
+  availability?: string;
+};
+
+export interface MarketplaceExtractor {
+  source: string;
+  matchesHost?: (hostname: string) => boolean;
+  matchesMarkup?: (raw: string) => boolean;
+  // Some marketplaces block direct fetches; allow the read-only proxy fallback for them.
+  allowProxyFallback?: boolean;
+  // The marketplace's own id for the listing (item number, product slug), read from its URL.
+  nativeListingId?: (url: URL) => string | undefined;
+  extract: (page: ListingPage) => ListingRecord;
+}
+
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  apos: "'",
+  quot: '"',
+  nbsp: " ",
+  pound: "£",
+  euro: "€",
+  yen: "¥",
+  lt: "<",
+  gt: ">",
+  amp: "&",
+};
+
+// Code points outside Unicode, NUL and lone surrogates are not characters, so such entities stay as written.
+function decodeCodePoint(code: number): string | undefined {
+  if (!Number.isInteger(code) || code <= 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return undefined;
+  return String.fromCodePoint(code);
+}
+
+// One pass, so "&amp;lt;" decodes to "&lt;" rather than "<".
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));/gi, (entity, decimal?: string, hex?: string, name?: string) => {
+    if (name) return NAMED_ENTITIES[name] ?? entity;
+    return decodeCodePoint(decimal ? Number(decimal) : parseInt(hex ?? "", 16)) ?? entity;
+  });
+}
+
+export function stripTags(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+export function extractMetaContent(raw: string, key: string): string | undefined {
+  const escaped = escapeRegExp(key);
+  const re1 = new RegExp(`<meta[^>]+(?:property|name|itemprop)=["']${escaped}["'][^>]+content=["']([^"']+)["']`, "i");
+  const re2 = new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]+(?:property|name|itemprop)=["']${escaped}["']`, "i");
+  const value = raw.match(re1)?.[1] ?? raw.match(re2)?.[1];
+  return value ? decodeHtmlEntities(value) : undefined;
+}
+
+// Returns the inner HTML of the first element carrying the given attribute value, e.g. a class or data attribute.
+export function extractElementByAttribute(raw: string, attribute: string, value: string): string | undefined {
+  const re = new RegExp(
+    `<([a-z0-9]+)[^>]*\\b${escapeRegExp(attribute)}=["'][^"']*\\b${escapeRegExp(value)}\\b[^"']*["'][^>]*>([\\s\\S]*?)<\\/\\1>`,
+    "i"
+  );
+  return raw.match(re)?.[2];
+}
+
+export function extractElementText(raw: string, attribute: string, value: string): string | undefined {
+  const inner = extractElementByAttribute(raw, attribute, value);
+  if (inner === undefined) return undefined;
+  const text = stripTags(inner);
+  return text || undefined;
+}
+
+function flattenJsonLd(parsed: unknown): Record<string, unknown>[] {
+  if (Array.isArray(parsed)) return parsed.flatMap(flattenJsonLd);
+  if (!parsed || typeof parsed !== "object") return [];
+  const record = parsed as Record<string, unknown>;
+  const graph = record["@graph"];
+  return [record, ...(Array.isArray(graph) ? graph.flatMap(flattenJsonLd) : [])];
+}
+
+function readJsonLdName(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return readJsonLdName(value[0]);
+  if (value && typeof value === "object") {
+    const name = (value as Record<string, unknown>).name;
+    return typeof name === "string" ? name : undefined;
+  }
+  return undefined;
+}
+
+function readJsonLdImages(value: unknown): string[] | undefined {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap((entry) => readJsonLdImages(entry) ?? []);
+  if (value && typeof value === "object") {
+    const url = (value as Record<string, unknown>).url ?? (value as Record<string, unknown>).contentUrl;
+    return typeof url === "string" ? [url] : undefined;
+  }
+  return undefined;
+}
+
+function readJsonLdOffer(value: unknown): { price?: number; currency?: string; sellerName?: string; availability?: string } {
+  const offer = (Array.isArray(value) ? value[0] : value) as Record<string, unknown> | undefined;
+  if (!offer || typeof offer !== "object") return {};
+  const rawPrice = offer.price ?? offer.lowPrice;
+  const price = typeof rawPrice === "string" || typeof rawPrice === "number" ? Number(rawPrice) : undefined;
+  const currency = typeof offer.priceCurrency === "string" ? offer.priceCurrency : undefined;
+  const sellerName = readJsonLdName(offer.seller);
+  const availability = typeof offer.availability === "string" ? offer.availability : undefined;
+  return { price: Number.isFinite(price) ? price : undefined, currency, sellerName, availability };
+}
+
+export function extractJsonLdObjects(raw: string): Record<string, unknown>[] {
+  const scripts = [...raw.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)];
+  const objects: Record<string, unknown>[] = [];
+  for (const script of scripts) {
+    const text = script[1]?.trim();
+    if (!text) continue;
+    try {
+      objects.push(...flattenJsonLd(JSON.parse(text)));
+    } catch {
+      // Ignore malformed JSON-LD blocks.
+    }
+  }
+  return objects;
+}
+
+export function extractFromJsonLd(raw: string): JsonLdListing {
+  for (const parsed of extractJsonLdObjects(raw)) {
+    const title = typeof parsed.name === "string" ? parsed.name : undefined;
+    const description = typeof parsed.description === "string" ? parsed.description : undefined;
+    const { price, currency, sellerName, availability } = readJsonLdOffer(parsed.offers);
+    const images = readJsonLdImages(parsed.image);
+    const artistName = readJsonLdName(parsed.creator ?? parsed.artist ?? parsed.brand);
+    const medium = typeof parsed.artMedium === "string" ? parsed.artMedium : undefined;
+    const dateCreated = typeof parsed.dateCreated === "string" ? parsed.dateCreated : undefined;
+    if (title || price || currency || images?.length) {
+      return { title, description, price, currency, images, artistName, medium, dateCreated, sellerName, availability };
+    }
+  }
+  return {};
+}
+
+export function extractImageUrls(raw: string): string[] {
+  const matches = raw.match(/https?:\/\/[^"'<>\s]+?\.(?:jpg|jpeg|png|webp)(?:\?[^"'<>\s]*)?/gi) ?? [];
+  return [...new Set(matches)].slice(0, 8);
+}
+
+export function mergeImageUrls(...groups: Array<string[] | undefined>): string[] {
+  return groups
+    .flatMap((group) => group ?? [])
+    .filter((value, index, all) => Boolean(value) && all.indexOf(value) === index)
+    .slice(0, 8);
+}
+
+export function inferMeasurements(...texts: Array<string | undefined>): ArtworkMeasurement[] {
+  for (const text of texts) {
+    const measurements = text ? parseMeasurements(text) : [];
+    if (measurements.length) return measurements;
+  }
+  return [];
+}
+
+function sanitizeArtistCandidate(value: string): string {
+  return value
+    .replace(/\s+/g, " ")
+    .replace(/^[^A-Za-z]+/, "")
+    .replace(/[^A-Za-z.'\-\s]+$/g, "")
+    .trim();
+}
+
+function looksLikeArtistName(value: string): boolean {
+  if (!value) return false;
+  if (/\d/.test(value)) return false;
+  const words = value.split(/\s+/).filter(Boolean);
+  return words.length >= 2 && words.length <= 5;
+}
+
+export function inferArtistName(title: string): string {
+  // Common pattern: "Artist Name \"Work Title\" Print"
+  const quoteIndex = title.search(/["'“”]/);
+  if (quoteIndex > 0) {
+    const quotedPrefix = sanitizeArtistCandidate(title.slice(0, quoteIndex));
+    if (looksLikeArtistName(quotedPrefix)) return quotedPrefix;
+  }
+
+  // Pattern: "... by Artist Name"
+  const byMatch = title.match(/\bby\s+([A-Za-z][A-Za-z .'\-]{1,80})/i);
+  if (byMatch?.[1]) {
+    const byArtist = sanitizeArtistCandidate(byMatch[1]);
+    if (looksLikeArtistName(byArtist)) return byArtist;
+  }
+
+  // Pattern: "Artist Name - Listing title"
+  const separatorMatch = title.match(/^(.+?)\s*[-|:]/);
+  if (separatorMatch?.[1]) {
+    const separated = sanitizeArtistCandidate(separatorMatch[1]);
+    if (looksLikeArtistName(separated)) return separated;
+  }
+
+  const fallback = sanitizeArtistCandidate(title);
+  return looksLikeArtistName(fallback) ? fallback : "Unknown artist";
+}
+
+// Known artists resolve to a stable id; anything else keeps the seller's wording or the title heuristic.
+export function resolveListingArtist(statedName: string | undefined, title: string): ListingRecord["artist"] {
+  const stated = statedName?.trim();
+  const resolved = resolveArtist(stated) ?? findArtistInText(title) ?? findArtistInText(stated);
+  if (resolved) return { id: resolved.id, name: resolved.displayName };
+  return { name: stated || inferArtistName(title) };
+}
+
+export function extractDocumentTitle(raw: string): string | undefined {
+  const match = raw.match(/<title>([^<]+)<\/title>/i);
+  return match?.[1] ? decodeHtmlEntities(match[1]).trim() : undefined;
+}
+
+export function firstNonEmpty(...values: Array<string | undefined>): string | undefined {
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (trimmed) return trimmed;
+  }
+  return undefined;
+}
+
+const ENDED_AVAILABILITY = /(?:OutOfStock|SoldOut|Discontinued)$/i;
+// Marketplace banners on listings that can no longer be bought.
+const ENDED_TEXT =
+  /\b(?:this listing (?:has|was) ended|bidding (?:has )?ended|this listing sold on|this (?:item|listing|work) is no longer available|no longer for sale)\b/i;
+
+export function readListingEnded(raw: string): boolean {
+  const availability = extractFromJsonLd(raw).availability;
+  if (availability && ENDED_AVAILABILITY.test(availability)) return true;
+  return ENDED_TEXT.test(stripTags(raw));
+}
+
+export function buildListingRecord(
+  page: ListingPage,
+  source: string,
+  fields: {
+    title?: string;
+    description?: string;
+    price?: number;
+    currency?: string;
+    shippingPrice?: number;
+    artistName?: string;
+    measurements?: ArtworkMeasurement[];
+    medium?: string;
+    yearOfRelease?: string;
+    seller?: SellerProfile;
+    imageUrls: string[];
+  }
+): ListingRecord {
+  const title = fields.title?.trim() || "Untitled listing";
+  const primary = primaryMeasurement(fields.measurements);
+  return {
+    listingId: page.listingId,
+    source,
+    url: page.url,
+    fetchedAt: page.fetchedAt,
+    // Markup wins; otherwise the marketplace domain (ebay.co.uk -> GBP) decides before falling back to USD.
+    currency: fields.currency?.trim().toUpperCase() || currencyFromHost(page.url) || "USD",
+    price: typeof fields.price === "number" && Number.isFinite(fields.price) ? fields.price : undefined,
+    shippingPrice:
+      typeof fields.shippingPrice === "number" && Number.isFinite(fields.shippingPrice) ? fields.shippingPrice : undefined,
+    description: fields.description?.trim() || undefined,
+    artwork: {
+      title,
+      dimensions: primary ? formatMeasurement(primary) : "Not provided",
+      measurements: fields.measurements ?? [],
+      medium: fields.medium,
+      yearOfRelease: fields.yearOfRelease,
+    },
+    // Marketplace-specific seller markup wins; page text fills whatever it left out.
+    seller: mergeSellerProfiles(fields.seller, parseSellerProfile(stripTags(page.raw), new Date(page.fetchedAt))),
+    artist: resolveListingArtist(fields.artistName, title),
+    visual: { imageUrls: fields.imageUrls },
+    ended: readListingEnded(page.raw) || undefined,
+  };
+}
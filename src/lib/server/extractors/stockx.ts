@@ -0,0 +1,62 @@
+import {
+  MarketplaceExtractor,
+  buildListingRecord,
+  extractDocumentTitle,
+  extractElementText,
+  extractFromJsonLd,
+  extractImageUrls,
+  extractMetaContent,
+  firstNonEmpty,
+  inferMeasurements,
+  mergeImageUrls,
+} from "./shared";
+
+function stripStockxSuffix(value: string): string {
+  return value.replace(/\s*[|-]\s*StockX.*$/i, "").trim();
+}
+
+export const stockxExtractor: MarketplaceExtractor = {
+  source: "stockx",
+  // Product pages live at /<slug>, optionally under a locale ("/en-gb/<slug>").
+  nativeListingId: (url) =>
+    url.pathname
+      .split("/")
+      .filter((segment) => segment && !/^[a-z]{2}(?:-[a-z]{2})?$/i.test(segment) && segment !== "buy")[0]
+      ?.toLowerCase(),
+  matchesHost: (hostname) => /(?:^|\.)stockx\.com$/i.test(hostname),
+  extract(page) {
+    const { raw } = page;
+    const jsonLd = extractFromJsonLd(raw);
+    const title = stripStockxSuffix(
+      firstNonEmpty(
+        extractElementText(raw, "data-component", "primary-product-title"),
+        jsonLd.title,
+        extractMetaContent(raw, "og:title"),
+        extractDocumentTitle(raw)
+      ) ?? ""
+    );
+    const ogImage = extractMetaContent(raw, "og:image");
+    const description = firstNonEmpty(
+      extractElementText(raw, "data-component", "product-description"),
+      jsonLd.description,
+      extractMetaContent(raw, "og:description")
+    );
+
+    return buildListingRecord(page, "stockx", {
+      title,
+      description,
+      // StockX lists the lowest ask as the offer price.
+      price: jsonLd.price,
+      currency: jsonLd.currency,
+      // Collectibles are published under the artist as brand (e.g. "KAWS").
+      artistName: jsonLd.artistName,
+      measurements: inferMeasurements(description),
+      seller: { username: jsonLd.sellerName },
+      imageUrls: mergeImageUrls(
+        jsonLd.images,
+        ogImage ? [ogImage] : undefined,
+        extractImageUrls(raw).filter((url) => /images\.stockx\.com/i.test(url))
+      ),
+    });
+  },
+};
@@ -0,0 +1,55 @@
+import {
+  convertAmount,
+  DEFAULT_HOME_CURRENCY,
+  FxRateTable,
+  HomeAmount,
+  pickRateTable,
+  toHomeAmount,
+} from "@/lib/shared/currency";
+import bundledRates from "./rates/fx.json";
+import { getPreferences, listImportedRateTables, saveRateTable } from "./store";
+
+const bundledTables: FxRateTable[] = bundledRates.tables.map((table) => ({
+  date: table.date,
+  base: bundledRates.base,
+  rates: table.rates,
+}));
+
+// Imported tables win over bundled ones dated the same day.
+export function listRateTables(): FxRateTable[] {
+  const imported = listImportedRateTables();
+  const importedDates = new Set(imported.map((table) => table.date));
+  return [...bundledTables.filter((table) => !importedDates.has(table.date)), ...imported].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+export function getRateTable(onDate?: string): FxRateTable | undefined {
+  return pickRateTable(listRateTables(), onDate);
+}
+
+export function listKnownCurrencies(): string[] {
+  const codes = new Set<string>();
+  for (const table of listRateTables()) {
+    codes.add(table.base);
+    for (const code of Object.keys(table.rates)) codes.add(code);
+  }
+  return [...codes].sort();
+}
+
+export function importRateTable(table: FxRateTable): void {
+  saveRateTable(table);
+}
+
+export function convertOnDate(amount: number, from: string, to: string, onDate?: string): number | undefined {
+  const table = getRateTable(onDate);
+  return table ? convertAmount(amount, from, to, table) : undefined;
+}
+
+export function getHomeCurrency(userId: string, email?: string): string {
+  return getPreferences(userId, email).homeCurrency ?? DEFAULT_HOME_CURRENCY;
+}
+
+export function homeAmount(amount: number | undefined, currency: string | undefined, homeCurrency: string): HomeAmount | undefined {
+  return toHomeAmount(amount, currency, homeCurrency, getRateTable());
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { extractAcquisitionClaim } from "./attributes";
+import { imageMetadataToCheck, inspectImageMetadata, PhotoMetadataFinding } from "./imageMetadata";
+
+// A JPEG carrying only an XMP packet; the image data itself is never read.
+function xmpJpeg(attributes: string): Uint8Array {
+  const body = Buffer.from(`http://ns.adobe.com/xap/1.0/\0<rdf:Description ${attributes}/>`, "utf8");
+  return Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe1, (body.length + 2) >> 8, (body.length + 2) & 255]), body, Buffer.from([0xff, 0xd9])]);
+}
+
+function finding(overrides: Partial<PhotoMetadataFinding> = {}): PhotoMetadataFinding {
+  return { photo: 1, url: "https://example.com/1.jpg", editors: [], gps: false, thumbnailMismatch: false, ...overrides };
+}
+
+const claim = (text: string) => extractAcquisitionClaim([{ kind: "description", text }], new Date("2026-10-19T00:00:00Z"));
+
+describe("inspectImageMetadata", () => {
+  it("keeps known editors, skips firmware versions and photos without metadata", () => {
+    const findings = inspectImageMetadata(
+      [
+        { url: "https://example.com/plain.jpg", bytes: Uint8Array.from([0xff, 0xd8, 0xff, 0xd9]) },
+        { url: "https://example.com/edited.jpg", bytes: xmpJpeg('xmp:CreatorTool="Adobe Photoshop 25.0" xmp:CreateDate="2020-04-01T12:00:00"') },
+        { url: "https://example.com/camera.jpg", bytes: xmpJpeg('xmp:CreatorTool="17.4" tiff:Model="iPhone 14"') },
+      ],
+      []
+    );
+    expect(findings).toEqual([
+      finding({ photo: 2, url: "https://example.com/edited.jpg", capturedAt: "2020-04-01T12:00:00", editors: ["Adobe Photoshop 25.0"] }),
+      finding({ photo: 3, url: "https://example.com/camera.jpg", camera: "iPhone 14" }),
+    ]);
+  });
+});
+
+describe("imageMetadataToCheck", () => {
+  it("has nothing to check without photos or metadata", () => {
+    expect(imageMetadataToCheck([], 0).detail).toBe("No listing photos to inspect.");
+    expect(imageMetadataToCheck([], 3).value).toBe("Missing evidence");
+  });
+
+  it("flags a photo taken before the seller says they acquired the work", () => {
+    const check = imageMetadataToCheck([finding({ capturedAt: "2019-02-20T10:00:00" })], 1, claim("Bought in March 2019 from the gallery."));
+    expect(check).toMatchObject({
+      value: "Red flag",
+      detail: 'A photo was taken before the seller says they acquired the work ("Bought in March 2019").',
+    });
+    expect(imageMetadataToCheck([finding({ capturedAt: "2019-03-02T10:00:00" })], 1, claim("Bought in March 2019.")).value).toBe("Good");
+  });
+
+  it("compares at the precision the seller gave", () => {
+    expect(imageMetadataToCheck([finding({ capturedAt: "2019-01-05T10:00:00" })], 1, claim("Purchased 2019.")).value).toBe("Good");
+  });
+
+  it("asks for review of edited photos and mismatched thumbnails", () => {
+    const check = imageMetadataToCheck([finding({ editors: ["Lightroom"] }), finding({ photo: 2, thumbnailMismatch: true })], 2);
+    expect(check).toMatchObject({
+      value: "Needs review",
+      detail: "Photos to check by hand: 1 edited in an image tool; 1 with a mismatched embedded thumbnail.",
+      reasons: ["Photo 1: no capture date, edited in Lightroom.", "Photo 2: no capture date, embedded thumbnail shows a different picture."],
+    });
+  });
+
+  it("passes untouched camera photos", () => {
+    const check = imageMetadataToCheck([finding({ camera: "Canon EOS R5", capturedAt: "2024-05-01T09:30:00", gps: true })], 1);
+    expect(check).toMatchObject({ value: "Good", reasons: ["Photo 1: Canon EOS R5, taken 2024-05-01 09:30:00, GPS location embedded."] });
+  });
+});
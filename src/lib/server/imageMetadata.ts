@@ -0,0 +1,102 @@
+import { AcquisitionClaim } from "./attributes";
+import { FetchedImage, hammingDistance, hashImage, readImageMetadata } from "./images";
+import { ListingImageHash } from "./photoReuse";
+import { SnapshotBucketCheck } from "./types";
+
+// Camera firmware also fills the Software tag ("Ver.1.02", "17.4"), so only known editors count.
+const EDITOR_PATTERN =
+  /\b(?:photoshop|lightroom|gimp|affinity|pixelmator|snapseed|picsart|canva|facetune|paint\.net|luminar|capture one|photopea|fotor)\b/i;
+// Embedded thumbnails are tiny and often letterboxed, so only a large distance means a different picture.
+const THUMBNAIL_MISMATCH_DISTANCE = 20;
+
+export type PhotoMetadataFinding = {
+  // 1-based position among the listing's photos.
+  photo: number;
+  url: string;
+  capturedAt?: string;
+  camera?: string;
+  editors: string[];
+  gps: boolean;
+  // The EXIF thumbnail shows a different picture, so the photo changed after it was taken.
+  thumbnailMismatch: boolean;
+};
+
+export function inspectImageMetadata(images: FetchedImage[], hashes: ListingImageHash[]): PhotoMetadataFinding[] {
+  const hashOf = new Map(hashes.map((entry) => [entry.imageUrl, entry.hash]));
+  return images.flatMap((image, index) => {
+    const metadata = readImageMetadata(image.bytes);
+    if (!metadata) return [];
+    const photoHash = hashOf.get(image.url);
+    const thumbnailHash = metadata.thumbnail ? hashImage(metadata.thumbnail) : undefined;
+    return [
+      {
+        photo: index + 1,
+        url: image.url,
+        capturedAt: metadata.capturedAt,
+        camera: metadata.camera,
+        editors: metadata.software.filter((name) => EDITOR_PATTERN.test(name)),
+        gps: metadata.gps,
+        thumbnailMismatch: Boolean(
+          photoHash && thumbnailHash && hammingDistance(photoHash, thumbnailHash) > THUMBNAIL_MISMATCH_DISTANCE
+        ),
+      },
+    ];
+  });
+}
+
+function describeFinding(finding: PhotoMetadataFinding): string {
+  const parts = [
+    finding.camera,
+    finding.capturedAt ? `taken ${finding.capturedAt.replace("T", " ")}` : "no capture date",
+    finding.editors.length ? `edited in ${finding.editors.join(", ")}` : undefined,
+    finding.gps ? "GPS location embedded" : undefined,
+    finding.thumbnailMismatch ? "embedded thumbnail shows a different picture" : undefined,
+  ].filter(Boolean);
+  return `Photo ${finding.photo}: ${parts.join(", ")}.`;
+}
+
+function describeClaim(claim: AcquisitionClaim): string {
+  return claim.month ? `${claim.year}-${String(claim.month).padStart(2, "0")}` : String(claim.year);
+}
+
+export function imageMetadataToCheck(
+  findings: PhotoMetadataFinding[],
+  photoCount: number,
+  acquisition?: AcquisitionClaim
+): SnapshotBucketCheck {
+  const label = "Image metadata";
+  if (!photoCount) return { label, value: "Missing evidence", detail: "No listing photos to inspect." };
+  if (!findings.length) {
+    return { label, value: "Missing evidence", detail: "Photos carry no EXIF or XMP metadata; most marketplaces strip it." };
+  }
+  const reasons = findings.map(describeFinding);
+
+  if (acquisition) {
+    // Capture times have no zone, so compare at the precision the seller gave.
+    const claimStart = `${describeClaim(acquisition)}${acquisition.month ? "-01" : "-01-01"}`;
+    const earlier = findings.filter((finding) => finding.capturedAt && finding.capturedAt < claimStart);
+    if (earlier.length) {
+      return {
+        label,
+        value: "Red flag",
+        detail: `${earlier.length === 1 ? "A photo was" : `${earlier.length} photos were`} taken before the seller says they acquired the work ("${acquisition.excerpt}").`,
+        reasons,
+      };
+    }
+  }
+  const edited = findings.filter((finding) => finding.editors.length);
+  const mismatched = findings.filter((finding) => finding.thumbnailMismatch);
+  if (edited.length || mismatched.length) {
+    const problems = [
+      edited.length ? `${edited.length} edited in an image tool` : undefined,
+      mismatched.length ? `${mismatched.length} with a mismatched embedded thumbnail` : undefined,
+    ].filter(Boolean);
+    return { label, value: "Needs review", detail: `Photos to check by hand: ${problems.join("; ")}.`, reasons };
+  }
+  return {
+    label,
+    value: "Good",
+    detail: `Metadata on ${findings.length} photo${findings.length === 1 ? "" : "s"} shows no editing${acquisition ? " or dates before the claimed acquisition" : ""}.`,
+    reasons,
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { assessImages, detailShotsToCheck, imageQualityToCheck, screenImageUrls } from "./imageQuality";
+import { FetchedImage } from "./images";
+
+// Only the header is read, so the rest of the file is padding up to the given size.
+function header(format: "png" | "jpeg" | "gif", width: number, height: number, size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  if (format === "png") {
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(16, width);
+    view.setUint32(20, height);
+  } else if (format === "jpeg") {
+    bytes.set([0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, height >> 8, height & 255, width >> 8, width & 255, 1, 1, 0x11, 0]);
+  } else {
+    bytes.set([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, width & 255, width >> 8, height & 255, height >> 8]);
+  }
+  return bytes;
+}
+
+const image = (url: string, bytes: Uint8Array): FetchedImage => ({ url, bytes });
+const photo = (url: string, side: number) => image(url, header("png", side, Math.round(side * 0.75), 400 * 1024));
+
+describe("screenImageUrls", () => {
+  it("drops site assets, eBay thumbnails and repeats", () => {
+    const { urls, rejected } = screenImageUrls([
+      "https://i.ebayimg.com/images/g/abc/s-l1600.jpg",
+      "https://i.ebayimg.com/images/g/abc/s-l1600.jpg",
+      "https://i.ebayimg.com/images/g/abc/s-l140.jpg",
+      "https://ir.ebaystatic.com/cr/v/c1/logo_200x200.png",
+      "https://example.com/img/payment-icons.png?v=2",
+      "https://example.com/photos/blanket-detail.jpg",
+    ]);
+    expect(urls).toEqual(["https://i.ebayimg.com/images/g/abc/s-l1600.jpg", "https://example.com/photos/blanket-detail.jpg"]);
+    expect(rejected.map((entry) => entry.reason)).toEqual(["thumbnail size", "looks like a logo or site asset", "looks like a logo or site asset"]);
+  });
+});
+
+describe("assessImages", () => {
+  it("keeps photos and says why the rest were skipped", () => {
+    const { photos, rejected } = assessImages([
+      photo("https://example.com/front.png", 2000),
+      image("https://example.com/tiny.png", header("png", 120, 120, 2048)),
+      image("https://example.com/banner.png", header("png", 1800, 300, 200 * 1024)),
+      image("https://example.com/spin.gif", header("gif", 600, 600, 90 * 1024)),
+      image("https://example.com/page.html", new TextEncoder().encode("<html></html>")),
+    ]);
+    expect(photos).toMatchObject([{ url: "https://example.com/front.png", width: 2000, height: 1500, grade: 1 }]);
+    expect(rejected.map((entry) => entry.reason)).toEqual([
+      "tiny asset (120×120, 2 KB)",
+      "banner-shaped (1800×300)",
+      "GIF, likely an animation or graphic",
+      "not a readable image",
+    ]);
+  });
+
+  it("marks down heavily compressed JPEGs", () => {
+    const [assessed] = assessImages([image("https://example.com/soft.jpg", header("jpeg", 2000, 1500, 100 * 1024))]).photos;
+    expect(assessed).toMatchObject({ grade: 0.8, notes: ["2000×1500", "heavily compressed"] });
+  });
+});
+
+describe("imageQualityToCheck", () => {
+  it("grades the best three photos", () => {
+    const assessment = assessImages([
+      photo("https://example.com/a.png", 2000),
+      photo("https://example.com/b.png", 1200),
+      photo("https://example.com/c.png", 1700),
+      photo("https://example.com/d.png", 400),
+    ]);
+    expect(imageQualityToCheck(assessment)).toMatchObject({
+      value: "Good",
+      grade: 0.93,
+      detail: "4 usable photos, quality 93/100.",
+      reasons: ["Best photo 2000×1500.", "Low-resolution photo 400×300."],
+    });
+  });
+
+  it("has nothing to grade without usable photos", () => {
+    const check = imageQualityToCheck(assessImages([], [{ url: "https://example.com/logo.png", reason: "looks like a logo or site asset" }]));
+    expect(check).toMatchObject({ value: "Missing evidence", grade: 0, reasons: ["1 image ignored (looks like a logo or site asset)."] });
+  });
+});
+
+describe("detailShotsToCheck", () => {
+  const photos = ["front", "back", "signature", "edge"].map((name) => photo(`https://example.com/${name}.png`, 1600));
+
+  it("passes four distinct high-resolution photos", () => {
+    expect(detailShotsToCheck(assessImages(photos), []).value).toBe("Good");
+  });
+
+  it("counts resized copies of one photo once", () => {
+    const hashes = photos.map((entry, index) => ({ imageUrl: entry.url, hash: index < 3 ? "ffff0000ffff0000" : "0000ffff0000ffff" }));
+    const check = detailShotsToCheck(assessImages(photos), hashes);
+    expect(check).toMatchObject({ value: "Needs review", reasons: ["2 distinct photos, 2 at 1000px or more.", "2 duplicate or resized copies not counted."] });
+  });
+
+  it("reports a single high-resolution photo as missing detail shots", () => {
+    expect(detailShotsToCheck(assessImages([photos[0], photo("https://example.com/small.png", 700)]), []).detail).toBe(
+      "Only one high-resolution photo; no detail shots."
+    );
+  });
+});
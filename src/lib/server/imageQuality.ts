@@ -0,0 +1,175 @@
+import { FetchedImage, hammingDistance, ImageFormat, readImageInfo, SAME_PHOTO_DISTANCE } from "./images";
+import { ListingImageHash } from "./photoReuse";
+import { SnapshotBucketCheck } from "./types";
+
+const MIN_PHOTO_SIDE = 300;
+const MIN_PHOTO_BYTES = 8 * 1024;
+const MAX_ASPECT_RATIO = 3;
+const HIGH_RES_SIDE = 1600;
+const DETAIL_SIDE = 1000;
+const MEDIUM_RES_SIDE = 600;
+// Below this many bits per pixel a JPEG has usually been recompressed hard enough to smear detail.
+const HEAVY_COMPRESSION_BPP = 0.4;
+const DETAIL_TARGET = 4;
+// Marketplace chrome and seller branding rather than photos of the work.
+const ASSET_URL_PATTERN = /(?:^|[/_.-])(?:logo|icons?|sprite|favicon|avatar|badge|placeholder|spinner|pixel|spacer|blank|banner|payment|flags?)(?:[/_.-]|$)/i;
+// eBay thumbnails (s-l64, s-l140, s-l225); larger s-l sizes are real photos.
+const EBAY_THUMBNAIL_PATTERN = /ebayimg\.com\/.*\/s-l(?:\d{1,2}|1\d{2}|2[0-4]\d)\./i;
+
+export type AssessedPhoto = {
+  url: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  bytes: number;
+  // 0-1, from resolution with a penalty for heavy compression.
+  grade: number;
+  notes: string[];
+};
+
+export type RejectedImage = { url: string; reason: string };
+
+export type ImageAssessment = {
+  photos: AssessedPhoto[];
+  rejected: RejectedImage[];
+};
+
+export function screenImageUrls(urls: string[]): { urls: string[]; rejected: RejectedImage[] } {
+  const kept: string[] = [];
+  const rejected: RejectedImage[] = [];
+  for (const url of [...new Set(urls)]) {
+    if (ASSET_URL_PATTERN.test(url.split("?")[0])) rejected.push({ url, reason: "looks like a logo or site asset" });
+    else if (EBAY_THUMBNAIL_PATTERN.test(url)) rejected.push({ url, reason: "thumbnail size" });
+    else kept.push(url);
+  }
+  return { urls: kept, rejected };
+}
+
+function resolutionGrade(longest: number): number {
+  if (longest >= HIGH_RES_SIDE) return 1;
+  if (longest >= DETAIL_SIDE) return 0.8;
+  if (longest >= MEDIUM_RES_SIDE) return 0.55;
+  return 0.3;
+}
+
+function assessPhoto(image: FetchedImage): AssessedPhoto | RejectedImage {
+  const info = readImageInfo(image.bytes);
+  if (!info) return { url: image.url, reason: "not a readable image" };
+  const longest = Math.max(info.width, info.height);
+  const shortest = Math.min(info.width, info.height);
+  if (longest < MIN_PHOTO_SIDE || image.bytes.length < MIN_PHOTO_BYTES) {
+    return { url: image.url, reason: `tiny asset (${info.width}×${info.height}, ${Math.round(image.bytes.length / 1024)} KB)` };
+  }
+  if (longest / shortest > MAX_ASPECT_RATIO) {
+    return { url: image.url, reason: `banner-shaped (${info.width}×${info.height})` };
+  }
+  if (info.format === "gif") return { url: image.url, reason: "GIF, likely an animation or graphic" };
+
+  const notes = [`${info.width}×${info.height}`];
+  let grade = resolutionGrade(longest);
+  const bitsPerPixel = (image.bytes.length * 8) / (info.width * info.height);
+  if (info.format === "jpeg" && bitsPerPixel < HEAVY_COMPRESSION_BPP) {
+    grade = Math.max(0.1, grade - 0.2);
+    notes.push("heavily compressed");
+  }
+  return { url: image.url, format: info.format, width: info.width, height: info.height, bytes: image.bytes.length, grade, notes };
+}
+
+export function assessImages(images: FetchedImage[], rejected: RejectedImage[] = []): ImageAssessment {
+  const photos: AssessedPhoto[] = [];
+  const skipped = [...rejected];
+  for (const image of images) {
+    const result = assessPhoto(image);
+    if ("grade" in result) photos.push(result);
+    else skipped.push(result);
+  }
+  return { photos, rejected: skipped };
+}
+
+// Keeps one photo per perceptual-hash cluster, preferring the sharpest copy.
+function distinctPhotos(photos: AssessedPhoto[], hashes: ListingImageHash[]): AssessedPhoto[] {
+  const hashOf = new Map(hashes.map((entry) => [entry.imageUrl, entry.hash]));
+  const kept: AssessedPhoto[] = [];
+  for (const photo of [...photos].sort((a, b) => b.width * b.height - a.width * a.height)) {
+    const hash = hashOf.get(photo.url);
+    const duplicate = hash
+      ? kept.some((other) => {
+          const otherHash = hashOf.get(other.url);
+          return otherHash !== undefined && hammingDistance(hash, otherHash) <= SAME_PHOTO_DISTANCE;
+        })
+      : false;
+    if (!duplicate) kept.push(photo);
+  }
+  return kept;
+}
+
+function describeRejected(rejected: RejectedImage[]): string | undefined {
+  if (!rejected.length) return undefined;
+  return `${rejected.length} image${rejected.length === 1 ? "" : "s"} ignored (${[...new Set(rejected.map((entry) => entry.reason))].join("; ")}).`;
+}
+
+function gradedValue(grade: number): SnapshotBucketCheck["value"] {
+  if (grade >= 0.75) return "Good";
+  if (grade >= 0.45) return "Needs review";
+  return "Missing evidence";
+}
+
+export function imageQualityToCheck(assessment: ImageAssessment): SnapshotBucketCheck {
+  const label = "Image quality score";
+  const ignored = describeRejected(assessment.rejected);
+  if (!assessment.photos.length) {
+    return {
+      label,
+      value: "Missing evidence",
+      detail: "No usable listing photos could be downloaded.",
+      grade: 0,
+      reasons: ignored ? [ignored] : [],
+    };
+  }
+  // The best three photos carry the grade; a listing is judged by what it shows, not its weakest extra.
+  const top = [...assessment.photos].sort((a, b) => b.grade - a.grade).slice(0, 3);
+  const grade = Math.round((top.reduce((sum, photo) => sum + photo.grade, 0) / top.length) * 100) / 100;
+  const best = top[0];
+  const reasons = [
+    `Best photo ${best.notes.join(", ")}.`,
+    ...assessment.photos.filter((photo) => photo !== best && photo.grade < 0.55).map((photo) => `Low-resolution photo ${photo.notes.join(", ")}.`),
+  ];
+  if (ignored) reasons.push(ignored);
+  return {
+    label,
+    value: gradedValue(grade),
+    detail: `${assessment.photos.length} usable photo${assessment.photos.length === 1 ? "" : "s"}, quality ${Math.round(grade * 100)}/100.`,
+    grade,
+    reasons,
+  };
+}
+
+export function detailShotsToCheck(assessment: ImageAssessment, hashes: ListingImageHash[]): SnapshotBucketCheck {
+  const label = "Detail shots";
+  const distinct = distinctPhotos(assessment.photos, hashes);
+  const detailed = distinct.filter((photo) => Math.max(photo.width, photo.height) >= DETAIL_SIDE);
+  const grade = Math.min(1, detailed.length / DETAIL_TARGET);
+  const reasons = [`${distinct.length} distinct photo${distinct.length === 1 ? "" : "s"}, ${detailed.length} at ${DETAIL_SIDE}px or more.`];
+  if (distinct.length < assessment.photos.length) {
+    reasons.push(`${assessment.photos.length - distinct.length} duplicate or resized cop${assessment.photos.length - distinct.length === 1 ? "y" : "ies"} not counted.`);
+  }
+  if (detailed.length >= DETAIL_TARGET) {
+    return { label, value: "Good", detail: `${detailed.length} distinct high-resolution photos cover the work.`, grade, reasons };
+  }
+  if (detailed.length >= 2) {
+    return {
+      label,
+      value: "Needs review",
+      detail: `Only ${detailed.length} distinct high-resolution photos — ask for close-ups of the signature, edge and back.`,
+      grade,
+      reasons,
+    };
+  }
+  return {
+    label,
+    value: "Missing evidence",
+    detail: detailed.length ? "Only one high-resolution photo; no detail shots." : "No high-resolution photos to inspect details.",
+    grade,
+    reasons,
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { readImageInfo, sniffImageFormat } from "./format";
+
+const bytes = (...parts: Array<number[] | string>) =>
+  Uint8Array.from(parts.flatMap((part) => (typeof part === "string" ? [...Buffer.from(part, "latin1")] : part)));
+
+const le16 = (value: number) => [value & 255, value >> 8];
+const be16 = (value: number) => [value >> 8, value & 255];
+const be32 = (value: number) => [value >>> 24, (value >> 16) & 255, (value >> 8) & 255, value & 255];
+
+describe("readImageInfo", () => {
+  it("reads the frame size after other JPEG segments", () => {
+    const app0 = [0xff, 0xe0, 0, 16, ...bytes("JFIF\0"), 1, 1, 0, 0, 1, 0, 1, 0, 0];
+    const sof2 = [0xff, 0xc2, 0, 11, 8, ...be16(8195), ...be16(4100), 1, 1, 0x11, 0];
+    expect(readImageInfo(bytes([0xff, 0xd8], app0, sof2))).toEqual({ format: "jpeg", width: 4100, height: 8195 });
+  });
+
+  it("reads PNG, GIF and WebP headers", () => {
+    const png = bytes([0x89], "PNG\r\n\x1a\n", be32(13), "IHDR", be32(1600), be32(1200));
+    expect(readImageInfo(png)).toEqual({ format: "png", width: 1600, height: 1200 });
+    expect(readImageInfo(bytes("GIF89a", le16(320), le16(240)))).toEqual({ format: "gif", width: 320, height: 240 });
+    const vp8x = bytes("RIFF", [0, 0, 0, 0], "WEBPVP8X", [10, 0, 0, 0], [0, 0, 0, 0], [0x7f, 0x07, 0], [0x37, 0x04, 0]);
+    expect(readImageInfo(vp8x)).toEqual({ format: "webp", width: 1920, height: 1080 });
+  });
+
+  it("returns nothing for unknown or sizeless files", () => {
+    expect(sniffImageFormat(bytes("<html>"))).toBeUndefined();
+    expect(readImageInfo(bytes("<html>"))).toBeUndefined();
+    expect(readImageInfo(bytes([0xff, 0xd8, 0xff, 0xd9]))).toBeUndefined();
+    expect(readImageInfo(bytes("GIF89a", le16(0), le16(0)))).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { ImageFormat } from "./types";
+
+export type ImageInfo = {
+  format: ImageFormat;
+  width: number;
+  height: number;
+};
+
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | undefined {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return "gif";
+  if (String.fromCharCode(...bytes.subarray(0, 4)) === "RIFF" && String.fromCharCode(...bytes.subarray(8, 12)) === "WEBP") {
+    return "webp";
+  }
+  return undefined;
+}
+
+function readJpegSize(bytes: Uint8Array): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xff || marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    // Any start-of-frame marker carries the size; C4, C8 and CC are tables, not frames.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      };
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return undefined;
+}
+
+function readWebpSize(bytes: Uint8Array): { width: number; height: number } | undefined {
+  const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+  if (chunk === "VP8 " && bytes.length >= 30) {
+    return { width: (bytes[26] | (bytes[27] << 8)) & 0x3fff, height: (bytes[28] | (bytes[29] << 8)) & 0x3fff };
+  }
+  if (chunk === "VP8L" && bytes.length >= 25) {
+    const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X" && bytes.length >= 30) {
+    return {
+      width: (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1,
+      height: (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1,
+    };
+  }
+  return undefined;
+}
+
+// Reads pixel dimensions from the file header without decoding the image.
+export function readImageInfo(bytes: Uint8Array): ImageInfo | undefined {
+  const format = sniffImageFormat(bytes);
+  if (!format) return undefined;
+  let size: { width: number; height: number } | undefined;
+  if (format === "jpeg") size = readJpegSize(bytes);
+  if (format === "png" && bytes.length >= 24) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    size = { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (format === "gif" && bytes.length >= 10) {
+    size = { width: bytes[6] | (bytes[7] << 8), height: bytes[8] | (bytes[9] << 8) };
+  }
+  if (format === "webp") size = readWebpSize(bytes);
+  return size && size.width && size.height ? { format, ...size } : undefined;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { hammingDistance, perceptualHash, SAME_PHOTO_DISTANCE } from "./hash";
+import { GrayImage } from "./types";
+
+function image(size: number, shade: (x: number, y: number) => number): GrayImage {
+  const pixels = new Uint8Array(size * size);
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) pixels[y * size + x] = Math.max(0, Math.min(255, Math.round(shade(x / size, y / size))));
+  }
+  return { width: size, height: size, pixels };
+}
+
+// A soft diagonal scene with a bright disc, standing in for a photographed print.
+const scene = (x: number, y: number) => 60 + 100 * x + 40 * y + ((x - 0.3) ** 2 + (y - 0.6) ** 2 < 0.04 ? 80 : 0);
+
+describe("perceptualHash", () => {
+  it("gives the same photo at another size a nearby hash", () => {
+    const large = perceptualHash(image(256, scene))!;
+    const small = perceptualHash(image(40, scene))!;
+    expect(large).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(large, small)).toBeLessThanOrEqual(SAME_PHOTO_DISTANCE);
+  });
+
+  it("survives a brightness change but not a different picture", () => {
+    const original = perceptualHash(image(64, scene))!;
+    expect(hammingDistance(original, perceptualHash(image(64, (x, y) => scene(x, y) * 0.8 + 20))!)).toBeLessThanOrEqual(SAME_PHOTO_DISTANCE);
+    expect(hammingDistance(original, perceptualHash(image(64, (x, y) => scene(1 - x, 1 - y)))!)).toBeGreaterThan(SAME_PHOTO_DISTANCE);
+  });
+
+  it("needs at least a 4x4 image", () => {
+    expect(perceptualHash(image(3, scene))).toBeUndefined();
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000", "0000")).toBe(0);
+    expect(hammingDistance("000f", "0001")).toBe(3);
+    expect(hammingDistance("ffff", "0000")).toBe(16);
+  });
+
+  it("treats hashes of different lengths as unrelated", () => {
+    expect(hammingDistance("00", "000")).toBe(Number.POSITIVE_INFINITY);
+  });
+});
@@ -0,0 +1,70 @@
+import { GrayImage } from "./types";
+
+const SAMPLE_SIZE = 32;
+const HASH_SIZE = 8;
+// Hashes this close (out of 64 bits) are treated as the same photo, even after resizing or recompression.
+export const SAME_PHOTO_DISTANCE = 8;
+
+const COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Float64Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE)))
+);
+
+// Box-averages the image down (or samples it up) to a fixed square.
+function resample(image: GrayImage, size: number): Float64Array {
+  const out = new Float64Array(size * size);
+  for (let y = 0; y < size; y += 1) {
+    const top = Math.floor((y * image.height) / size);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / size));
+    for (let x = 0; x < size; x += 1) {
+      const left = Math.floor((x * image.width) / size);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / size));
+      let sum = 0;
+      for (let sy = top; sy < bottom; sy += 1) {
+        for (let sx = left; sx < right; sx += 1) sum += image.pixels[sy * image.width + sx];
+      }
+      out[y * size + x] = sum / ((bottom - top) * (right - left));
+    }
+  }
+  return out;
+}
+
+// pHash: the signs of the lowest DCT frequencies relative to their median.
+export function perceptualHash(image: GrayImage): string | undefined {
+  if (image.width < 4 || image.height < 4) return undefined;
+  const sample = resample(image, SAMPLE_SIZE);
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v += 1) {
+    for (let u = 0; u < HASH_SIZE; u += 1) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y += 1) {
+        const row = y * SAMPLE_SIZE;
+        let rowSum = 0;
+        for (let x = 0; x < SAMPLE_SIZE; x += 1) rowSum += sample[row + x] * COSINES[u][x];
+        sum += rowSum * COSINES[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+  // The DC term only reflects overall brightness, so it is left out of the median.
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+  let hex = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit += 1) nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
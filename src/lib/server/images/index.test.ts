@@ -0,0 +1,104 @@
+import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Route = { status: number; headers?: Record<string, string>; chunks?: Buffer[] };
+
+const network = vi.hoisted(() => ({
+  addresses: {} as Record<string, string>,
+  routes: {} as Record<string, Route>,
+  requested: [] as string[],
+  chunksRead: 0,
+}));
+
+vi.mock("node:dns", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node:dns")>()),
+  lookup: (hostname: string, _options: unknown, callback: (error: Error | null, addresses: Array<{ address: string; family: number }>) => void) => {
+    const address = network.addresses[hostname];
+    if (!address) return callback(new Error(`ENOTFOUND ${hostname}`), []);
+    callback(null, [{ address, family: 4 }]);
+  },
+}));
+
+// Connects only after the guarded lookup agrees, as the real agent does.
+vi.mock("node:https", () => ({
+  request: (url: URL, options: { lookup: (host: string, opts: object, cb: (error: Error | null) => void) => void }, onResponse: (res: Readable) => void) => {
+    const req = Object.assign(new EventEmitter(), {
+      res: undefined as Readable | undefined,
+      end() {
+        options.lookup(url.hostname, {}, (error) => {
+          if (error) return req.destroy(error);
+          network.requested.push(url.href);
+          const route = network.routes[url.href] ?? { status: 404 };
+          const res = Readable.from(
+            (function* () {
+              for (const chunk of route.chunks ?? []) {
+                network.chunksRead += 1;
+                yield chunk;
+              }
+            })()
+          );
+          req.res = Object.assign(res, { statusCode: route.status, headers: route.headers ?? {} });
+          onResponse(res);
+        });
+      },
+      destroy(error?: Error) {
+        req.res?.destroy();
+        if (error) req.emit("error", error);
+        req.emit("close");
+      },
+    });
+    return req;
+  },
+}));
+
+const { fetchListingImages } = await import("./index");
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xd9]);
+
+beforeEach(() => {
+  network.addresses = { "i.ebayimg.com": "23.50.1.1", "cdn.example.com": "93.184.216.34", "internal.example.com": "169.254.169.254" };
+  network.routes = {};
+  network.requested = [];
+  network.chunksRead = 0;
+});
+
+describe("fetchListingImages", () => {
+  it("downloads public https images and asks eBay for JPEG instead of WebP", async () => {
+    network.routes["https://i.ebayimg.com/images/g/abc/s-l1600.jpg"] = { status: 200, headers: { "content-type": "image/jpeg" }, chunks: [JPEG] };
+    network.routes["https://cdn.example.com/a.jpg"] = { status: 200, chunks: [JPEG] };
+    const images = await fetchListingImages(["https://i.ebayimg.com/images/g/abc/s-l1600.webp", "http://cdn.example.com/a.jpg"]);
+    expect(images.map((image) => image.url)).toEqual(["https://i.ebayimg.com/images/g/abc/s-l1600.webp", "http://cdn.example.com/a.jpg"]);
+    expect(images[0]).toMatchObject({ contentType: "image/jpeg", bytes: new Uint8Array(JPEG) });
+  });
+
+  it("never connects to private addresses, directly or through a redirect", async () => {
+    network.routes["https://cdn.example.com/moved.jpg"] = { status: 302, headers: { location: "https://internal.example.com/latest/meta-data" } };
+    network.routes["https://internal.example.com/latest/meta-data"] = { status: 200, chunks: [JPEG] };
+    const images = await fetchListingImages([
+      "https://cdn.example.com/moved.jpg",
+      "https://internal.example.com/a.jpg",
+      "https://127.0.0.1/a.jpg",
+      "https://[::1]/a.jpg",
+    ]);
+    expect(images).toEqual([]);
+    expect(network.requested).toEqual(["https://cdn.example.com/moved.jpg"]);
+  });
+
+  it("follows public redirects a few times at most", async () => {
+    network.routes["https://cdn.example.com/1.jpg"] = { status: 301, headers: { location: "/2.jpg" } };
+    network.routes["https://cdn.example.com/2.jpg"] = { status: 200, chunks: [JPEG] };
+    for (let hop = 0; hop < 5; hop += 1) network.routes[`https://cdn.example.com/loop${hop}`] = { status: 302, headers: { location: `/loop${hop + 1}` } };
+    const images = await fetchListingImages(["https://cdn.example.com/1.jpg", "https://cdn.example.com/loop0"]);
+    expect(images.map((image) => image.url)).toEqual(["https://cdn.example.com/1.jpg"]);
+  });
+
+  it("stops reading a body without a length once it passes the cap", async () => {
+    const megabyte = Buffer.alloc(1024 * 1024);
+    network.routes["https://cdn.example.com/huge.jpg"] = { status: 200, chunks: Array.from({ length: 20 }, () => megabyte) };
+    network.routes["https://cdn.example.com/declared.jpg"] = { status: 200, headers: { "content-length": String(50 * 1024 * 1024) }, chunks: [JPEG] };
+    expect(await fetchListingImages(["https://cdn.example.com/huge.jpg"])).toEqual([]);
+    expect(network.chunksRead).toBeLessThan(12);
+    expect(await fetchListingImages(["https://cdn.example.com/declared.jpg"])).toEqual([]);
+  });
+});
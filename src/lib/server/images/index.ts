@@ -0,0 +1,62 @@
+import { getPublicHttps } from "../notifications/publicHttps";
+import { sniffImageFormat } from "./format";
+import { perceptualHash } from "./hash";
+import { decodeJpegPreview } from "./jpeg";
+import { decodePng } from "./png";
+import { GrayImage } from "./types";
+
+export type { GrayImage, ImageFormat } from "./types";
+export { readImageInfo, sniffImageFormat, type ImageInfo } from "./format";
+export { readImageMetadata, type ImageMetadata } from "./metadata";
+export { hammingDistance, perceptualHash, SAME_PHOTO_DISTANCE } from "./hash";
+
+export type FetchedImage = {
+  url: string;
+  bytes: Uint8Array;
+  contentType?: string;
+};
+
+const MAX_IMAGES = 8;
+const IMAGE_TIMEOUT_MS = 8000;
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+// eBay serves WebP by extension; the same photo is available as JPEG, which we can decode.
+// Images are only fetched over https; marketplace CDNs serve both.
+function preferDecodableUrl(url: string): string {
+  const secure = url.replace(/^http:\/\//i, "https://");
+  return /ebayimg\.com/i.test(secure) ? secure.replace(/\.webp(\?|$)/i, ".jpg$1") : secure;
+}
+
+// Image URLs come from scraped HTML, so they get the same public-address guard as webhooks.
+async function fetchImage(url: string): Promise<FetchedImage | undefined> {
+  try {
+    const response = await getPublicHttps(preferDecodableUrl(url), {
+      headers: { Accept: "image/jpeg,image/png;q=0.9,image/*;q=0.5", "User-Agent": "ArtDetectiveWeb/1.0" },
+      timeoutMs: IMAGE_TIMEOUT_MS,
+      maxBytes: MAX_IMAGE_BYTES,
+    });
+    if (response.status < 200 || response.status >= 300 || !response.body.length) return undefined;
+    const contentType = response.headers["content-type"];
+    return { url, bytes: new Uint8Array(response.body), contentType };
+  } catch {
+    return undefined;
+  }
+}
+
+// Failed downloads are dropped rather than failing the snapshot.
+export async function fetchListingImages(urls: string[]): Promise<FetchedImage[]> {
+  const results = await Promise.all(urls.slice(0, MAX_IMAGES).map(fetchImage));
+  return results.filter((image): image is FetchedImage => Boolean(image));
+}
+
+export function decodeGray(bytes: Uint8Array): GrayImage | undefined {
+  const format = sniffImageFormat(bytes);
+  if (format === "jpeg") return decodeJpegPreview(bytes);
+  if (format === "png") return decodePng(bytes);
+  return undefined;
+}
+
+export function hashImage(bytes: Uint8Array): string | undefined {
+  const image = decodeGray(bytes);
+  return image ? perceptualHash(image) : undefined;
+}
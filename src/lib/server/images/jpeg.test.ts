@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { decodeJpegPreview } from "./jpeg";
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 255, ...body];
+}
+
+// DC sizes 0-11 all get 4-bit codes (size n is code n); the only AC symbol is end-of-block, coded as a single 0 bit.
+const DC_COUNTS = [0, 0, 0, 12, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+const AC_COUNTS = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+function bitWriter() {
+  const bits: number[] = [];
+  return {
+    write(value: number, length: number) {
+      for (let i = length - 1; i >= 0; i -= 1) bits.push((value >> i) & 1);
+    },
+    // Pads with 1 bits and stuffs a zero after every 0xFF.
+    flush(): number[] {
+      while (bits.length % 8) bits.push(1);
+      const bytes: number[] = [];
+      for (let i = 0; i < bits.length; i += 8) {
+        const byte = bits.slice(i, i + 8).reduce((value, bit) => (value << 1) | bit, 0);
+        bytes.push(byte, ...(byte === 0xff ? [0] : []));
+      }
+      bits.length = 0;
+      return bytes;
+    },
+  };
+}
+
+function writeBlock(writer: ReturnType<typeof bitWriter>, diff: number): void {
+  const size = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+  writer.write(size, 4);
+  if (size) writer.write(diff > 0 ? diff : diff + (1 << size) - 1, size);
+  writer.write(0, 1);
+}
+
+type Options = { chroma?: boolean; restartInterval?: number; sof?: number; dcTables?: boolean };
+
+// A baseline JPEG whose 8x8 blocks are flat, so block means are exact. With chroma, luma is sampled 2x2 per MCU.
+function jpeg(blockMeans: number[][], options: Options = {}): Uint8Array {
+  const rows = blockMeans.length;
+  const columns = blockMeans[0].length;
+  const components = options.chroma ? [[1, 0x22, 0], [2, 0x11, 0], [3, 0x11, 0]] : [[1, 0x11, 0]];
+  const header = [
+    0xff, 0xd8,
+    ...segment(0xdb, [0, ...new Array(64).fill(1)]),
+    ...segment(options.sof ?? 0xc0, [8, 0, rows * 8, 0, columns * 8, components.length, ...components.flat()]),
+    ...(options.dcTables === false ? [] : segment(0xc4, [0x00, ...DC_COUNTS, ...Array.from({ length: 12 }, (_, size) => size)])),
+    ...segment(0xc4, [0x10, ...AC_COUNTS, 0]),
+    ...(options.restartInterval ? segment(0xdd, [0, options.restartInterval]) : []),
+    ...segment(0xda, [components.length, ...components.flatMap(([id]) => [id, 0x00]), 0, 63, 0]),
+  ];
+
+  // Luma blocks in decoding order: raster order, or 2x2 groups per MCU when chroma is interleaved.
+  const units: number[][] = [];
+  if (options.chroma) {
+    for (let y = 0; y < rows; y += 2) {
+      for (let x = 0; x < columns; x += 2) units.push([blockMeans[y][x], blockMeans[y][x + 1], blockMeans[y + 1][x], blockMeans[y + 1][x + 1]]);
+    }
+  } else {
+    for (const row of blockMeans) for (const mean of row) units.push([mean]);
+  }
+
+  const writer = bitWriter();
+  const data: number[] = [];
+  let previous = 0;
+  units.forEach((blocks, index) => {
+    if (options.restartInterval && index > 0 && index % options.restartInterval === 0) {
+      data.push(...writer.flush(), 0xff, 0xd0 + ((index / options.restartInterval - 1) % 8));
+      previous = 0;
+    }
+    for (const mean of blocks) {
+      const dc = (mean - 128) * 8;
+      writeBlock(writer, dc - previous);
+      previous = dc;
+    }
+    // Flat chroma: a zero DC difference for Cb and Cr.
+    if (options.chroma) {
+      writeBlock(writer, 0);
+      writeBlock(writer, 0);
+    }
+  });
+  data.push(...writer.flush());
+  return Uint8Array.from([...header, ...data, 0xff, 0xd9]);
+}
+
+const MEANS = [
+  [0, 64, 128, 255],
+  [255, 200, 100, 10],
+  [30, 60, 90, 120],
+  [250, 5, 180, 77],
+];
+
+describe("decodeJpegPreview", () => {
+  it("returns one pixel per 8x8 block", () => {
+    expect(decodeJpegPreview(jpeg(MEANS))).toEqual({ width: 4, height: 4, pixels: Uint8Array.from(MEANS.flat()) });
+  });
+
+  it("places luma blocks from interleaved, subsampled MCUs", () => {
+    expect(Array.from(decodeJpegPreview(jpeg(MEANS, { chroma: true }))!.pixels)).toEqual(MEANS.flat());
+  });
+
+  it("resets predictions at restart markers", () => {
+    expect(Array.from(decodeJpegPreview(jpeg(MEANS, { restartInterval: 3 }))!.pixels)).toEqual(MEANS.flat());
+  });
+
+  it("rejects other files, arithmetic coding and missing tables", () => {
+    expect(decodeJpegPreview(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]))).toBeUndefined();
+    expect(decodeJpegPreview(jpeg(MEANS, { sof: 0xc9 }))).toBeUndefined();
+    expect(decodeJpegPreview(jpeg(MEANS, { dcTables: false }))).toBeUndefined();
+  });
+
+  it("rejects a segment that runs past the end of the file", () => {
+    const bytes = jpeg(MEANS);
+    expect(decodeJpegPreview(bytes.subarray(0, 30))).toBeUndefined();
+  });
+});
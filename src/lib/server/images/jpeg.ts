@@ -0,0 +1,304 @@
+import { GrayImage } from "./types";
+
+type HuffmanTable = {
+  // For each code length (1-16): the largest code of that length, or -1.
+  maxCode: Int32Array;
+  // Offset into `values` minus the first code of that length.
+  offset: Int32Array;
+  values: Uint8Array;
+};
+
+type FrameComponent = { id: number; h: number; v: number; quantTable: number };
+
+type Frame = {
+  width: number;
+  height: number;
+  progressive: boolean;
+  components: FrameComponent[];
+};
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const offset = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length += 1) {
+    const count = counts[length - 1];
+    offset[length] = index - code;
+    if (count) {
+      code += count;
+      index += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  return { maxCode, offset, values };
+}
+
+type BitReader = {
+  receive: (length: number) => number;
+  decode: (table: HuffmanTable) => number;
+  restart: () => void;
+};
+
+function isRestartMarker(data: Uint8Array, position: number): boolean {
+  return data[position] === 0xff && data[position + 1] >= 0xd0 && data[position + 1] <= 0xd7;
+}
+
+// Reads entropy-coded bits, undoing 0xFF00 byte stuffing; stops at the next marker.
+function createBitReader(data: Uint8Array, start: number): BitReader {
+  let position = start;
+  let bits = 0;
+  let count = 0;
+  let atMarker = false;
+
+  const readBit = (): number => {
+    if (count === 0) {
+      if (atMarker || position >= data.length) return 0;
+      let byte = data[position++];
+      if (byte === 0xff) {
+        if (data[position] === 0x00) {
+          position += 1;
+        } else {
+          atMarker = true;
+          position -= 1;
+          byte = 0;
+        }
+      }
+      bits = byte;
+      count = 8;
+    }
+    count -= 1;
+    return (bits >> count) & 1;
+  };
+
+  const receive = (length: number): number => {
+    let value = 0;
+    for (let i = 0; i < length; i += 1) value = (value << 1) | readBit();
+    return value;
+  };
+
+  const decode = (table: HuffmanTable): number => {
+    let code = 0;
+    for (let length = 1; length <= 16; length += 1) {
+      code = (code << 1) | readBit();
+      if (code <= table.maxCode[length]) return table.values[table.offset[length] + code];
+    }
+    throw new Error("Corrupt JPEG Huffman data.");
+  };
+
+  // Skips the RSTn marker between restart intervals and starts on a fresh byte.
+  const restart = (): void => {
+    count = 0;
+    while (!atMarker && position + 1 < data.length && !isRestartMarker(data, position)) position += 1;
+    if (isRestartMarker(data, position)) position += 2;
+    atMarker = false;
+  };
+
+  return { receive, decode, restart };
+}
+
+function extend(value: number, length: number): number {
+  return length && value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+// Decodes only the DC coefficient of every luminance block, giving a 1/8-scale grayscale preview.
+// That is enough for hashing, avoids the inverse DCT, and for progressive files needs only the first scan.
+export function decodeJpegPreview(data: Uint8Array): GrayImage | undefined {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+  const quantTables = new Map<number, Uint16Array>();
+  const dcTables = new Map<number, HuffmanTable>();
+  const acTables = new Map<number, HuffmanTable>();
+  let frame: Frame | undefined;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9) break;
+    const length = readUint16(data, offset + 2);
+    const start = offset + 4;
+    const end = offset + 2 + length;
+    if (end > data.length) return undefined;
+
+    if (marker === 0xdb) {
+      for (let p = start; p < end; ) {
+        const precision = data[p] >> 4;
+        const id = data[p] & 15;
+        const table = new Uint16Array(64);
+        for (let i = 0; i < 64; i += 1) table[i] = precision ? readUint16(data, p + 1 + i * 2) : data[p + 1 + i];
+        quantTables.set(id, table);
+        p += 1 + (precision ? 128 : 64);
+      }
+    } else if (marker === 0xc4) {
+      for (let p = start; p < end; ) {
+        const tableClass = data[p] >> 4;
+        const id = data[p] & 15;
+        const counts = data.subarray(p + 1, p + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(counts, data.subarray(p + 17, p + 17 + total));
+        (tableClass === 0 ? dcTables : acTables).set(id, table);
+        p += 17 + total;
+      }
+    } else if (marker === 0xdd) {
+      restartInterval = readUint16(data, start);
+    } else if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      const count = data[start + 5];
+      const components: FrameComponent[] = [];
+      for (let i = 0; i < count; i += 1) {
+        const base = start + 6 + i * 3;
+        components.push({ id: data[base], h: data[base + 1] >> 4, v: data[base + 1] & 15, quantTable: data[base + 2] });
+      }
+      frame = {
+        height: readUint16(data, start + 1),
+        width: readUint16(data, start + 3),
+        progressive: marker === 0xc2,
+        components,
+      };
+    } else if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      // Lossless, hierarchical and arithmetic-coded JPEGs are rare on marketplaces.
+      return undefined;
+    } else if (marker === 0xda) {
+      if (!frame) return undefined;
+      const scanCount = data[start];
+      const scan: Array<{ component: FrameComponent; dc: number; ac: number }> = [];
+      for (let i = 0; i < scanCount; i += 1) {
+        const component = frame.components.find((entry) => entry.id === data[start + 1 + i * 2]);
+        if (!component) return undefined;
+        const selectors = data[start + 2 + i * 2];
+        scan.push({ component, dc: selectors >> 4, ac: selectors & 15 });
+      }
+      const tail = start + 1 + scanCount * 2;
+      const spectralStart = data[tail];
+      const approximation = data[tail + 2];
+      const luma = frame.components[0];
+      const includesLuma = scan.some((entry) => entry.component === luma);
+      // Only the first scan carrying luminance DC values is needed.
+      if (includesLuma && spectralStart === 0 && approximation >> 4 === 0) {
+        return decodeDcScan(data, end, frame, scan, quantTables, dcTables, acTables, restartInterval, approximation & 15);
+      }
+      offset = skipEntropyData(data, end);
+      continue;
+    }
+    offset = end;
+  }
+  return undefined;
+}
+
+function skipEntropyData(data: Uint8Array, from: number): number {
+  let position = from;
+  while (position + 1 < data.length) {
+    if (data[position] === 0xff && data[position + 1] !== 0x00 && !isRestartMarker(data, position)) {
+      return position;
+    }
+    position += 1;
+  }
+  return data.length;
+}
+
+function decodeDcScan(
+  data: Uint8Array,
+  from: number,
+  frame: Frame,
+  scan: Array<{ component: FrameComponent; dc: number; ac: number }>,
+  quantTables: Map<number, Uint16Array>,
+  dcTables: Map<number, HuffmanTable>,
+  acTables: Map<number, HuffmanTable>,
+  restartInterval: number,
+  successiveLow: number
+): GrayImage | undefined {
+  const luma = frame.components[0];
+  const maxH = Math.max(...frame.components.map((component) => component.h));
+  const maxV = Math.max(...frame.components.map((component) => component.v));
+  const lumaWidth = Math.ceil(Math.ceil((frame.width * luma.h) / maxH) / 8);
+  const lumaHeight = Math.ceil(Math.ceil((frame.height * luma.v) / maxV) / 8);
+  const mcusPerLine = Math.ceil(frame.width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(frame.height / (8 * maxV));
+  const gridWidth = scan.length === 1 ? lumaWidth : mcusPerLine * luma.h;
+  const gridHeight = scan.length === 1 ? lumaHeight : mcusPerColumn * luma.v;
+  const grid = new Float32Array(gridWidth * gridHeight);
+  const quant = quantTables.get(luma.quantTable)?.[0] ?? 1;
+  const predictors = new Map<FrameComponent, number>();
+  const reader = createBitReader(data, from);
+  // Baseline scans interleave AC data that has to be decoded to reach the next block.
+  const skipAc = !frame.progressive;
+
+  const readBlock = (entry: { component: FrameComponent; dc: number; ac: number }): number => {
+    const dcTable = dcTables.get(entry.dc);
+    if (!dcTable) throw new Error("Missing JPEG DC table.");
+    const size = reader.decode(dcTable);
+    const diff = size ? extend(reader.receive(size), size) : 0;
+    const value = (predictors.get(entry.component) ?? 0) + diff;
+    predictors.set(entry.component, value);
+    if (skipAc) {
+      const acTable = acTables.get(entry.ac);
+      if (!acTable) throw new Error("Missing JPEG AC table.");
+      for (let k = 1; k < 64; ) {
+        const symbol = reader.decode(acTable);
+        const run = symbol >> 4;
+        const bits = symbol & 15;
+        if (!bits) {
+          if (run !== 15) break;
+          k += 16;
+          continue;
+        }
+        reader.receive(bits);
+        k += run + 1;
+      }
+    }
+    return value << successiveLow;
+  };
+
+  const totalUnits = scan.length === 1 ? lumaWidth * lumaHeight : mcusPerLine * mcusPerColumn;
+  try {
+    for (let unit = 0; unit < totalUnits; unit += 1) {
+      if (restartInterval && unit > 0 && unit % restartInterval === 0) {
+        reader.restart();
+        predictors.clear();
+      }
+      if (scan.length === 1) {
+        const value = readBlock(scan[0]);
+        grid[unit] = value;
+        continue;
+      }
+      const mcuX = unit % mcusPerLine;
+      const mcuY = Math.floor(unit / mcusPerLine);
+      for (const entry of scan) {
+        for (let v = 0; v < entry.component.v; v += 1) {
+          for (let h = 0; h < entry.component.h; h += 1) {
+            const value = readBlock(entry);
+            if (entry.component === luma) grid[(mcuY * luma.v + v) * gridWidth + mcuX * luma.h + h] = value;
+          }
+        }
+      }
+    }
+  } catch {
+    return undefined;
+  }
+
+  // A DC coefficient is eight times the block mean, level-shifted by 128.
+  const pixels = new Uint8Array(lumaWidth * lumaHeight);
+  for (let y = 0; y < lumaHeight; y += 1) {
+    for (let x = 0; x < lumaWidth; x += 1) {
+      const mean = (grid[y * gridWidth + x] * quant) / 8 + 128;
+      pixels[y * lumaWidth + x] = Math.max(0, Math.min(255, Math.round(mean)));
+    }
+  }
+  return { width: lumaWidth, height: lumaHeight, pixels };
+}
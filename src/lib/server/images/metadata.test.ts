@@ -0,0 +1,153 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { readImageMetadata } from "./metadata";
+
+type Tag = [tag: number, value: string | number];
+
+const EXIF_IFD = 200;
+const GPS_IFD = 300;
+const IFD1 = 400;
+const STRINGS = 600;
+const THUMBNAIL = 1000;
+
+// A little- or big-endian TIFF block: IFD0, optional EXIF and GPS directories, and IFD1 pointing at a thumbnail.
+function tiff(ifd0: Tag[], options: { exif?: Tag[]; gps?: Tag[]; thumbnail?: Uint8Array; bigEndian?: boolean } = {}): Uint8Array {
+  const bytes = new Uint8Array(THUMBNAIL + (options.thumbnail?.length ?? 0));
+  const view = new DataView(bytes.buffer);
+  const little = !options.bigEndian;
+  let cursor = STRINGS;
+  bytes.set(little ? [0x49, 0x49] : [0x4d, 0x4d]);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  const writeIfd = (offset: number, tags: Tag[], next = 0) => {
+    view.setUint16(offset, tags.length, little);
+    tags.forEach(([tag, value], index) => {
+      const base = offset + 2 + index * 12;
+      view.setUint16(base, tag, little);
+      if (typeof value === "number") {
+        view.setUint16(base + 2, 4, little);
+        view.setUint32(base + 4, 1, little);
+        view.setUint32(base + 8, value, little);
+        return;
+      }
+      const text = Buffer.from(`${value}\0`, "latin1");
+      view.setUint16(base + 2, 2, little);
+      view.setUint32(base + 4, text.length, little);
+      if (text.length <= 4) bytes.set(text, base + 8);
+      else {
+        view.setUint32(base + 8, cursor, little);
+        bytes.set(text, cursor);
+        cursor += text.length;
+      }
+    });
+    view.setUint32(offset + 2 + tags.length * 12, next, little);
+  };
+
+  const pointers: Tag[] = [...(options.exif ? [[0x8769, EXIF_IFD] as Tag] : []), ...(options.gps ? [[0x8825, GPS_IFD] as Tag] : [])];
+  writeIfd(8, [...ifd0, ...pointers], options.thumbnail ? IFD1 : 0);
+  if (options.exif) writeIfd(EXIF_IFD, options.exif);
+  if (options.gps) writeIfd(GPS_IFD, options.gps);
+  if (options.thumbnail) {
+    writeIfd(IFD1, [[0x0201, THUMBNAIL], [0x0202, options.thumbnail.length]]);
+    bytes.set(options.thumbnail, THUMBNAIL);
+  }
+  return bytes;
+}
+
+function app(marker: number, body: Uint8Array): Uint8Array {
+  return Uint8Array.from([0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 255, ...body]);
+}
+
+function jpeg(...segments: Uint8Array[]): Uint8Array {
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), ...segments, Buffer.from([0xff, 0xda, 0, 2, 0xff, 0xd9])]);
+}
+
+const exifSegment = (block: Uint8Array) => app(0xe1, Buffer.concat([Buffer.from("Exif\0\0", "latin1"), block]));
+const xmpSegment = (xml: string) => app(0xe1, Buffer.from(`http://ns.adobe.com/xap/1.0/\0${xml}`, "utf8"));
+
+function pngChunk(type: string, body: Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body, Buffer.alloc(4)]);
+}
+
+function png(...chunks: Buffer[]): Uint8Array {
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", Buffer.alloc(13)),
+    ...chunks,
+    pngChunk("IDAT", Buffer.alloc(4)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description xmp:CreatorTool="Adobe Photoshop 25.0 (Macintosh)"
+ exif:DateTimeOriginal="2018-06-02T10:15:00+01:00" tiff:Model="iPhone 12" exif:GPSLatitude="51,27.1N">
+<xmpMM:History><rdf:Seq><rdf:li stEvt:action="saved" stEvt:softwareAgent="Adobe Lightroom Classic 12.0"/></rdf:Seq></xmpMM:History>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+describe("readImageMetadata", () => {
+  it("reads camera, capture time, software, GPS and thumbnail from JPEG EXIF", () => {
+    const thumbnail = Uint8Array.from([0xff, 0xd8, 1, 2, 3, 0xff, 0xd9]);
+    const block = tiff([[0x010f, "Canon"], [0x0110, "Canon EOS R5"], [0x0131, "Ver.1.02"], [0x0132, "2021:01:01 00:00:00"]], {
+      exif: [[0x9003, "2019:05:03 14:22:10"]],
+      gps: [[0x0002, 51]],
+      thumbnail,
+    });
+    const metadata = readImageMetadata(jpeg(exifSegment(block)));
+    expect(metadata).toMatchObject({
+      camera: "Canon EOS R5",
+      capturedAt: "2019-05-03T14:22:10",
+      software: ["Ver.1.02"],
+      gps: true,
+      sources: ["exif"],
+    });
+    expect(Array.from(metadata!.thumbnail!)).toEqual(Array.from(thumbnail));
+  });
+
+  it("reads big-endian EXIF and joins a make the model leaves out", () => {
+    const block = tiff([[0x010f, "SONY"], [0x0110, "ILCE-7M3"], [0x0132, "2020:02:29 08:00:00"]], { gps: [[0x0000, 2]], bigEndian: true });
+    expect(readImageMetadata(jpeg(exifSegment(block)))).toMatchObject({ camera: "SONY ILCE-7M3", capturedAt: "2020-02-29T08:00:00", gps: false });
+  });
+
+  it("fills gaps from XMP without overriding EXIF", () => {
+    const metadata = readImageMetadata(jpeg(exifSegment(tiff([[0x0110, "Pixel 7"]], { exif: [[0x9003, "2022:03:04 05:06:07"]] })), xmpSegment(XMP)));
+    expect(metadata).toMatchObject({
+      camera: "Pixel 7",
+      capturedAt: "2022-03-04T05:06:07",
+      software: ["Adobe Photoshop 25.0 (Macintosh)", "Adobe Lightroom Classic 12.0"],
+      gps: true,
+      sources: ["exif", "xmp"],
+    });
+    expect(readImageMetadata(jpeg(xmpSegment(XMP)))).toMatchObject({ camera: "iPhone 12", capturedAt: "2018-06-02T10:15:00" });
+  });
+
+  it("reads PNG text chunks and compressed XMP", () => {
+    const software = pngChunk("tEXt", Buffer.from("Software\0GIMP 2.10", "latin1"));
+    const xmp = pngChunk("iTXt", Buffer.concat([Buffer.from("XML:com.adobe.xmp\0\x01\0\0\0", "latin1"), deflateSync(Buffer.from(XMP))]));
+    expect(readImageMetadata(png(software, xmp))?.software).toEqual([
+      "GIMP 2.10",
+      "Adobe Photoshop 25.0 (Macintosh)",
+      "Adobe Lightroom Classic 12.0",
+    ]);
+  });
+
+  it("ignores blank dates and returns nothing for files without metadata", () => {
+    expect(readImageMetadata(jpeg(exifSegment(tiff([[0x0132, "0000:00:00 00:00:00"]]))))?.capturedAt).toBeUndefined();
+    expect(readImageMetadata(jpeg())).toBeUndefined();
+    expect(readImageMetadata(png())).toBeUndefined();
+    expect(readImageMetadata(Uint8Array.from([1, 2, 3]))).toBeUndefined();
+  });
+
+  it("survives directories and thumbnails that point past the end", () => {
+    const block = tiff([[0x0110, "Nikon Z6"]], { thumbnail: Uint8Array.from([1, 2, 3, 4]) });
+    new DataView(block.buffer).setUint32(IFD1 + 2 + 8, 0xfffff0, true);
+    const truncated = Buffer.concat([Buffer.from("II", "latin1"), Buffer.from([42, 0, 0xff, 0xff, 0, 0])]);
+    const metadata = readImageMetadata(jpeg(exifSegment(block)));
+    expect(metadata?.camera).toBe("Nikon Z6");
+    expect(metadata?.thumbnail).toBeUndefined();
+    expect(readImageMetadata(jpeg(exifSegment(truncated)))).toEqual({ software: [], gps: false, sources: ["exif"] });
+  });
+});
@@ -0,0 +1,194 @@
+import { inflateSync } from "node:zlib";
+import { sniffImageFormat } from "./format";
+
+export type ImageMetadata = {
+  // Local capture time as written by the camera, "YYYY-MM-DDTHH:MM:SS" without a zone.
+  capturedAt?: string;
+  camera?: string;
+  // Every tool named in the Software tag, XMP CreatorTool or XMP edit history.
+  software: string[];
+  gps: boolean;
+  // Embedded EXIF preview (JPEG), written when the photo was taken.
+  thumbnail?: Uint8Array;
+  sources: Array<"exif" | "xmp">;
+};
+
+type IfdEntry = { type: number; count: number; valueOffset: number };
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  let text = "";
+  for (let i = start; i < end && i < bytes.length; i += 1) text += String.fromCharCode(bytes[i]);
+  return text;
+}
+
+function emptyMetadata(): ImageMetadata {
+  return { software: [], gps: false, sources: [] };
+}
+
+function addSoftware(metadata: ImageMetadata, value?: string): void {
+  const name = value?.replace(/\0+$/, "").trim();
+  if (name && !metadata.software.includes(name)) metadata.software.push(name);
+}
+
+// "2019:05:03 14:22:10" (EXIF) or "2019-05-03T14:22:10+01:00" (XMP) to "2019-05-03T14:22:10".
+function normalizeDate(value?: string): string | undefined {
+  const match = value?.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match || match[1] === "0000" || match[2] === "00") return undefined;
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4] ?? "00"}:${match[5] ?? "00"}:${match[6] ?? "00"}`;
+}
+
+function parseExif(tiff: Uint8Array, metadata: ImageMetadata): void {
+  if (tiff.length < 8) return;
+  const little = tiff[0] === 0x49 && tiff[1] === 0x49;
+  if (!little && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) return;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const u16 = (offset: number) => (offset + 2 <= tiff.length ? view.getUint16(offset, little) : 0);
+  const u32 = (offset: number) => (offset + 4 <= tiff.length ? view.getUint32(offset, little) : 0);
+  if (u16(2) !== 42) return;
+
+  const readIfd = (offset: number): { entries: Map<number, IfdEntry>; next: number } => {
+    const entries = new Map<number, IfdEntry>();
+    const count = u16(offset);
+    if (!offset || offset + 2 + count * 12 > tiff.length) return { entries, next: 0 };
+    for (let i = 0; i < count; i += 1) {
+      const base = offset + 2 + i * 12;
+      const type = u16(base + 2);
+      const valueCount = u32(base + 4);
+      // Values of four bytes or fewer are stored inline in the entry.
+      const inline = (TYPE_SIZES[type] ?? 1) * valueCount <= 4;
+      entries.set(u16(base), { type, count: valueCount, valueOffset: inline ? base + 8 : u32(base + 8) });
+    }
+    return { entries, next: u32(offset + 2 + count * 12) };
+  };
+  const text = (entry?: IfdEntry) =>
+    entry?.type === 2 ? ascii(tiff, entry.valueOffset, entry.valueOffset + entry.count).replace(/\0[\s\S]*$/, "").trim() : undefined;
+  const number = (entry?: IfdEntry) => (!entry ? 0 : entry.type === 3 ? u16(entry.valueOffset) : u32(entry.valueOffset));
+
+  const ifd0 = readIfd(u32(4));
+  metadata.sources.push("exif");
+  const make = text(ifd0.entries.get(0x010f));
+  const model = text(ifd0.entries.get(0x0110));
+  // Models usually repeat the make ("Canon" / "Canon EOS R5").
+  const camera = model && make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model ?? make;
+  if (camera) metadata.camera = camera;
+  addSoftware(metadata, text(ifd0.entries.get(0x0131)));
+
+  const exifIfd = readIfd(number(ifd0.entries.get(0x8769)));
+  metadata.capturedAt =
+    normalizeDate(text(exifIfd.entries.get(0x9003))) ??
+    normalizeDate(text(exifIfd.entries.get(0x9004))) ??
+    normalizeDate(text(ifd0.entries.get(0x0132))) ??
+    metadata.capturedAt;
+
+  // Some cameras write a GPS directory holding only the version; a latitude means a real fix.
+  const gpsIfd = readIfd(number(ifd0.entries.get(0x8825)));
+  if (gpsIfd.entries.has(0x0002)) metadata.gps = true;
+
+  const ifd1 = readIfd(ifd0.next);
+  const thumbnailOffset = number(ifd1.entries.get(0x0201));
+  const thumbnailLength = number(ifd1.entries.get(0x0202));
+  if (thumbnailOffset && thumbnailLength && thumbnailOffset + thumbnailLength <= tiff.length) {
+    metadata.thumbnail = tiff.subarray(thumbnailOffset, thumbnailOffset + thumbnailLength);
+  }
+}
+
+// XMP properties appear either as attributes (xmp:CreatorTool="...") or elements (<xmp:CreatorTool>...</...>).
+function xmpValues(xml: string, name: string): string[] {
+  const escaped = name.replace(":", "\\:");
+  const values: string[] = [];
+  for (const match of xml.matchAll(new RegExp(`${escaped}="([^"]*)"`, "g"))) values.push(match[1]);
+  for (const match of xml.matchAll(new RegExp(`<${escaped}>([^<]*)</${escaped}>`, "g"))) values.push(match[1]);
+  return values.map((value) => value.trim()).filter(Boolean);
+}
+
+function parseXmp(xml: string, metadata: ImageMetadata): void {
+  metadata.sources.push("xmp");
+  for (const tool of [...xmpValues(xml, "xmp:CreatorTool"), ...xmpValues(xml, "stEvt:softwareAgent")]) addSoftware(metadata, tool);
+  if (!metadata.capturedAt) {
+    const date = [...xmpValues(xml, "exif:DateTimeOriginal"), ...xmpValues(xml, "photoshop:DateCreated"), ...xmpValues(xml, "xmp:CreateDate")]
+      .map(normalizeDate)
+      .find(Boolean);
+    if (date) metadata.capturedAt = date;
+  }
+  if (!metadata.camera) {
+    const [model] = xmpValues(xml, "tiff:Model");
+    if (model) metadata.camera = model;
+  }
+  if (xmpValues(xml, "exif:GPSLatitude").length) metadata.gps = true;
+}
+
+function readJpegMetadata(bytes: Uint8Array, metadata: ImageMetadata): void {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Metadata segments all come before the image data.
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    const end = offset + 2 + length;
+    if (marker === 0xe1) {
+      if (ascii(bytes, start, start + 6) === "Exif\0\0") parseExif(bytes.subarray(start + 6, end), metadata);
+      else if (ascii(bytes, start, start + XMP_HEADER.length) === XMP_HEADER) {
+        parseXmp(Buffer.from(bytes.subarray(start + XMP_HEADER.length, end)).toString("utf8"), metadata);
+      }
+    }
+    offset = end;
+  }
+}
+
+function readPngMetadata(bytes: Uint8Array, metadata: ImageMetadata): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, offset + 8);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IDAT" || type === "IEND") break;
+    if (type === "eXIf") parseExif(data, metadata);
+    if (type === "tEXt" || type === "iTXt") {
+      const keywordEnd = data.indexOf(0);
+      const keyword = ascii(data, 0, keywordEnd);
+      if (type === "tEXt" && keyword === "Software") addSoftware(metadata, ascii(data, keywordEnd + 1, data.length));
+      if (type === "iTXt" && keyword === "XML:com.adobe.xmp") {
+        // Keyword, compression flag and method, then null-terminated language and translated keyword.
+        const compressed = data[keywordEnd + 1] === 1;
+        let textStart = keywordEnd + 3;
+        for (let nulls = 0; nulls < 2 && textStart < data.length; textStart += 1) if (data[textStart] === 0) nulls += 1;
+        try {
+          const body = compressed ? inflateSync(data.subarray(textStart)) : data.subarray(textStart);
+          parseXmp(Buffer.from(body).toString("utf8"), metadata);
+        } catch {
+          // A corrupt XMP packet is no different from a missing one.
+        }
+      }
+    }
+    offset += 12 + length;
+  }
+}
+
+function readWebpMetadata(bytes: Uint8Array, metadata: ImageMetadata): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, offset + 4);
+    const length = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "EXIF") parseExif(ascii(data, 0, 6) === "Exif\0\0" ? data.subarray(6) : data, metadata);
+    if (type === "XMP ") parseXmp(Buffer.from(data).toString("utf8"), metadata);
+    // Chunks are padded to an even length.
+    offset += 8 + length + (length % 2);
+  }
+}
+
+// Returns undefined when the file carries no EXIF or XMP at all, as most marketplace re-encodes do not.
+export function readImageMetadata(bytes: Uint8Array): ImageMetadata | undefined {
+  const metadata = emptyMetadata();
+  const format = sniffImageFormat(bytes);
+  if (format === "jpeg") readJpegMetadata(bytes, metadata);
+  if (format === "png") readPngMetadata(bytes, metadata);
+  if (format === "webp") readWebpMetadata(bytes, metadata);
+  return metadata.sources.length ? metadata : undefined;
+}
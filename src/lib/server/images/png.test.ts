@@ -0,0 +1,65 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { decodePng } from "./png";
+
+function chunk(type: string, body: Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, "latin1");
+  // Chunk CRCs are not checked by the decoder.
+  return Buffer.concat([header, body, Buffer.alloc(4)]);
+}
+
+function png(width: number, height: number, colorType: number, idat: Uint8Array, extra: Buffer[] = []): Uint8Array {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    ...extra,
+    chunk("IDAT", idat),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// One filter byte per row, then the samples.
+function scanlines(rows: number[][], filter = 0): Uint8Array {
+  return deflateSync(Buffer.concat(rows.map((row) => Buffer.from([filter, ...row]))));
+}
+
+describe("decodePng", () => {
+  it("decodes grayscale rows", () => {
+    const image = decodePng(png(2, 2, 0, scanlines([[0, 255], [128, 64]])));
+    expect(image).toEqual({ width: 2, height: 2, pixels: Uint8Array.from([0, 255, 128, 64]) });
+  });
+
+  it("converts RGB to luminance and undoes the Sub filter", () => {
+    // Sub stores each byte as the difference from the pixel to its left: red, then red + green = yellow.
+    const image = decodePng(png(2, 1, 2, scanlines([[255, 0, 0, 0, 255, 0]], 1)));
+    expect(Array.from(image!.pixels)).toEqual([76, 226]);
+  });
+
+  it("composites transparent pixels onto white and reads palettes", () => {
+    expect(Array.from(decodePng(png(2, 1, 6, scanlines([[0, 0, 0, 0, 0, 0, 0, 255]])))!.pixels)).toEqual([255, 0]);
+    const palette = chunk("PLTE", Buffer.from([0, 0, 0, 255, 255, 255]));
+    expect(Array.from(decodePng(png(2, 1, 3, scanlines([[1, 0]]), [palette]))!.pixels)).toEqual([255, 0]);
+  });
+
+  it("rejects truncated, unknown-filter and palette-less files", () => {
+    expect(decodePng(png(2, 2, 0, scanlines([[0, 255]])))).toBeUndefined();
+    expect(decodePng(png(2, 1, 0, scanlines([[0, 255]], 9)))).toBeUndefined();
+    expect(decodePng(png(2, 1, 3, scanlines([[1, 0]])))).toBeUndefined();
+    expect(decodePng(png(2, 1, 0, Buffer.from("not zlib")))).toBeUndefined();
+    expect(decodePng(Uint8Array.from([1, 2, 3]))).toBeUndefined();
+  });
+
+  it("stops inflating at the size the header declares", () => {
+    // 8 MB of zeros deflates to a few KB but is far more than a 4x4 image needs.
+    const bomb = deflateSync(Buffer.alloc(8 * 1024 * 1024));
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    expect(decodePng(png(4, 4, 0, bomb))).toBeUndefined();
+  });
+});
@@ -0,0 +1,143 @@
+import { inflateSync } from "node:zlib";
+import { GrayImage } from "./types";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Decoding a huge PNG only to hash it is not worth the memory.
+const MAX_PIXELS = 40_000_000;
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+function unfilter(raw: Uint8Array, height: number, stride: number, bytesPerPixel: number): Uint8Array | undefined {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y += 1) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+    for (let x = 0; x < stride; x += 1) {
+      const value = raw[source + x];
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[previous + x - bytesPerPixel] : 0;
+      if (filter === 0) out[row + x] = value;
+      else if (filter === 1) out[row + x] = value + left;
+      else if (filter === 2) out[row + x] = value + up;
+      else if (filter === 3) out[row + x] = value + ((left + up) >> 1);
+      else if (filter === 4) out[row + x] = value + paeth(left, up, upLeft);
+      else return undefined;
+    }
+  }
+  return out;
+}
+
+// Returns one channel sample scaled to 0-255, whatever the bit depth.
+function readSample(row: Uint8Array, offset: number, index: number, bitDepth: number): number {
+  if (bitDepth === 8) return row[offset + index];
+  if (bitDepth === 16) return row[offset + index * 2];
+  const perByte = 8 / bitDepth;
+  const byte = row[offset + Math.floor(index / perByte)];
+  const shift = 8 - bitDepth * ((index % perByte) + 1);
+  const value = (byte >> shift) & ((1 << bitDepth) - 1);
+  return Math.round((value * 255) / ((1 << bitDepth) - 1));
+}
+
+function readPaletteIndex(row: Uint8Array, offset: number, index: number, bitDepth: number): number {
+  if (bitDepth === 8) return row[offset + index];
+  const perByte = 8 / bitDepth;
+  const byte = row[offset + Math.floor(index / perByte)];
+  return (byte >> (8 - bitDepth * ((index % perByte) + 1))) & ((1 << bitDepth) - 1);
+}
+
+function luminance(red: number, green: number, blue: number): number {
+  return 0.299 * red + 0.587 * green + 0.114 * blue;
+}
+
+// Interlaced (Adam7) files are skipped; marketplaces almost never serve them.
+export function decodePng(data: Uint8Array): GrayImage | undefined {
+  if (!SIGNATURE.every((byte, index) => data[index] === byte)) return undefined;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const chunks: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlaced = body[12] === 1;
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      chunks.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels || interlaced || width * height > MAX_PIXELS) return undefined;
+  if (colorType === 3 && !palette) return undefined;
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const expected = height * (stride + 1);
+  // A tiny IDAT stream can inflate to gigabytes, so never produce more than the declared rows need.
+  let inflated: Uint8Array;
+  try {
+    inflated = inflateSync(Buffer.concat(chunks), { maxOutputLength: expected });
+  } catch {
+    return undefined;
+  }
+  if (inflated.length < expected) return undefined;
+  const rows = unfilter(inflated, height, stride, Math.max(1, bitsPerPixel / 8));
+  if (!rows) return undefined;
+
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    const offset = y * stride;
+    for (let x = 0; x < width; x += 1) {
+      let gray: number;
+      let alpha = 255;
+      if (colorType === 3 && palette) {
+        const index = readPaletteIndex(rows, offset, x, bitDepth);
+        gray = luminance(palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]);
+        alpha = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (channels >= 3) {
+        const base = x * channels;
+        gray = luminance(
+          readSample(rows, offset, base, bitDepth),
+          readSample(rows, offset, base + 1, bitDepth),
+          readSample(rows, offset, base + 2, bitDepth)
+        );
+        if (channels === 4) alpha = readSample(rows, offset, base + 3, bitDepth);
+      } else {
+        gray = readSample(rows, offset, x * channels, bitDepth);
+        if (channels === 2) alpha = readSample(rows, offset, x * 2 + 1, bitDepth);
+      }
+      // Transparent areas are composited onto white, as a browser would show them.
+      pixels[y * width + x] = Math.round((gray * alpha + 255 * (255 - alpha)) / 255);
+    }
+  }
+  return { width, height, pixels };
+}
@@ -0,0 +1,8 @@
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp";
+
+// 8-bit luminance, row-major.
+export type GrayImage = {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+};
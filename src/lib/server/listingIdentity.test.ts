@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { canonicalListingId } from "./listingIdentity";
+
+describe("canonicalListingId", () => {
+  it("gives every link to one eBay item the same id", () => {
+    const ids = [
+      "https://www.ebay.co.uk/itm/123456789012",
+      "https://www.ebay.com/itm/banksy-girl-with-balloon/123456789012?hash=item1c",
+      "https://ebay.de/itm/123456789012/",
+      "https://www.ebay.com/itm?item=123456789012",
+      " https://m.ebay.co.uk/itm/123456789012#photos ",
+    ].map(canonicalListingId);
+    expect(new Set(ids)).toEqual(new Set(["ebay_123456789012"]));
+  });
+
+  it("reads StockX slugs past a locale and Artsy artwork ids", () => {
+    expect(canonicalListingId("https://stockx.com/en-gb/KAWS-Companion-Flayed?size=os")).toBe("stockx_kaws-companion-flayed");
+    expect(canonicalListingId("https://www.artsy.net/artwork/Banksy-Girl-With-Balloon-2")).toBe("artsy_banksy-girl-with-balloon-2");
+  });
+
+  it("hashes the normalized URL when there is no marketplace id", () => {
+    const id = canonicalListingId("https://gallery.example.com/prints/flower-thrower/?utm_source=mail");
+    expect(id).toMatch(/^lst_[0-9a-f]{16}$/);
+    expect(canonicalListingId("https://GALLERY.example.com/prints/flower-thrower#top")).toBe(id);
+    expect(canonicalListingId("https://gallery.example.com/prints/girl-with-balloon")).not.toBe(id);
+    expect(canonicalListingId("https://www.ebay.co.uk/sch/i.html?_nkw=banksy")).toMatch(/^lst_/);
+  });
+
+  it("does not throw on text that is not a URL", () => {
+    expect(canonicalListingId("not a url")).toMatch(/^lst_[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,17 @@
+import { createHash } from "node:crypto";
+import { resolveExtractorForUrl } from "./extractors";
+import { normalizeUrlKey } from "./urls";
+
+// The same real listing always gets the same id: "<source>_<marketplace id>" when the URL carries one
+// (eBay item number, StockX slug, Artsy artwork id), otherwise a hash of the normalized URL.
+export function canonicalListingId(url: string): string {
+  const extractor = resolveExtractorForUrl(url);
+  let nativeId: string | undefined;
+  try {
+    nativeId = extractor?.nativeListingId?.(new URL(url.trim()));
+  } catch {
+    nativeId = undefined;
+  }
+  if (extractor && nativeId) return `${extractor.source}_${nativeId}`;
+  return `lst_${createHash("sha256").update(normalizeUrlKey(url)).digest("hex").slice(0, 16)}`;
+}
@@ -0,0 +1,5 @@
+export type { MailMessage, PushTarget, SmtpConfig, VapidConfig, WebhookTarget } from "./types";
+export { assertPublicHttpsUrl, isPublicAddress, postPublicHttps } from "./publicHttps";
+export { buildMimeMessage, sendMail } from "./smtp";
+export { createWebhookSecret, postWebhook, signWebhookPayload } from "./webhook";
+export { encryptPushPayload, sendWebPush, type PushResult } from "./webPush";
@@ -0,0 +1,152 @@
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from "node:dns";
+import { IncomingMessage } from "node:http";
+import { request } from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges.
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  // "::ffff:10.0.0.1" reaches the IPv4 host, so it is checked as one.
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  const family = isIP(mapped ?? address);
+  if (!family) return false;
+  return !blocked.check(mapped ?? address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Shape checks that need no lookup: https only, no credentials, no private address literal.
+export function publicHttpsUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Not a valid URL.");
+  }
+  if (url.protocol !== "https:") throw new Error("Only https URLs are allowed.");
+  if (url.username || url.password) throw new Error("URLs must not carry credentials.");
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isPublicAddress(host)) throw new Error("URLs must not point at a private or loopback address.");
+  return url;
+}
+
+// Every address a name resolves to must be public. The check runs in the connection's own lookup, so DNS rebinding cannot get past it.
+export function publicLookup(resolve: typeof dnsLookup = dnsLookup): LookupFunction {
+  return ((hostname: string, options: LookupOptions, callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void) => {
+    resolve(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, "");
+      const list = addresses as LookupAddress[];
+      if (!list.length || list.some((entry) => !isPublicAddress(entry.address))) {
+        return callback(Object.assign(new Error(`${hostname} resolves to a private or loopback address.`), { code: "EADDRNOTPUBLIC" }), "");
+      }
+      if (options.all) callback(null, list);
+      else callback(null, list[0].address, list[0].family);
+    });
+  }) as LookupFunction;
+}
+
+// Resolves the URL's host the same way a send would, so a bad URL is refused when it is saved.
+export function assertPublicHttpsUrl(value: string, resolve: typeof dnsLookup = dnsLookup): Promise<URL> {
+  const url = publicHttpsUrl(value);
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return Promise.resolve(url);
+  return new Promise((done, fail) => {
+    publicLookup(resolve)(host, { all: true }, (error) => (error ? fail(error) : done(url)));
+  });
+}
+
+// POSTs to a user-supplied https URL that must resolve to a public address; redirects are not followed.
+export function postPublicHttps(
+  value: string,
+  options: { headers: Record<string, string>; body: string | Buffer; timeoutMs: number; resolve?: typeof dnsLookup }
+): Promise<number> {
+  return new Promise((done, fail) => {
+    const url = publicHttpsUrl(value);
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...options.headers, "Content-Length": String(Buffer.byteLength(options.body)) },
+        lookup: publicLookup(options.resolve),
+        timeout: options.timeoutMs,
+      },
+      (res) => {
+        res.resume();
+        res.on("end", () => done(res.statusCode ?? 0));
+        res.on("error", fail);
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error("Request timed out.")));
+    req.on("error", fail);
+    req.end(options.body);
+  });
+}
+
+export type PublicHttpsResponse = { url: string; status: number; headers: IncomingMessage["headers"]; body: Buffer };
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// GETs an https URL taken from untrusted input. Every hop, redirects included, must resolve to a public address,
+// and the body is read as a stream that is cut off once it passes maxBytes.
+export function getPublicHttps(
+  value: string,
+  options: { headers: Record<string, string>; timeoutMs: number; maxBytes: number; maxRedirects?: number; resolve?: typeof dnsLookup }
+): Promise<PublicHttpsResponse> {
+  const deadline = Date.now() + options.timeoutMs;
+  const follow = (current: string, redirectsLeft: number): Promise<PublicHttpsResponse> =>
+    new Promise<PublicHttpsResponse | string>((done, fail) => {
+      const url = publicHttpsUrl(current);
+      const req = request(url, { method: "GET", headers: options.headers, lookup: publicLookup(options.resolve) }, (res) => {
+        const status = res.statusCode ?? 0;
+        if (REDIRECT_STATUSES.has(status) && res.headers.location) {
+          res.resume();
+          return done(new URL(res.headers.location, url).toString());
+        }
+        if (Number(res.headers["content-length"] ?? 0) > options.maxBytes) {
+          return req.destroy(new Error("Response is too large."));
+        }
+        const parts: Buffer[] = [];
+        let size = 0;
+        res.on("data", (part: Buffer) => {
+          size += part.length;
+          if (size > options.maxBytes) req.destroy(new Error("Response is too large."));
+          else parts.push(part);
+        });
+        res.on("end", () => done({ url: current, status, headers: res.headers, body: Buffer.concat(parts) }));
+        res.on("error", fail);
+      });
+      const timer = setTimeout(() => req.destroy(new Error("Request timed out.")), Math.max(0, deadline - Date.now()));
+      req.on("close", () => clearTimeout(timer));
+      req.on("error", fail);
+      req.end();
+    }).then((result) => {
+      if (typeof result !== "string") return result;
+      if (redirectsLeft <= 0) throw new Error("Too many redirects.");
+      return follow(result, redirectsLeft - 1);
+    });
+  return follow(value, options.maxRedirects ?? 3);
+}
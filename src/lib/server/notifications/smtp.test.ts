@@ -0,0 +1,101 @@
+import { AddressInfo, createServer, Server, Socket } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { sendMail } from "./smtp";
+import { SmtpConfig } from "./types";
+
+type Sink = { server: Server; port: number; commands: string[]; messages: string[] };
+
+// A local SMTP server that accepts everything and records what it was sent; it never offers STARTTLS.
+async function startSink(): Promise<Sink> {
+  const sink = { commands: [] as string[], messages: [] as string[] } as Sink;
+  sink.server = createServer((socket: Socket) => {
+    let buffer = "";
+    let data: string | undefined;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply("220 sink.test ESMTP");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (;;) {
+        if (data !== undefined) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          sink.messages.push(data + buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          data = undefined;
+          reply("250 2.0.0 queued");
+          continue;
+        }
+        const end = buffer.indexOf("\r\n");
+        if (end < 0) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        sink.commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") reply("250-sink.test\r\n250-AUTH PLAIN\r\n250 8BITMIME");
+        else if (verb === "DATA") {
+          data = "";
+          reply("354 go ahead");
+        } else if (verb === "AUTH") reply("235 2.7.0 accepted");
+        else if (verb === "QUIT") {
+          reply("221 bye");
+          socket.end();
+        } else reply("250 ok");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => sink.server.listen(0, "127.0.0.1", resolve));
+  sink.port = (sink.server.address() as AddressInfo).port;
+  return sink;
+}
+
+function decodeParts(message: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const match of message.matchAll(/Content-Type: (text\/\w+); charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n([A-Za-z0-9+/=\r\n]+)/g)) {
+    parts[match[1]] = Buffer.from(match[2].replace(/\r\n/g, ""), "base64").toString("utf8");
+  }
+  return parts;
+}
+
+let sink: Sink | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => sink?.server.close(resolve));
+  sink = undefined;
+});
+
+describe("sendMail", () => {
+  it("delivers a multipart message to a local sink", async () => {
+    sink = await startSink();
+    const config: SmtpConfig = { host: "127.0.0.1", port: sink.port, secure: false, from: "Art Detective <alerts@art.test>" };
+    await sendMail(config, {
+      to: "collector@example.com",
+      subject: "Price drop on “Girl with Balloon”",
+      text: "Now £800.\nhttps://www.ebay.com/itm/1",
+      html: "<p>Now £800.</p>",
+    });
+
+    expect(sink.commands.map((line) => line.split(/[ :]/)[0])).toEqual(["EHLO", "MAIL", "RCPT", "DATA", "QUIT"]);
+    expect(sink.commands[1]).toBe("MAIL FROM:<alerts@art.test>");
+    expect(sink.commands[2]).toBe("RCPT TO:<collector@example.com>");
+    const [message] = sink.messages;
+    expect(message).toContain("From: Art Detective <alerts@art.test>\r\n");
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from("Price drop on “Girl with Balloon”").toString("base64")}?=\r\n`);
+    expect(message).toMatch(/Content-Type: multipart\/alternative; boundary="alt_[0-9a-f]+"/);
+    expect(decodeParts(message)).toEqual({ "text/plain": "Now £800.\nhttps://www.ebay.com/itm/1", "text/html": "<p>Now £800.</p>" });
+  });
+
+  it("keeps header values on one line", async () => {
+    sink = await startSink();
+    await sendMail({ host: "127.0.0.1", port: sink.port, secure: false, from: "alerts@art.test" }, { to: "a@example.com", subject: "Hi\r\nBcc: victim@example.com", text: "x" });
+    expect(sink.messages[0]).toContain("Subject: Hi Bcc: victim@example.com\r\n");
+    expect(sink.messages[0]).not.toMatch(/^Bcc:/m);
+  });
+
+  it("refuses to log in over a connection without STARTTLS", async () => {
+    sink = await startSink();
+    const config: SmtpConfig = { host: "127.0.0.1", port: sink.port, secure: false, user: "alerts", password: "hunter2", from: "alerts@art.test" };
+    await expect(sendMail(config, { to: "a@example.com", subject: "Hi", text: "x" })).rejects.toThrow(/STARTTLS/);
+    expect(sink.commands.some((line) => line.startsWith("AUTH"))).toBe(false);
+    expect(sink.messages).toHaveLength(0);
+  });
+});
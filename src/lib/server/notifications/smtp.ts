@@ -0,0 +1,167 @@
+import { randomUUID } from "node:crypto";
+import { connect as connectTcp, Socket } from "node:net";
+import { hostname } from "node:os";
+import { connect as connectTls, TLSSocket } from "node:tls";
+import { MailMessage, SmtpConfig } from "./types";
+
+const SMTP_TIMEOUT_MS = 15000;
+
+type Reply = { code: number; text: string };
+
+// Reads multi-line replies ("250-..." continues, "250 ..." ends) and hands them out in order.
+function createSession(initial: Socket | TLSSocket) {
+  let socket = initial;
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | undefined;
+  const replies: Reply[] = [];
+  const waiting: Array<{ resolve: (reply: Reply) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end = buffer.indexOf("\r\n");
+    while (end >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join("\n") };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+      end = buffer.indexOf("\r\n");
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    for (const waiter of waiting.splice(0)) waiter.reject(error);
+  };
+  const attach = (next: Socket | TLSSocket) => {
+    socket = next;
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out.")));
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", () => onError(failure ?? new Error("SMTP connection closed.")));
+  };
+  attach(initial);
+
+  const read = (): Promise<Reply> => {
+    const ready = replies.shift();
+    if (ready) return Promise.resolve(ready);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+
+  // Sends one command and insists on one of the expected reply codes.
+  const command = async (line: string, expected: number[], label = line.split(" ")[0]): Promise<Reply> => {
+    socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!expected.includes(reply.code)) throw new Error(`SMTP ${label} rejected (${reply.code}): ${reply.text}`);
+    return reply;
+  };
+
+  return {
+    read,
+    command,
+    write: (data: string) => socket.write(data),
+    // STARTTLS hands the raw socket to TLS; replies continue on the encrypted one.
+    upgrade: async (servername: string) => {
+      socket.removeAllListeners("data");
+      socket.removeAllListeners("error");
+      socket.removeAllListeners("close");
+      socket.setTimeout(0);
+      const secure = connectTls({ socket, servername });
+      await new Promise<void>((resolve, reject) => {
+        secure.once("secureConnect", resolve);
+        secure.once("error", reject);
+      });
+      attach(secure);
+    },
+    close: () => socket.end(),
+  };
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket | TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : connectTcp({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out.")));
+  });
+}
+
+// "Art Detective <alerts@example.com>" to "alerts@example.com".
+function envelopeAddress(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1]?.trim() ?? address.trim();
+}
+
+// Line breaks are dropped so a value can never start a header of its own.
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+export function buildMimeMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${envelopeAddress(from).split("@")[1] ?? "localhost"}>`,
+    "MIME-Version: 1.0",
+  ];
+  const part = (type: string, body: string) =>
+    [`Content-Type: ${type}; charset=utf-8`, "Content-Transfer-Encoding: base64", "", base64Lines(body)].join("\r\n");
+  if (!message.html) return [...headers, part("text/plain", message.text)].join("\r\n");
+  const boundary = `alt_${randomUUID().replace(/-/g, "")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const session = createSession(await openSocket(config));
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) throw new Error(`SMTP server refused the connection (${greeting.code}): ${greeting.text}`);
+    const name = hostname() || "localhost";
+    const hello = await session.command(`EHLO ${name}`, [250]);
+    const startTls = !config.secure && /^STARTTLS$/im.test(hello.text);
+    if (startTls) {
+      await session.command("STARTTLS", [220]);
+      await session.upgrade(config.host);
+      await session.command(`EHLO ${name}`, [250]);
+    }
+    if (config.user && config.password) {
+      // AUTH PLAIN is only base64, so credentials never go over an unencrypted connection.
+      if (!config.secure && !startTls) throw new Error("SMTP server does not offer STARTTLS; refusing to send credentials unencrypted.");
+      const credentials = Buffer.from(`\0${config.user}\0${config.password}`, "utf8").toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+    await session.command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250], "MAIL FROM");
+    await session.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251], "RCPT TO");
+    await session.command("DATA", [354]);
+    // Lines starting with a dot are doubled so they cannot end the message early.
+    const body = buildMimeMessage(config.from, message).replace(/^\./gm, "..");
+    session.write(`${body}\r\n.\r\n`);
+    const accepted = await session.read();
+    if (accepted.code !== 250) throw new Error(`SMTP server rejected the message (${accepted.code}): ${accepted.text}`);
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
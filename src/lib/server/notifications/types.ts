@@ -0,0 +1,34 @@
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // Implicit TLS; without it STARTTLS is used when the server offers it, and is required before logging in.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type VapidConfig = {
+  // Raw P-256 keys, base64url: the 65-byte public point and the 32-byte private scalar.
+  publicKey: string;
+  privateKey: string;
+  // A mailto: or https: contact for push services.
+  subject: string;
+};
+
+export type PushTarget = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+export type WebhookTarget = {
+  url: string;
+  secret: string;
+};
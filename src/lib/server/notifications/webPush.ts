@@ -0,0 +1,77 @@
+import { createECDH, createPrivateKey, createCipheriv, hkdfSync, randomBytes, sign } from "node:crypto";
+import { postPublicHttps } from "./publicHttps";
+import { PushTarget, VapidConfig } from "./types";
+
+const PUSH_TIMEOUT_MS = 10000;
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+export type PushResult = "sent" | "gone";
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+// VAPID (RFC 8292): an ES256 JWT scoped to the push service's origin, signed with the server key.
+function vapidAuthorization(endpoint: string, vapid: VapidConfig, now: number): string {
+  const publicKey = Buffer.from(vapid.publicKey, "base64url");
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+  const header = base64url(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+  const claims = base64url(
+    JSON.stringify({ aud: new URL(endpoint).origin, exp: Math.floor(now / 1000) + VAPID_TOKEN_SECONDS, sub: vapid.subject })
+  );
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), { key, dsaEncoding: "ieee-p1363" });
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${vapid.publicKey}`;
+}
+
+// Message encryption (RFC 8291) in the aes128gcm content coding (RFC 8188), as a single record.
+export function encryptPushPayload(target: PushTarget, payload: string, salt = randomBytes(16)): Buffer {
+  const userPublicKey = Buffer.from(target.keys.p256dh, "base64url");
+  const authSecret = Buffer.from(target.keys.auth, "base64url");
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marks the last (and only) record.
+  const body = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload, "utf8"), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header[20] = serverPublicKey.length;
+  return Buffer.concat([header, serverPublicKey, body]);
+}
+
+// "gone" means the browser dropped the subscription and it should be forgotten.
+// The endpoint comes from the client, so it gets the same public-address check as webhooks.
+export async function sendWebPush(target: PushTarget, payload: string, vapid: VapidConfig, now = Date.now()): Promise<PushResult> {
+  const status = await postPublicHttps(target.endpoint, {
+    headers: {
+      Authorization: vapidAuthorization(target.endpoint, vapid, now),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: "normal",
+    },
+    body: encryptPushPayload(target, payload),
+    timeoutMs: PUSH_TIMEOUT_MS,
+  });
+  if (status === 404 || status === 410) return "gone";
+  if (status < 200 || status >= 300) throw new Error(`Push service responded with ${status}.`);
+  return "sent";
+}
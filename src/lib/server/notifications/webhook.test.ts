@@ -0,0 +1,40 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { postPublicHttps } from "./publicHttps";
+import { createWebhookSecret, postWebhook, signWebhookPayload } from "./webhook";
+
+vi.mock("./publicHttps", () => ({ postPublicHttps: vi.fn(async () => 204) }));
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body the way receivers recompute it", () => {
+    const secret = createWebhookSecret();
+    const body = JSON.stringify({ id: "alt_1", type: "priceDrop" });
+    const header = signWebhookPayload(secret, body, 1_760_000_000);
+    const [, timestamp, signature] = header.match(/^t=(\d+),v1=([0-9a-f]{64})$/) ?? [];
+    expect(timestamp).toBe("1760000000");
+    expect(signature).toBe(createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex"));
+  });
+
+  it("changes with the secret, the body and the timestamp", () => {
+    const base = signWebhookPayload("whsec_a", "{}", 1);
+    expect(signWebhookPayload("whsec_b", "{}", 1)).not.toBe(base);
+    expect(signWebhookPayload("whsec_a", "{ }", 1)).not.toBe(base);
+    expect(signWebhookPayload("whsec_a", "{}", 2)).not.toBe(base);
+  });
+});
+
+describe("postWebhook", () => {
+  it("timestamps the signature with the caller's clock", async () => {
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    await postWebhook({ url: "https://hooks.example.com/in", secret: "whsec_test" }, "alert.created", { id: "alt_1" }, now);
+    const [url, options] = vi.mocked(postPublicHttps).mock.calls[0];
+    expect(url).toBe("https://hooks.example.com/in");
+    expect(options.headers["X-Art-Detective-Event"]).toBe("alert.created");
+    expect(options.headers["X-Art-Detective-Signature"]).toBe(signWebhookPayload("whsec_test", '{"id":"alt_1"}', now / 1000));
+  });
+
+  it("fails the delivery on a non-2xx response", async () => {
+    vi.mocked(postPublicHttps).mockResolvedValueOnce(500);
+    await expect(postWebhook({ url: "https://hooks.example.com/in", secret: "whsec_test" }, "alert.created", {})).rejects.toThrow(/500/);
+  });
+});
@@ -0,0 +1,31 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { postPublicHttps } from "./publicHttps";
+import { WebhookTarget } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers recompute HMAC-SHA256 over "<timestamp>.<body>" and reject stale timestamps to stop replays.
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Only https URLs that resolve to public addresses are called, and redirects are not followed.
+export async function postWebhook(target: WebhookTarget, event: string, payload: unknown, now = Date.now()): Promise<void> {
+  const body = JSON.stringify(payload);
+  const status = await postPublicHttps(target.url, {
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "ArtDetectiveWeb/1.0",
+      "X-Art-Detective-Event": event,
+      "X-Art-Detective-Signature": signWebhookPayload(target.secret, body, Math.floor(now / 1000)),
+    },
+    body,
+    timeoutMs: WEBHOOK_TIMEOUT_MS,
+  });
+  if (status < 200 || status >= 300) throw new Error(`Webhook responded with ${status}.`);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import { confirmEmailAddress, emailAddress, getNotificationSettings, sendEmailConfirmation, updateNotificationPreferences } from "./notifier";
+import { sendMail } from "./notifications";
+import { ensureUser, getPreferences, updatePreferences } from "./store";
+
+// The env module reads SMTP settings once, at import.
+vi.hoisted(() => {
+  process.env.SMTP_HOST = "smtp.example.com";
+  process.env.SMTP_FROM = "alerts@example.com";
+});
+
+vi.mock("./notifications", async (importOriginal) => ({ ...(await importOriginal<typeof import("./notifications")>()), sendMail: vi.fn() }));
+
+const NOW = Date.parse("2026-10-19T09:00:00Z");
+
+function recipient(userId: string, email: string) {
+  return { userId, email, preferences: getPreferences(userId, email).notifications ?? {} };
+}
+
+function mailedCode(): string {
+  const [, message] = vi.mocked(sendMail).mock.lastCall!;
+  return message.text.match(/Confirmation code: (\S+)/)![1];
+}
+
+describe("email address confirmation", () => {
+  it("keeps mailing the account until the new address confirms", async () => {
+    const user = ensureUser("owner@example.com");
+    updateNotificationPreferences(user.id, { email: { enabled: true, address: "someone@elsewhere.example" } }, user.email);
+    expect(emailAddress(recipient(user.id, user.email))).toBe("owner@example.com");
+
+    await sendEmailConfirmation(user.id, user.email, NOW);
+    expect(vi.mocked(sendMail).mock.lastCall?.[1].to).toBe("someone@elsewhere.example");
+    expect(JSON.stringify(getNotificationSettings(user.id, user.email))).not.toContain("tokenHash");
+
+    expect(confirmEmailAddress(user.id, "guessed-code", user.email, NOW)).toBe("invalid_token");
+    expect(confirmEmailAddress(user.id, mailedCode(), user.email, NOW)).toBe("confirmed");
+    expect(emailAddress(recipient(user.id, user.email))).toBe("someone@elsewhere.example");
+  });
+
+  it("needs a fresh confirmation when the address changes and expires old codes", async () => {
+    const user = ensureUser("changer@example.com");
+    updateNotificationPreferences(user.id, { email: { enabled: true, address: "first@elsewhere.example" } }, user.email);
+    await sendEmailConfirmation(user.id, user.email, NOW);
+    confirmEmailAddress(user.id, mailedCode(), user.email, NOW);
+
+    updateNotificationPreferences(user.id, { email: { address: "second@elsewhere.example" } }, user.email);
+    expect(emailAddress(recipient(user.id, user.email))).toBe("changer@example.com");
+    await sendEmailConfirmation(user.id, user.email, NOW);
+    expect(confirmEmailAddress(user.id, mailedCode(), user.email, NOW + 25 * 60 * 60 * 1000)).toBe("expired");
+
+    updateNotificationPreferences(user.id, { email: { address: "changer@example.com" } }, user.email);
+    expect(getPreferences(user.id, user.email).notifications?.email).toEqual({ enabled: true });
+    expect(confirmEmailAddress(user.id, "anything", user.email, NOW)).toBe("not_found");
+  });
+
+  it("ignores an address stored before confirmation existed", () => {
+    const user = ensureUser("legacy@example.com");
+    updatePreferences(user.id, { notifications: { email: { enabled: true, address: "victim@elsewhere.example" } } }, user.email);
+    expect(emailAddress(recipient(user.id, user.email))).toBe("legacy@example.com");
+  });
+});
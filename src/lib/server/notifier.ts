@@ -0,0 +1,322 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { env } from "@/lib/env";
+import { createWebhookSecret, postWebhook, sendMail, sendWebPush, SmtpConfig, VapidConfig } from "./notifications";
+import {
+  AlertDelivery,
+  AlertEntry,
+  AlertType,
+  getPreferences,
+  getUserById,
+  listPendingDeliveries,
+  listPushSubscriptions,
+  NotificationChannelName,
+  NotificationPreferences,
+  removePushSubscription,
+  updateAlertDelivery,
+  updatePreferences,
+} from "./store";
+
+const MINUTE_MS = 60 * 1000;
+// Wait before each retry; a delivery that still fails after the last one is marked failed.
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 360].map((minutes) => minutes * MINUTE_MS);
+const MAX_DELIVERIES_PER_RUN = 50;
+const EMAIL_CONFIRMATION_MS = 24 * 60 * MINUTE_MS;
+
+const ALERT_TITLES: Record<AlertType, string> = {
+  priceDrop: "Price drop",
+  priceRise: "Price rise",
+  listingEnded: "Listing ended",
+  scoreDowngrade: "Confidence downgrade",
+  listingEdited: "Listing edited",
+  newListing: "New listing",
+};
+
+export type Recipient = {
+  userId: string;
+  email?: string;
+  preferences: NotificationPreferences;
+};
+
+export type NotificationChannel = {
+  // Whether the server is configured for the channel and the user has switched it on.
+  available(recipient: Recipient): boolean;
+  send(recipient: Recipient, alert: AlertEntry, now: number): Promise<void>;
+};
+
+export type DeliveryRunSummary = { sent: number; retrying: number; failed: number; deferred: number; skipped: number };
+
+export function smtpConfig(): SmtpConfig | undefined {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) return undefined;
+  return {
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT ?? (env.SMTP_SECURE ? 465 : 587),
+    secure: env.SMTP_SECURE,
+    user: env.SMTP_USER,
+    password: env.SMTP_PASSWORD,
+    from: env.SMTP_FROM,
+  };
+}
+
+export function vapidConfig(): VapidConfig | undefined {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return undefined;
+  return { publicKey: env.VAPID_PUBLIC_KEY, privateKey: env.VAPID_PRIVATE_KEY, subject: env.VAPID_SUBJECT ?? "mailto:alerts@localhost" };
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function listingUrl(alert: AlertEntry): string | undefined {
+  return typeof alert.data?.url === "string" ? alert.data.url : undefined;
+}
+
+// Any account could otherwise point its alerts at a stranger's inbox.
+export function emailAddress(recipient: Recipient): string | undefined {
+  const { address, addressConfirmedAt } = recipient.preferences.email ?? {};
+  return address && addressConfirmedAt ? address : recipient.email;
+}
+
+const emailChannel: NotificationChannel = {
+  available: (recipient) => Boolean(smtpConfig() && recipient.preferences.email?.enabled && emailAddress(recipient)),
+  send: async (recipient, alert) => {
+    const config = smtpConfig();
+    const to = emailAddress(recipient);
+    if (!config || !to) throw new Error("Email delivery is not configured.");
+    const url = listingUrl(alert);
+    await sendMail(config, {
+      to,
+      subject: `Art Detective: ${ALERT_TITLES[alert.type]}`,
+      text: [alert.message, url].filter(Boolean).join("\n\n"),
+      html: `<p>${escapeHtml(alert.message)}</p>${url ? `<p><a href="${escapeHtml(url)}">View listing</a></p>` : ""}`,
+    });
+  },
+};
+
+const webhookChannel: NotificationChannel = {
+  available: ({ preferences }) => Boolean(preferences.webhook?.enabled && preferences.webhook.url && preferences.webhook.secret),
+  send: async ({ preferences }, alert, now) => {
+    const { url, secret } = preferences.webhook ?? {};
+    if (!url || !secret) throw new Error("No webhook URL is set.");
+    const { id, type, message, createdAt, listingId, artistId, data } = alert;
+    await postWebhook({ url, secret }, "alert.created", { id, type, message, createdAt, listingId, artistId, data }, now);
+  },
+};
+
+// Every subscribed browser gets the alert; one that still works is enough for the delivery to count.
+const pushChannel: NotificationChannel = {
+  available: ({ userId, preferences }) => Boolean(vapidConfig() && preferences.push?.enabled && listPushSubscriptions(userId).length),
+  send: async ({ userId }, alert, now) => {
+    const vapid = vapidConfig();
+    if (!vapid) throw new Error("Web Push is not configured.");
+    const payload = JSON.stringify({ title: ALERT_TITLES[alert.type], body: alert.message, alertId: alert.id, type: alert.type, url: listingUrl(alert) });
+    let sent = 0;
+    const errors: string[] = [];
+    for (const subscription of listPushSubscriptions(userId)) {
+      try {
+        const result = await sendWebPush(subscription, payload, vapid, now);
+        if (result === "gone") removePushSubscription(userId, subscription.endpoint);
+        else sent += 1;
+      } catch (error) {
+        errors.push((error as Error)?.message || "Push failed.");
+      }
+    }
+    if (!sent) throw new Error(errors[0] ?? "Every push subscription has expired.");
+  },
+};
+
+export const NOTIFICATION_CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  email: emailChannel,
+  webhook: webhookChannel,
+  push: pushChannel,
+};
+
+function recipientFor(userId: string): Recipient {
+  const email = getUserById(userId)?.email;
+  return { userId, email, preferences: getPreferences(userId, email).notifications ?? {} };
+}
+
+// One pending delivery per channel the user has on; the dispatcher sends them on its next run.
+export function planDeliveries(
+  userId: string,
+  type: AlertType,
+  now = new Date(),
+  channels: Record<NotificationChannelName, NotificationChannel> = NOTIFICATION_CHANNELS
+): AlertDelivery[] {
+  const recipient = recipientFor(userId);
+  if (recipient.preferences.alertTypes && !recipient.preferences.alertTypes.includes(type)) return [];
+  return (Object.keys(channels) as NotificationChannelName[])
+    .filter((name) => channels[name].available(recipient))
+    .map((channel) => ({ channel, status: "pending", attempts: 0, nextAttemptAt: now.toISOString() }));
+}
+
+function clockMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(now: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).formatToParts(new Date(now));
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+// Milliseconds until the quiet window ends, or 0 outside it.
+export function quietHoursRemaining(quietHours: NotificationPreferences["quietHours"], now: number): number {
+  if (!quietHours) return 0;
+  const start = clockMinutes(quietHours.start);
+  const end = clockMinutes(quietHours.end);
+  if (start === end) return 0;
+  const local = localMinutes(now, quietHours.timeZone);
+  const inside = start < end ? local >= start && local < end : local >= start || local < end;
+  if (!inside) return 0;
+  return ((end - local + 1440) % 1440) * MINUTE_MS - (now % MINUTE_MS);
+}
+
+export async function deliverPendingNotifications(
+  now = Date.now(),
+  channels: Record<NotificationChannelName, NotificationChannel> = NOTIFICATION_CHANNELS
+): Promise<DeliveryRunSummary> {
+  const summary: DeliveryRunSummary = { sent: 0, retrying: 0, failed: 0, deferred: 0, skipped: 0 };
+  const due = listPendingDeliveries()
+    .filter(({ delivery }) => !delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= now)
+    .slice(0, MAX_DELIVERIES_PER_RUN);
+  const recipients = new Map<string, Recipient>();
+  const at = new Date(now).toISOString();
+
+  for (const { userId, alert, delivery } of due) {
+    const recipient = recipients.get(userId) ?? recipientFor(userId);
+    recipients.set(userId, recipient);
+    const channel = channels[delivery.channel];
+    // Switched off or unconfigured since the alert was raised.
+    if (!channel?.available(recipient)) {
+      updateAlertDelivery(userId, alert.id, delivery.channel, { status: "skipped", nextAttemptAt: undefined, error: "Channel is no longer enabled." });
+      summary.skipped += 1;
+      continue;
+    }
+    const quiet = quietHoursRemaining(recipient.preferences.quietHours, now);
+    if (quiet) {
+      updateAlertDelivery(userId, alert.id, delivery.channel, { nextAttemptAt: new Date(now + quiet).toISOString() });
+      summary.deferred += 1;
+      continue;
+    }
+    const attempts = delivery.attempts + 1;
+    try {
+      await channel.send(recipient, alert, now);
+      updateAlertDelivery(userId, alert.id, delivery.channel, {
+        status: "sent",
+        attempts,
+        lastAttemptAt: at,
+        deliveredAt: at,
+        nextAttemptAt: undefined,
+        error: undefined,
+      });
+      summary.sent += 1;
+    } catch (error) {
+      const retryIn = RETRY_DELAYS_MS[attempts - 1];
+      updateAlertDelivery(userId, alert.id, delivery.channel, {
+        status: retryIn === undefined ? "failed" : "pending",
+        attempts,
+        lastAttemptAt: at,
+        nextAttemptAt: retryIn === undefined ? undefined : new Date(now + retryIn).toISOString(),
+        error: (error as Error)?.message || "Delivery failed.",
+      });
+      if (retryIn === undefined) summary.failed += 1;
+      else summary.retrying += 1;
+    }
+  }
+  return summary;
+}
+
+export type NotificationPreferencesPatch = {
+  email?: { enabled?: boolean; address?: string };
+  webhook?: { enabled?: boolean; url?: string };
+  push?: { enabled?: boolean };
+  alertTypes?: AlertType[];
+  // null clears the quiet window.
+  quietHours?: NotificationPreferences["quietHours"] | null;
+};
+
+// A webhook gets its signing secret the first time a URL is saved; the secret is kept when the URL changes.
+export function updateNotificationPreferences(userId: string, patch: NotificationPreferencesPatch, email?: string): NotificationPreferences {
+  const current = getPreferences(userId, email).notifications ?? {};
+  const next: NotificationPreferences = { ...current };
+  if (patch.email) {
+    next.email = { ...current.email, enabled: patch.email.enabled ?? current.email?.enabled ?? false };
+    const address = patch.email.address;
+    if (address !== undefined && address !== current.email?.address) {
+      delete next.email.addressConfirmedAt;
+      delete next.email.confirmation;
+      if (address === email?.toLowerCase()) delete next.email.address;
+      else next.email.address = address;
+    }
+  }
+  if (patch.webhook) {
+    const url = patch.webhook.url ?? current.webhook?.url;
+    next.webhook = {
+      enabled: patch.webhook.enabled ?? current.webhook?.enabled ?? Boolean(url),
+      url,
+      secret: current.webhook?.secret ?? (url ? createWebhookSecret() : undefined),
+    };
+  }
+  if (patch.push) next.push = { enabled: patch.push.enabled ?? current.push?.enabled ?? false };
+  if (patch.alertTypes) next.alertTypes = patch.alertTypes;
+  if (patch.quietHours === null) delete next.quietHours;
+  else if (patch.quietHours) next.quietHours = patch.quietHours;
+  return updatePreferences(userId, { notifications: next }, email).notifications ?? {};
+}
+
+function hashToken(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+// Mails a one-time code to an address that is waiting for confirmation.
+export async function sendEmailConfirmation(userId: string, email?: string, now = Date.now()): Promise<void> {
+  const config = smtpConfig();
+  const current = getPreferences(userId, email).notifications ?? {};
+  const address = current.email?.address;
+  if (!config || !address || current.email?.addressConfirmedAt) return;
+  const token = randomBytes(18).toString("base64url");
+  const confirmation = { tokenHash: hashToken(token).toString("hex"), expiresAt: new Date(now + EMAIL_CONFIRMATION_MS).toISOString() };
+  updatePreferences(userId, { notifications: { ...current, email: { ...current.email!, confirmation } } }, email);
+  await sendMail(config, {
+    to: address,
+    subject: "Art Detective: confirm this address for alerts",
+    text: `${email ?? "An Art Detective account"} asked to send its alerts to this address.\n\nConfirmation code: ${token}\n\nThe code expires in 24 hours. If you did not ask for this, ignore this email and nothing will be sent.`,
+    html: `<p>${escapeHtml(email ?? "An Art Detective account")} asked to send its alerts to this address.</p><p>Confirmation code: <strong>${token}</strong></p><p>The code expires in 24 hours. If you did not ask for this, ignore this email and nothing will be sent.</p>`,
+  });
+}
+
+export function confirmEmailAddress(
+  userId: string,
+  token: string,
+  email?: string,
+  now = Date.now()
+): "confirmed" | "not_found" | "expired" | "invalid_token" {
+  const current = getPreferences(userId, email).notifications ?? {};
+  const { address, confirmation } = current.email ?? {};
+  if (!address || !confirmation) return "not_found";
+  if (Date.parse(confirmation.expiresAt) <= now) return "expired";
+  const expected = Buffer.from(confirmation.tokenHash, "hex");
+  if (!timingSafeEqual(hashToken(token), expected)) return "invalid_token";
+  const confirmed = { ...current.email!, addressConfirmedAt: new Date(now).toISOString() };
+  delete confirmed.confirmation;
+  updatePreferences(userId, { notifications: { ...current, email: confirmed } }, email);
+  return "confirmed";
+}
+
+// The confirmation token hash never leaves the server.
+function publicPreferences(preferences: NotificationPreferences): NotificationPreferences {
+  if (!preferences.email?.confirmation) return preferences;
+  const email = { ...preferences.email };
+  delete email.confirmation;
+  return { ...preferences, email };
+}
+
+export function getNotificationSettings(userId: string, email?: string) {
+  return {
+    preferences: publicPreferences(getPreferences(userId, email).notifications ?? {}),
+    available: { email: Boolean(smtpConfig()), webhook: true, push: Boolean(vapidConfig()) },
+    pushPublicKey: vapidConfig()?.publicKey,
+    pushSubscriptions: listPushSubscriptions(userId).length,
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { photoReuseToCheck, recordListingImageHashes } from "./photoReuse";
+import { ListingRecord } from "./types";
+
+function listing(id: string, seller?: string): ListingRecord {
+  return {
+    listingId: id,
+    source: "ebay",
+    url: `https://www.ebay.co.uk/itm/${id}`,
+    fetchedAt: "2026-10-19T09:00:00Z",
+    currency: "GBP",
+    artwork: { title: "Girl with Balloon" },
+    artist: { id: "banksy" },
+    seller: seller ? { username: seller } : undefined,
+    visual: { imageUrls: [] },
+  };
+}
+
+const photo = (hash: string) => [{ imageUrl: `https://i.ebayimg.com/${hash}.jpg`, hash }];
+
+describe("photoReuseToCheck", () => {
+  it("needs at least one fingerprinted photo", () => {
+    expect(photoReuseToCheck(listing("empty"), []).value).toBe("Missing evidence");
+  });
+
+  it("passes photos not seen elsewhere", () => {
+    recordListingImageHashes(listing("a1", "original_seller"), photo("ffff0000ffff0000"));
+    expect(photoReuseToCheck(listing("a2", "someone"), photo("0f0f0f0f0f0f0f0f"))).toMatchObject({ value: "Good" });
+  });
+
+  it("flags another seller's photos, even slightly recompressed", () => {
+    recordListingImageHashes(listing("b1", "original_seller"), photo("00ff00ff00ff00ff"));
+    expect(photoReuseToCheck(listing("b2", "copycat"), photo("00ff00ff00ff00f0")).detail).toBe(
+      "The same photos appear in 1 listing from 1 other seller."
+    );
+  });
+
+  it("asks for review when the seller reuses their own photos or is unknown", () => {
+    recordListingImageHashes(listing("c1", "relister"), photo("123456789abcdef0"));
+    expect(photoReuseToCheck(listing("c2", "relister"), photo("123456789abcdef0")).value).toBe("Needs review");
+    expect(photoReuseToCheck(listing("c3"), photo("123456789abcdef0")).value).toBe("Needs review");
+  });
+
+  it("does not match a listing against its own earlier scan", () => {
+    recordListingImageHashes(listing("d1", "seller_d"), photo("aaaa5555aaaa5555"));
+    expect(photoReuseToCheck(listing("d1", "seller_d"), photo("aaaa5555aaaa5555")).value).toBe("Good");
+  });
+});
@@ -0,0 +1,67 @@
+import { FetchedImage, hammingDistance, hashImage, SAME_PHOTO_DISTANCE } from "./images";
+import { sellerKeyFor } from "./sellerGraph";
+import { ImageHashEntry, listImageHashes, saveImageHashes } from "./store";
+import { ListingRecord, SnapshotBucketCheck } from "./types";
+
+export type ListingImageHash = { imageUrl: string; hash: string };
+
+export function hashListingImages(images: FetchedImage[]): ListingImageHash[] {
+  return images.flatMap((image) => {
+    const hash = hashImage(image.bytes);
+    return hash ? [{ imageUrl: image.url, hash }] : [];
+  });
+}
+
+export function photoReuseToCheck(listing: ListingRecord, hashes: ListingImageHash[]): SnapshotBucketCheck {
+  const label = "Photo reuse";
+  if (!hashes.length) {
+    return { label, value: "Missing evidence", detail: "No listing photos could be downloaded and fingerprinted." };
+  }
+  const ownSeller = sellerKeyFor(listing);
+  const matches: ImageHashEntry[] = [];
+  for (const entry of listImageHashes(listing.listingId)) {
+    if (hashes.some((own) => hammingDistance(own.hash, entry.hash) <= SAME_PHOTO_DISTANCE)) matches.push(entry);
+  }
+  if (!matches.length) {
+    return {
+      label,
+      value: "Good",
+      detail: `${hashes.length} photo${hashes.length === 1 ? "" : "s"} fingerprinted; none seen in other scanned listings.`,
+    };
+  }
+
+  const listings = new Set(matches.map((entry) => entry.listingId));
+  const otherSellers = new Set(
+    matches.map((entry) => entry.sellerKey).filter((key): key is string => Boolean(key) && key !== ownSeller)
+  );
+  // Another seller using the same photos suggests they were lifted from someone else's listing.
+  if (ownSeller && otherSellers.size) {
+    return {
+      label,
+      value: "Red flag",
+      detail: `The same photos appear in ${listings.size} listing${listings.size === 1 ? "" : "s"} from ${otherSellers.size} other seller${otherSellers.size === 1 ? "" : "s"}.`,
+    };
+  }
+  return {
+    label,
+    value: "Needs review",
+    detail: `The same photos appear in ${listings.size} other listing${listings.size === 1 ? "" : "s"} — check whether it is a relist or copied photos.`,
+  };
+}
+
+export function recordListingImageHashes(listing: ListingRecord, hashes: ListingImageHash[], seenAt = new Date()): void {
+  if (!hashes.length) return;
+  const sellerKey = sellerKeyFor(listing);
+  saveImageHashes(
+    listing.listingId,
+    hashes.map((entry) => ({
+      hash: entry.hash,
+      imageUrl: entry.imageUrl,
+      listingId: listing.listingId,
+      listingUrl: listing.url,
+      source: listing.source,
+      sellerKey,
+      seenAt: seenAt.toISOString(),
+    }))
+  );
+}
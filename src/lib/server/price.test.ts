@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { currencyFromHost, currencyFromText, findItemPrice, parsePriceAmount } from "./price";
+
+describe("parsePriceAmount", () => {
+  it.each([
+    ["1,234.56", 1234.56],
+    ["1.234,56", 1234.56],
+    ["1 234,56", 1234.56],
+    ["1'234.50", 1234.5],
+    ["2,450", 2450],
+    ["2.450", 2450],
+    ["12,5", 12.5],
+    ["1.234.567", 1234567],
+    ["450", 450],
+  ])("reads %s as %d", (value, expected) => expect(parsePriceAmount(value)).toBe(expected));
+
+  it("returns undefined without digits", () => {
+    expect(parsePriceAmount("Make an offer")).toBeUndefined();
+    expect(parsePriceAmount(undefined)).toBeUndefined();
+  });
+});
+
+describe("currency detection", () => {
+  it("reads multi-character markers before bare symbols", () => {
+    expect(currencyFromText("US $1,200")).toBe("USD");
+    expect(currencyFromText("C$ 900")).toBe("CAD");
+    expect(currencyFromText("HK$12,000")).toBe("HKD");
+    expect(currencyFromText("CHF 1'200")).toBe("CHF");
+    expect(currencyFromText("£450")).toBe("GBP");
+    expect(currencyFromText("¥120,000")).toBe("JPY");
+    expect(currencyFromText("450")).toBeUndefined();
+  });
+
+  it("falls back to the marketplace domain", () => {
+    expect(currencyFromHost("https://www.ebay.co.uk/itm/1")).toBe("GBP");
+    expect(currencyFromHost("https://www.ebay.de/itm/1")).toBe("EUR");
+    expect(currencyFromHost("https://www.ebay.com/itm/1")).toBeUndefined();
+    expect(currencyFromHost("not a url")).toBeUndefined();
+  });
+});
+
+describe("findItemPrice", () => {
+  it("skips was-prices and takes shipping after the item price", () => {
+    const { price, shipping } = findItemPrice("Was £3,000 now £2,450 Postage: £12.50");
+    expect(price).toMatchObject({ amount: 2450, currency: "GBP", kind: "item" });
+    expect(shipping).toMatchObject({ amount: 12.5, kind: "shipping" });
+  });
+
+  it("reads a trailing shipping label and ignores related listings", () => {
+    const { price, shipping } = findItemPrice("€1.200,00 + €25 shipping. Similar items: €90 €120");
+    expect(price).toMatchObject({ amount: 1200, currency: "EUR" });
+    expect(shipping).toMatchObject({ amount: 25 });
+    expect(findItemPrice("You may also like: $40").price).toBeUndefined();
+  });
+});
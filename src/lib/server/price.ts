@@ -0,0 +1,123 @@
+export type PriceKind = "item" | "shipping" | "was" | "related";
+
+export type PriceCandidate = {
+  amount: number;
+  currency?: string;
+  kind: PriceKind;
+  index: number;
+  raw: string;
+};
+
+// Multi-character markers go first so "US$" and "CHF" are not read as "$" or an unknown code.
+const CURRENCY_MARKERS: Array<[string, RegExp]> = [
+  ["USD", /\bUS\s?\$|\bUSD\b/i],
+  ["CAD", /\bC\$|\bCA\$|\bCAD\b/i],
+  ["AUD", /\bA\$|\bAU\$|\bAUD\b/i],
+  ["HKD", /\bHK\$|\bHKD\b/i],
+  ["CNY", /CN¥|RMB|\bCNY\b/i],
+  ["CHF", /\bCHF\b|\bSFr\.?|\bFr\.\s?(?=\d)/i],
+  ["GBP", /£|\bGBP\b/i],
+  ["EUR", /€|\bEUR\b/i],
+  ["JPY", /¥|円|\bJPY\b/i],
+  ["USD", /\$/],
+];
+const SYMBOL = String.raw`(?:\bUS\s?\$|\bC\$|\bCA\$|\bA\$|\bAU\$|\bHK\$|CN¥|RMB|CHF|SFr\.?|£|€|¥|\$|\b(?:USD|GBP|EUR|JPY|CAD|AUD|HKD|CNY)\b)`;
+const AMOUNT = String.raw`\d{1,3}(?:[.,'’\s]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?`;
+const PRICE_PATTERN = new RegExp(
+  String.raw`(${SYMBOL})\s?(${AMOUNT})|(${AMOUNT})\s?(${SYMBOL}|円)`,
+  "gi"
+);
+
+const HOST_CURRENCIES: Array<[RegExp, string]> = [
+  [/\.(?:co\.uk|uk)$/, "GBP"],
+  [/\.ch$/, "CHF"],
+  [/\.(?:co\.jp|jp)$/, "JPY"],
+  [/\.com\.au$/, "AUD"],
+  [/\.ca$/, "CAD"],
+  [/\.com\.hk$/, "HKD"],
+  [/\.(?:de|fr|it|es|nl|ie|at|be|pt|fi|gr)$/, "EUR"],
+];
+
+const SHIPPING_WORDS = String.raw`shipping|postage|delivery|p\s?&\s?p|courier|freight|versand|livraison|spedizione|env[ií]o`;
+const SHIPPING_CONTEXT = new RegExp(String.raw`\b(?:${SHIPPING_WORDS})\b[^.!\n]{0,30}$`, "i");
+// "£12 shipping" labels the amount before it; "£2,450 Postage: £12" starts a new field.
+const SHIPPING_AFTER = new RegExp(String.raw`^\s*(?:${SHIPPING_WORDS})\b(?!\s*:)`, "i");
+const WAS_CONTEXT = /\b(?:was|previously|original(?:ly)?(?: price)?|rrp|list price|retail(?: price)?|msrp|save|you save)\s*:?\s*$/i;
+// Anything after these headings belongs to other listings on the page.
+const RELATED_HEADING =
+  /\b(?:similar (?:items|sponsored items|listings)|related (?:items|listings|products)|you may also like|people (?:who viewed this item )?also viewed|more from this seller|sponsored items|recently viewed|customers also bought)\b/i;
+
+export function currencyFromText(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return CURRENCY_MARKERS.find(([, pattern]) => pattern.test(value))?.[0];
+}
+
+export function currencyFromHost(url: string): string | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return HOST_CURRENCIES.find(([pattern]) => pattern.test(hostname))?.[1];
+}
+
+// Handles "1,234.56", "1.234,56", "1 234,56" and "1'234.50"; a lone separator followed by three digits groups thousands.
+export function parsePriceAmount(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const match = value.match(new RegExp(AMOUNT));
+  if (!match) return undefined;
+  const digits = match[0].replace(/[’'\s]/g, "");
+  const lastDot = digits.lastIndexOf(".");
+  const lastComma = digits.lastIndexOf(",");
+  let normalized: string;
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const group = decimal === "." ? "," : ".";
+    normalized = digits.split(group).join("").replace(decimal, ".");
+  } else {
+    const separator = lastDot >= 0 ? "." : lastComma >= 0 ? "," : "";
+    const parts = separator ? digits.split(separator) : [digits];
+    const isGrouping = parts.length > 2 || (parts.length === 2 && parts[1].length === 3);
+    normalized = isGrouping ? parts.join("") : parts.join(".");
+  }
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function classify(text: string, index: number, length: number, relatedFrom: number): PriceKind {
+  if (relatedFrom >= 0 && index > relatedFrom) return "related";
+  const before = text.slice(Math.max(0, index - 48), index);
+  const after = text.slice(index + length, index + length + 24);
+  if (SHIPPING_CONTEXT.test(before) || SHIPPING_AFTER.test(after)) return "shipping";
+  if (WAS_CONTEXT.test(before)) return "was";
+  return "item";
+}
+
+export function scanPrices(text: string): PriceCandidate[] {
+  const related = text.search(RELATED_HEADING);
+  const candidates: PriceCandidate[] = [];
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const symbol = match[1] ?? match[4];
+    const amount = parsePriceAmount(match[2] ?? match[3]);
+    if (typeof amount !== "number" || amount <= 0) continue;
+    const index = match.index ?? 0;
+    candidates.push({
+      amount,
+      currency: currencyFromText(symbol),
+      kind: classify(text, index, match[0].length, related),
+      index,
+      raw: match[0].trim(),
+    });
+  }
+  return candidates;
+}
+
+export function findItemPrice(text: string): { price?: PriceCandidate; shipping?: PriceCandidate } {
+  const candidates = scanPrices(text);
+  const price = candidates.find((candidate) => candidate.kind === "item");
+  const shipping = candidates.find(
+    (candidate) => candidate.kind === "shipping" && (!price || candidate.index > price.index)
+  );
+  return { price, shipping };
+}
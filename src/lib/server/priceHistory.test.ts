@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { comparablesToCheck, computePriceContext, percentileToCheck, recordPriceObservation, trendBandToCheck } from "./priceHistory";
+import { listPriceObservations } from "./store";
+import { ListingRecord } from "./types";
+
+function listing(id: string, price: number | undefined, artistId = "stik", workId?: string): ListingRecord {
+  return {
+    listingId: id,
+    source: "ebay",
+    url: `https://www.ebay.co.uk/itm/${id}`,
+    fetchedAt: "2026-10-19T09:00:00Z",
+    currency: "GBP",
+    price,
+    artwork: { title: "Big Mother", catalogueWorkId: workId },
+    artist: { id: artistId, name: "Stik" },
+    visual: { imageUrls: [] },
+  };
+}
+
+const at = (iso: string) => new Date(iso);
+
+describe("recordPriceObservation", () => {
+  it("keeps one observation a day and records an unchanged price once a month", () => {
+    const item = listing("rescanned", 500, "dedupe-artist");
+    for (let hour = 0; hour < 24; hour += 1) recordPriceObservation(item, at(`2026-10-01T${String(hour).padStart(2, "0")}:00:00Z`));
+    recordPriceObservation({ ...item, price: 450 }, at("2026-10-01T23:30:00Z"));
+    recordPriceObservation({ ...item, price: 450 }, at("2026-10-02T08:00:00Z"));
+    recordPriceObservation({ ...item, price: 450 }, at("2026-11-02T08:00:00Z"));
+    expect(listPriceObservations({ artistId: "dedupe-artist" }).map((entry) => [entry.observedAt.slice(0, 10), entry.price])).toEqual([
+      ["2026-10-01", 450],
+      ["2026-11-02", 450],
+    ]);
+  });
+
+  it("caps the history of a single listing", () => {
+    const item = listing("volatile", 100, "capped-artist");
+    for (let day = 0; day < 40; day += 1) {
+      recordPriceObservation({ ...item, price: 200 + day }, new Date(Date.UTC(2026, 0, 1 + day)));
+    }
+    const history = listPriceObservations({ artistId: "capped-artist" });
+    expect(history).toHaveLength(24);
+    expect(history.at(-1)?.price).toBe(239);
+  });
+
+  it("skips listings without a price or a resolved artist", () => {
+    recordPriceObservation(listing("no-price", undefined, "skipped-artist"));
+    recordPriceObservation({ ...listing("no-artist", 100), artist: {} });
+    expect(listPriceObservations({ artistId: "skipped-artist" })).toEqual([]);
+  });
+});
+
+describe("computePriceContext", () => {
+  const now = at("2026-10-19T12:00:00Z");
+
+  it("places the listing among the latest price of each comparable", () => {
+    [300, 400, 500, 600].forEach((price, index) => recordPriceObservation(listing(`cmp${index}`, price, "band-artist"), at("2026-09-01T00:00:00Z")));
+    // A later repricing replaces the listing's earlier price in the band but still feeds the trend.
+    recordPriceObservation(listing("cmp3", 700, "band-artist"), at("2026-10-01T00:00:00Z"));
+    // Too old for the 12-month window.
+    recordPriceObservation(listing("stale", 10_000, "band-artist"), at("2025-01-01T00:00:00Z"));
+
+    const stats = computePriceContext(listing("subject", 450, "band-artist"), now)!;
+    expect(stats).toMatchObject({ scope: "artist", sampleSize: 4, band: { low: 375, median: 450, high: 550 }, percentile: 50 });
+    expect(stats.months).toEqual([
+      { month: "2026-09", median: 450, count: 4 },
+      { month: "2026-10", median: 700, count: 1 },
+    ]);
+    expect(stats.trendPercent).toBe(55.6);
+    expect(comparablesToCheck(stats).value).toBe("Needs review");
+    expect(percentileToCheck(stats, 450).value).toBe("Good");
+    expect(trendBandToCheck(stats, 900)).toMatchObject({ value: "Needs review" });
+  });
+
+  it("prefers the work's own history once it has enough listings", () => {
+    [1000, 1100, 1200].forEach((price, index) => recordPriceObservation(listing(`work${index}`, price, "work-artist", "work-1"), at("2026-09-01T00:00:00Z")));
+    recordPriceObservation(listing("other-work", 50, "work-artist", "work-2"), at("2026-09-01T00:00:00Z"));
+    expect(computePriceContext(listing("subject-work", 1100, "work-artist", "work-1"), now)).toMatchObject({ scope: "work", sampleSize: 3 });
+    expect(computePriceContext(listing("subject-thin", 1100, "work-artist", "work-2"), now)).toMatchObject({ scope: "artist", sampleSize: 4 });
+  });
+
+  it("leaves the checks at missing evidence without history", () => {
+    const stats = computePriceContext(listing("lonely", 100, "unknown-artist"), now);
+    expect(comparablesToCheck(stats).value).toBe("Missing evidence");
+    expect(percentileToCheck(stats, 100).value).toBe("Missing evidence");
+    expect(percentileToCheck(stats, undefined).detail).toMatch(/No concrete listing price/);
+  });
+});
@@ -0,0 +1,161 @@
+import { convertOnDate } from "./fx";
+import { addPriceObservation, listPriceObservations, PriceObservation } from "./store";
+import { ListingRecord, PriceMarketStats, SnapshotBucketCheck } from "./types";
+
+const WINDOW_MONTHS = 12;
+const MIN_COMPARABLES = 3;
+const SOLID_COMPARABLES = 5;
+
+export function recordPriceObservation(listing: ListingRecord, observedAt = new Date()): void {
+  if (typeof listing.price !== "number" || !listing.artist.id) return;
+  addPriceObservation({
+    listingId: listing.listingId,
+    url: listing.url,
+    source: listing.source,
+    artistId: listing.artist.id,
+    artistName: listing.artist.name,
+    workId: listing.artwork.catalogueWorkId,
+    price: listing.price,
+    currency: listing.currency,
+    observedAt: observedAt.toISOString(),
+  });
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (!sorted.length) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function monthKey(iso: string): string {
+  return iso.slice(0, 7);
+}
+
+// The latest observation per listing stands for that listing; older ones only feed the monthly trend.
+function latestPerListing(observations: PriceObservation[]): PriceObservation[] {
+  const byListing = new Map<string, PriceObservation>();
+  for (const entry of observations) {
+    const existing = byListing.get(entry.listingId);
+    if (!existing || existing.observedAt < entry.observedAt) byListing.set(entry.listingId, entry);
+  }
+  return [...byListing.values()];
+}
+
+export function computePriceContext(listing: ListingRecord, now = new Date()): PriceMarketStats | undefined {
+  if (!listing.artist.id) return undefined;
+  const since = new Date(now);
+  since.setUTCMonth(since.getUTCMonth() - WINDOW_MONTHS);
+  const inWindow = (entry: PriceObservation) =>
+    entry.listingId !== listing.listingId && entry.url !== listing.url && new Date(entry.observedAt) >= since;
+  // Foreign-currency observations are converted at the rates of the day they were seen.
+  const inListingCurrency = (entries: PriceObservation[]): PriceObservation[] =>
+    entries.filter(inWindow).flatMap((entry) => {
+      const price = convertOnDate(entry.price, entry.currency, listing.currency, entry.observedAt);
+      return typeof price === "number" ? [{ ...entry, price, currency: listing.currency }] : [];
+    });
+
+  // Work-level history is the better comparison; fall back to the artist when the work is thin.
+  const workHistory = listing.artwork.catalogueWorkId
+    ? inListingCurrency(listPriceObservations({ workId: listing.artwork.catalogueWorkId }))
+    : [];
+  const useWork = latestPerListing(workHistory).length >= MIN_COMPARABLES;
+  const history = useWork ? workHistory : inListingCurrency(listPriceObservations({ artistId: listing.artist.id }));
+  const comparables = latestPerListing(history);
+  const prices = comparables.map((entry) => entry.price).sort((a, b) => a - b);
+
+  const byMonth = new Map<string, number[]>();
+  for (const entry of history) {
+    const key = monthKey(entry.observedAt);
+    byMonth.set(key, [...(byMonth.get(key) ?? []), entry.price]);
+  }
+  const months = [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, values]) => ({
+      month,
+      median: round(quantile([...values].sort((a, b) => a - b), 0.5)),
+      count: values.length,
+    }));
+
+  const stats: PriceMarketStats = {
+    scope: useWork ? "work" : "artist",
+    currency: listing.currency,
+    sampleSize: prices.length,
+    months,
+  };
+  if (prices.length) {
+    stats.band = {
+      low: round(quantile(prices, 0.25)),
+      median: round(quantile(prices, 0.5)),
+      high: round(quantile(prices, 0.75)),
+    };
+  }
+  if (typeof listing.price === "number" && prices.length >= MIN_COMPARABLES) {
+    const price = listing.price;
+    const below = prices.filter((value) => value < price).length;
+    const equal = prices.filter((value) => value === price).length;
+    stats.percentile = Math.round(((below + equal / 2) / prices.length) * 100);
+  }
+  if (months.length >= 2) {
+    const first = months[0].median;
+    const last = months[months.length - 1].median;
+    stats.trendPercent = first ? Math.round(((last - first) / first) * 1000) / 10 : undefined;
+  }
+  return stats;
+}
+
+function formatAmount(value: number, currency: string): string {
+  return `${currency} ${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+export function comparablesToCheck(stats?: PriceMarketStats): SnapshotBucketCheck {
+  const label = "Comparable listings";
+  if (!stats?.sampleSize) {
+    return { label, value: "Missing evidence", detail: "No earlier observations of this artist or work yet." };
+  }
+  const scope = stats.scope === "work" ? "this work" : "this artist";
+  return {
+    label,
+    value: stats.sampleSize >= SOLID_COMPARABLES ? "Good" : "Needs review",
+    detail: `${stats.sampleSize} comparable listing${stats.sampleSize === 1 ? "" : "s"} for ${scope} in the last 12 months.`,
+  };
+}
+
+export function percentileToCheck(stats: PriceMarketStats | undefined, price?: number): SnapshotBucketCheck {
+  const label = "Percentile position";
+  if (typeof price !== "number") {
+    return { label, value: "Missing evidence", detail: "No concrete listing price extracted." };
+  }
+  if (typeof stats?.percentile !== "number") {
+    return { label, value: "Missing evidence", detail: "Not enough comparable prices to place this listing yet." };
+  }
+  const { percentile } = stats;
+  // Far below market is as suspicious as far above it.
+  if (percentile < 5) {
+    return { label, value: "Needs review", detail: `Cheaper than ${100 - percentile}% of comparables — check why.` };
+  }
+  if (percentile > 90) {
+    return { label, value: "Needs review", detail: `More expensive than ${percentile}% of comparables.` };
+  }
+  return { label, value: "Good", detail: `Sits at the ${percentile}th percentile of comparable prices.` };
+}
+
+export function trendBandToCheck(stats: PriceMarketStats | undefined, price?: number): SnapshotBucketCheck {
+  const label = "12-month trend band";
+  if (!stats?.band || stats.sampleSize < MIN_COMPARABLES || typeof price !== "number") {
+    return { label, value: "Missing evidence", detail: "Not enough price history for a 12-month band." };
+  }
+  const { low, high } = stats.band;
+  const band = `${formatAmount(low, stats.currency)}–${formatAmount(high, stats.currency)}`;
+  const trend =
+    typeof stats.trendPercent === "number" ? ` Trend ${stats.trendPercent >= 0 ? "+" : ""}${stats.trendPercent}% over 12 months.` : "";
+  if (price < low || price > high) {
+    return { label, value: "Needs review", detail: `Price falls outside the typical band ${band}.${trend}` };
+  }
+  return { label, value: "Good", detail: `Price is inside the typical band ${band}.${trend}` };
+}
@@ -1,5 +1,8 @@
+import { createHash, timingSafeEqual } from "node:crypto";
 import { NextRequest } from "next/server";
+import { env } from "@/lib/env";
 import { verifyAccessToken } from "./auth";
+import { HttpError } from "./validation";
 
 export function getAuthUser(req: NextRequest): { userId: string; email?: string } {
   const auth = req.headers.get("authorization");
@@ -9,3 +12,14 @@ export function getAuthUser(req: NextRequest): { userId: string; email?: string
   const token = auth.slice(7);
   return verifyAccessToken(token);
 }
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Endpoints that change data for every user take the operator's key, not a user token; they are off when no key is set.
+export function requireAdminKey(req: NextRequest): void {
+  if (!env.ADMIN_API_KEY) throw new HttpError("This endpoint is disabled; set ADMIN_API_KEY to enable it.", 403);
+  const given = req.headers.get("x-admin-key") ?? "";
+  if (!timingSafeEqual(digest(given), digest(env.ADMIN_API_KEY))) throw new HttpError("A valid X-Admin-Key header is required.", 403);
+}
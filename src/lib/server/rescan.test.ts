@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { rescanWatchlist, SnapshotBuilder } from "./rescan";
+import { latestVersionNumber } from "./snapshotHistory";
+import { addWatchlist, appendSnapshotVersion, ensureUser, listAlerts, listWatchlist } from "./store";
+import { SnapshotResponseBody } from "./types";
+
+const LISTING_ID = "ebay_1001";
+const URL = "https://www.ebay.com/itm/1001";
+
+function response(price: number, score: number): SnapshotResponseBody {
+  return {
+    source: "ebay",
+    rubricVersion: "6.0.0",
+    snapshot: {
+      listingId: LISTING_ID,
+      score,
+      status: score >= 70 ? "Good" : "Needs review",
+      recommendedAction: "Proceed",
+      topPositiveSignals: [],
+      topMissingOrSuspiciousSignals: [],
+      buckets: [],
+    },
+    artworkOverview: {
+      imageUrls: ["https://i.ebayimg.com/1.jpg"],
+      artistName: "Banksy",
+      title: "Girl with Balloon",
+      dimensions: "50 x 70 cm",
+      measurements: [],
+      price,
+      currency: "GBP",
+      medium: "Screenprint",
+      yearOfRelease: "2004",
+      edition: "23/150",
+      confidence: {},
+    },
+  };
+}
+
+// Stands in for a live scan: every call records a version, as buildSnapshotFromUrl does.
+function scan(price: number, score: number) {
+  const body = response(price, score);
+  appendSnapshotVersion({ listingId: LISTING_ID, url: URL, capturedAt: new Date().toISOString(), response: body });
+  return body;
+}
+
+const builder = (price: number, score: number): SnapshotBuilder => async () => scan(price, score);
+
+function watch(userId: string) {
+  addWatchlist(userId, {
+    listingId: LISTING_ID,
+    source: "ebay",
+    url: URL,
+    title: "Girl with Balloon",
+    price: 1000,
+    currency: "GBP",
+    score: 80,
+    lastSeenVersion: latestVersionNumber(LISTING_ID),
+  });
+}
+
+describe("rescanWatchlist", () => {
+  it("compares each user's rescan with the version that user last saw", async () => {
+    const alice = ensureUser("alice@example.com");
+    const bob = ensureUser("bob@example.com");
+    scan(1000, 80);
+    watch(alice.id);
+    watch(bob.id);
+
+    const [first] = await rescanWatchlist(alice.id, alice.email, builder(800, 60));
+    expect(first.priceChange).toMatchObject({ from: 1000, to: 800, changePercent: -20 });
+    expect(first.scoreChange).toEqual({ from: 80, to: 60, change: -20 });
+
+    // A manual snapshot in between must not use up Bob's change.
+    scan(800, 60);
+    const [second] = await rescanWatchlist(bob.id, bob.email, builder(800, 60));
+    expect(second.priceChange).toMatchObject({ from: 1000, to: 800 });
+    expect(second.scoreChange).toEqual({ from: 80, to: 60, change: -20 });
+    expect(listAlerts(bob.id).map((alert) => alert.type).sort()).toEqual(["priceDrop", "scoreDowngrade"]);
+
+    // Alice has already seen the drop.
+    const [again] = await rescanWatchlist(alice.id, alice.email, builder(800, 60));
+    expect(again.priceChange).toBeUndefined();
+    expect(again.scoreChange).toBeUndefined();
+    expect(listAlerts(alice.id)).toHaveLength(2);
+    expect(listWatchlist(alice.id)[0]).toMatchObject({ price: 800, score: 60, lastSeenVersion: latestVersionNumber(LISTING_ID) });
+  });
+
+  it("falls back to the watchlist entry when the last seen version is unknown", async () => {
+    const carol = ensureUser("carol@example.com");
+    addWatchlist(carol.id, { listingId: LISTING_ID, source: "ebay", url: URL, title: "Girl with Balloon", price: 900, currency: "GBP", score: 70 });
+
+    const [result] = await rescanWatchlist(carol.id, carol.email, builder(990, 75));
+    expect(result.priceChange).toMatchObject({ from: 900, to: 990, changePercent: 10 });
+    expect(result.scoreChange).toEqual({ from: 70, to: 75, change: 5 });
+  });
+});
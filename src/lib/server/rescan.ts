@@ -0,0 +1,154 @@
+import { AlertEvent, getAlertRules, raiseAlert } from "./alerts";
+import { buildSnapshotFromUrl } from "./snapshot";
+import { diffSnapshotVersions, SnapshotDiff } from "./snapshotHistory";
+import { AlertRules, CompactSnapshotResponse, listSnapshotVersions, listWatchlist, updateWatchlistItem, WatchlistItem } from "./store";
+import { SnapshotResponseBody } from "./types";
+
+const RESCAN_CONCURRENCY = 3;
+const NOT_PROVIDED = "Not provided";
+
+export type RescanItemResult = {
+  listingId: string;
+  url: string;
+  updated: boolean;
+  // Set when the listing could not be rescanned; the change fields are then empty.
+  error?: string;
+  listingEnded: boolean;
+  priceChange?: { from?: number; to?: number; currency: string; change?: number; changePercent?: number };
+  scoreChange?: { from: number; to: number; change: number };
+  // Fields the previous scan had that this one no longer finds.
+  missingFields: string[];
+  alerts: string[];
+};
+
+export type SnapshotBuilder = (url: string) => Promise<SnapshotResponseBody>;
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function presentFields(overview: CompactSnapshotResponse["artworkOverview"]): Set<string> {
+  const fields = new Set<string>();
+  if (typeof overview.price === "number") fields.add("price");
+  if (overview.title && !/^untitled( listing)?$/i.test(overview.title)) fields.add("title");
+  if (overview.imageUrls.length) fields.add("images");
+  if (overview.dimensions !== NOT_PROVIDED) fields.add("dimensions");
+  if (overview.medium !== NOT_PROVIDED) fields.add("medium");
+  if (overview.yearOfRelease !== NOT_PROVIDED) fields.add("yearOfRelease");
+  if (overview.edition !== NOT_PROVIDED) fields.add("edition");
+  if (overview.seller?.username) fields.add("seller");
+  return fields;
+}
+
+function presentInWatchlistItem(item: WatchlistItem): Set<string> {
+  const fields = new Set<string>();
+  if (typeof item.price === "number") fields.add("price");
+  if (item.title && !/^untitled( listing)?$/i.test(item.title)) fields.add("title");
+  if (item.thumbnailUrl) fields.add("images");
+  return fields;
+}
+
+// Without the version this user last saw (never rescanned, or pruned since), the watchlist entry is the baseline.
+function comparePrice(item: WatchlistItem, snapshot: SnapshotResponseBody, diff?: SnapshotDiff): RescanItemResult["priceChange"] {
+  if (diff) {
+    if (!diff.price) return undefined;
+    const { from, to, currencyTo, change, changePercent } = diff.price;
+    return { from, to, currency: currencyTo, change, changePercent };
+  }
+  const { price, currency } = snapshot.artworkOverview;
+  const saved = item.price;
+  if (saved === price) return undefined;
+  if (typeof saved !== "number" || typeof price !== "number" || item.currency !== currency) {
+    return { from: saved, to: price, currency };
+  }
+  return {
+    from: saved,
+    to: price,
+    currency,
+    change: Math.round((price - saved) * 100) / 100,
+    changePercent: saved ? Math.round(((price - saved) / saved) * 1000) / 10 : undefined,
+  };
+}
+
+function compareScore(item: WatchlistItem, snapshot: SnapshotResponseBody, diff?: SnapshotDiff): RescanItemResult["scoreChange"] {
+  if (diff) return diff.score.change ? diff.score : undefined;
+  const { score } = snapshot.snapshot;
+  if (item.score === undefined || item.score === score) return undefined;
+  return { from: item.score, to: score, change: score - item.score };
+}
+
+// Only the rescan that first sees the listing gone raises an alert.
+function endedResult(userId: string, item: WatchlistItem, rules: AlertRules): RescanItemResult {
+  const alert = item.ended ? undefined : raiseAlert(userId, { type: "listingEnded", listingId: item.listingId, title: item.title }, rules);
+  const alerts = alert ? [alert.message] : [];
+  updateWatchlistItem(userId, item.listingId, { ended: true, endedAt: item.endedAt ?? new Date().toISOString() });
+  return { listingId: item.listingId, url: item.url, updated: true, listingEnded: true, missingFields: [], alerts };
+}
+
+async function rescanItem(userId: string, item: WatchlistItem, rules: AlertRules, build: SnapshotBuilder): Promise<RescanItemResult> {
+  let snapshot: SnapshotResponseBody;
+  try {
+    snapshot = await build(item.url);
+  } catch (error) {
+    const message = (error as Error)?.message || "Rescan failed.";
+    if (/could not fetch listing \((?:404|410)\)/i.test(message)) return endedResult(userId, item, rules);
+    return { listingId: item.listingId, url: item.url, updated: false, error: message, listingEnded: false, missingFields: [], alerts: [] };
+  }
+
+  if (snapshot.artworkOverview.listingEnded) return endedResult(userId, item, rules);
+  const listingId = snapshot.snapshot.listingId;
+  const versions = listSnapshotVersions(listingId);
+  const latest = versions[versions.length - 1];
+  // Other users' rescans and manual snapshots add versions too, so the diff starts from what this user last saw.
+  const seen = versions.find((entry) => entry.version === item.lastSeenVersion);
+  const diff = seen && latest && seen !== latest ? diffSnapshotVersions(seen, latest) : undefined;
+
+  const before = seen ? presentFields(seen.response.artworkOverview) : presentInWatchlistItem(item);
+  const after = presentFields(snapshot.artworkOverview);
+  const missingFields = [...before].filter((field) => !after.has(field));
+  const priceChange = comparePrice(item, snapshot, diff);
+  const scoreChange = compareScore(item, snapshot, diff);
+
+  const { title } = item;
+  const events: AlertEvent[] = [];
+  if (priceChange?.changePercent && priceChange.from !== undefined && priceChange.to !== undefined) {
+    const { from, to, currency, changePercent } = priceChange;
+    events.push({ type: changePercent < 0 ? "priceDrop" : "priceRise", listingId, title, from, to, currency, changePercent });
+  }
+  if (scoreChange && scoreChange.change < 0) events.push({ type: "scoreDowngrade", listingId, title, from: scoreChange.from, to: scoreChange.to });
+  const edited = [diff?.title ? "title" : undefined, diff?.description ? "description" : undefined].filter((field): field is string => Boolean(field));
+  if (edited.length || missingFields.length) events.push({ type: "listingEdited", listingId, title, edited, missingFields });
+  const alerts = events.flatMap((event) => raiseAlert(userId, event, rules)?.message ?? []);
+
+  updateWatchlistItem(userId, item.listingId, {
+    ended: false,
+    endedAt: undefined,
+    title: snapshot.artworkOverview.title || item.title,
+    thumbnailUrl: snapshot.artworkOverview.imageUrls[0] ?? item.thumbnailUrl,
+    price: snapshot.artworkOverview.price,
+    currency: snapshot.artworkOverview.currency,
+    score: snapshot.snapshot.score,
+    lastSeenVersion: latest?.version,
+  });
+  return { listingId, url: item.url, updated: true, listingEnded: false, priceChange, scoreChange, missingFields, alerts };
+}
+
+// One failing listing never fails the batch; its error is reported on its own result.
+export async function rescanWatchlist(
+  userId: string,
+  email?: string,
+  build: SnapshotBuilder = buildSnapshotFromUrl
+): Promise<RescanItemResult[]> {
+  const rules = getAlertRules(userId, email);
+  return mapWithConcurrency(listWatchlist(userId), RESCAN_CONCURRENCY, (item) => rescanItem(userId, item, rules, build));
+}
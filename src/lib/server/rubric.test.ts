@@ -0,0 +1,49 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { getActiveRubric, getRubric, listRubricVersions, scoringRubricSchema } from "./rubric";
+
+const RUBRIC_DIR = join(__dirname, "rubrics");
+const files = readdirSync(RUBRIC_DIR).filter((name) => name.endsWith(".json"));
+
+describe("bundled rubrics", () => {
+  it("bundles every rubric file, newest last", () => {
+    const versions = files.map((name) => JSON.parse(readFileSync(join(RUBRIC_DIR, name), "utf8")).version as string);
+    expect(listRubricVersions()).toEqual(expect.arrayContaining(versions));
+    expect(getActiveRubric().version).toBe(versions.sort((a, b) => a.localeCompare(b, undefined, { numeric: true })).at(-1));
+  });
+
+  it.each(files)("%s passes the schema", (name) => {
+    const parsed = scoringRubricSchema.safeParse(JSON.parse(readFileSync(join(RUBRIC_DIR, name), "utf8")));
+    expect(parsed.error?.issues).toBeUndefined();
+  });
+
+  it.each(listRubricVersions())("%s has weights that add up and a penalty that fits its buckets", (version) => {
+    const rubric = getRubric(version)!;
+    const bucketKeys = rubric.buckets.map((bucket) => bucket.key);
+    expect(rubric.buckets.reduce((sum, bucket) => sum + bucket.weight, 0)).toBe(100);
+
+    const checkIds = rubric.buckets.flatMap((bucket) => bucket.checks.map((check) => check.id));
+    expect(new Set(checkIds).size).toBe(checkIds.length);
+
+    if (rubric.redFlagPenalty) {
+      expect(bucketKeys).toEqual(expect.arrayContaining(rubric.redFlagPenalty.buckets));
+      expect(rubric.redFlagPenalty.maxPoints).toBeGreaterThanOrEqual(rubric.redFlagPenalty.pointsPerFlag);
+    }
+    for (const rule of rubric.actionRules) {
+      expect(bucketKeys).toEqual(expect.arrayContaining([...(rule.when.noBucketStatus?.buckets ?? []), ...(rule.when.anyCheckValue?.buckets ?? [])]));
+    }
+  });
+
+  it("rejects a rubric whose weights do not add up to 100", () => {
+    const rubric = structuredClone(getActiveRubric());
+    rubric.buckets[0].weight += 5;
+    expect(scoringRubricSchema.safeParse(rubric).error?.issues.map((issue) => issue.message)).toContain("Bucket weights must add up to 100.");
+  });
+
+  it("rejects a malformed red-flag penalty", () => {
+    const rubric = { ...structuredClone(getActiveRubric()), redFlagPenalty: { buckets: [], pointsPerFlag: 10, maxPoints: 300 } };
+    const paths = scoringRubricSchema.safeParse(rubric).error?.issues.map((issue) => issue.path.join("."));
+    expect(paths).toEqual(expect.arrayContaining(["redFlagPenalty.buckets", "redFlagPenalty.maxPoints"]));
+  });
+});
@@ -0,0 +1,149 @@
+import { existsSync, readFileSync } from "node:fs";
+import { z } from "zod";
+import { env } from "@/lib/env";
+import rubricV1 from "./rubrics/v1.json";
+import rubricV2 from "./rubrics/v2.json";
+import rubricV3 from "./rubrics/v3.json";
+import rubricV4 from "./rubrics/v4.json";
+import rubricV5 from "./rubrics/v5.json";
+import rubricV6 from "./rubrics/v6.json";
+
+export const CHECK_IDS = [
+  "coa",
+  "signature",
+  "edition",
+  "catalogueMatch",
+  "provenance",
+  "releaseContext",
+  "comparableListings",
+  "trendBand",
+  "percentile",
+  "returnPolicy",
+  "insurance",
+  "buyerProtection",
+  "sellerReliability",
+  "sellerPattern",
+  "imageQuality",
+  "detailShots",
+  "documents",
+  "photoReuse",
+  "imageMetadata",
+  "reproductionLanguage",
+  "attributionHedging",
+  "unofficialMerch",
+] as const;
+
+export type CheckId = (typeof CHECK_IDS)[number];
+
+const bucketKeySchema = z.enum(["authenticity", "provenance", "price", "risk", "visual", "redFlags"]);
+const confidenceStatusSchema = z.enum(["Good", "Needs review", "Missing evidence"]);
+const recommendedActionSchema = z.enum(["Proceed", "Ask seller for docs", "Wait/monitor"]);
+const scoreSchema = z.number().min(0).max(100);
+
+const actionRuleSchema = z.object({
+  action: recommendedActionSchema,
+  when: z.object({
+    minScore: scoreSchema.optional(),
+    maxScore: scoreSchema.optional(),
+    // The rule is skipped if any listed bucket ends up with this status.
+    noBucketStatus: z
+      .object({ buckets: z.array(bucketKeySchema).min(1), status: confidenceStatusSchema })
+      .optional(),
+    // The rule applies only if some check in the listed buckets has this value.
+    anyCheckValue: z
+      .object({ buckets: z.array(bucketKeySchema).min(1), value: confidenceStatusSchema.or(z.literal("Red flag")) })
+      .optional(),
+  }),
+});
+
+export const scoringRubricSchema = z
+  .object({
+    version: z.string().min(1, "Rubric version is required."),
+    description: z.string().optional(),
+    statusThresholds: z
+      .object({ good: scoreSchema, needsReview: scoreSchema })
+      .refine((value) => value.good >= value.needsReview, "Good threshold must not be below the review threshold."),
+    checkValueScores: z.object({
+      Good: z.number().min(0).max(1),
+      "Needs review": z.number().min(0).max(1),
+      "Missing evidence": z.number().min(0).max(1),
+      "Red flag": z.number().min(0).max(1),
+    }),
+    buckets: z
+      .array(
+        z.object({
+          key: bucketKeySchema,
+          label: z.string().min(1),
+          weight: z.number().min(0).max(100),
+          // Negative buckets pass when nothing is found, so their "Good" checks are not positive signals.
+          negative: z.boolean().optional(),
+          checks: z
+            .array(z.object({ id: z.enum(CHECK_IDS), label: z.string().min(1), weight: z.number().positive().optional() }))
+            .min(1, "Every bucket needs at least one check."),
+        })
+      )
+      .min(1),
+    // Points taken off the overall score for each red flag raised in the listed buckets.
+    redFlagPenalty: z
+      .object({
+        buckets: z.array(bucketKeySchema).min(1),
+        pointsPerFlag: z.number().min(0).max(100),
+        maxPoints: z.number().min(0).max(100),
+      })
+      .optional(),
+    actionRules: z.array(actionRuleSchema),
+    defaultAction: recommendedActionSchema,
+  })
+  .refine(
+    (rubric) => Math.round(rubric.buckets.reduce((sum, bucket) => sum + bucket.weight, 0)) === 100,
+    "Bucket weights must add up to 100."
+  )
+  .refine(
+    (rubric) => new Set(rubric.buckets.map((bucket) => bucket.key)).size === rubric.buckets.length,
+    "Bucket keys must be unique."
+  );
+
+export type ScoringRubric = z.infer<typeof scoringRubricSchema>;
+export type ActionRule = ScoringRubric["actionRules"][number];
+
+// Older versions stay bundled so a stored report can always be explained by the rubric that produced it,
+// which is why each version is a full copy rather than a patch on the last. What each one changed:
+//   1.0.0  five buckets: authenticity 35, provenance 20, price 20, risk 15, visual 10.
+//   2.0.0  red-flag bucket (10, taken from authenticity and provenance); each flag costs 10 points (30 at most) and holds at "Wait/monitor".
+//   3.0.0  "catalogueMatch" in authenticity.
+//   4.0.0  "sellerPattern" in risk; risk red flags count toward the penalty and the hold.
+//   5.0.0  "photoReuse" in visual; visual red flags count toward the penalty and the hold.
+//   6.0.0  "imageMetadata" in visual.
+const BUNDLED_RUBRICS: ScoringRubric[] = [rubricV1, rubricV2, rubricV3, rubricV4, rubricV5, rubricV6].map((definition) => scoringRubricSchema.parse(definition));
+
+function loadConfiguredRubric(): ScoringRubric | undefined {
+  const path = env.SCORING_RUBRIC_PATH;
+  if (!path) return undefined;
+  if (!existsSync(path)) {
+    console.warn(`Scoring rubric file not found at ${path}; using bundled rubric.`);
+    return undefined;
+  }
+  try {
+    const parsed = scoringRubricSchema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+    if (parsed.success) return parsed.data;
+    console.warn("Invalid scoring rubric detected:", parsed.error.flatten().formErrors, parsed.error.flatten().fieldErrors);
+  } catch (error) {
+    console.warn(`Scoring rubric at ${path} is not valid JSON:`, (error as Error).message);
+  }
+  return undefined;
+}
+
+const activeRubric = loadConfiguredRubric() ?? BUNDLED_RUBRICS[BUNDLED_RUBRICS.length - 1];
+
+export function getActiveRubric(): ScoringRubric {
+  return activeRubric;
+}
+
+export function getRubric(version: string): ScoringRubric | undefined {
+  if (activeRubric.version === version) return activeRubric;
+  return BUNDLED_RUBRICS.find((rubric) => rubric.version === version);
+}
+
+export function listRubricVersions(): string[] {
+  return [...new Set([...BUNDLED_RUBRICS.map((rubric) => rubric.version), activeRubric.version])];
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest";
+import { createScanScheduler, nextScanAt, SchedulerClock } from "./scheduler";
+import { SnapshotBuilder } from "./rescan";
+import { addWatchlist, ensureUser, flushStore, getScanSchedule, listWatchlistOwners, saveScanSchedule, updatePreferences } from "./store";
+import { SnapshotResponseBody } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse("2026-10-19T09:00:00Z");
+
+type FakeClock = SchedulerClock & { advance(ms: number): Promise<void> };
+
+// Timers only fire when the test moves time forward.
+function fakeClock(start: number): FakeClock {
+  let now = start;
+  let nextId = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+  return {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      nextId += 1;
+      timers.set(nextId, { at: now + ms, callback });
+      return nextId;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+    async advance(ms) {
+      const target = now + ms;
+      await settle();
+      for (;;) {
+        const due = [...timers.entries()].filter(([, timer]) => timer.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+        if (!due) break;
+        timers.delete(due[0]);
+        now = due[1].at;
+        due[1].callback();
+        await settle();
+      }
+      now = target;
+    },
+  };
+}
+
+function response(url: string): SnapshotResponseBody {
+  return {
+    source: "ebay",
+    rubricVersion: "6.0.0",
+    snapshot: {
+      listingId: `test_${url.slice(-4)}`,
+      score: 70,
+      status: "Good",
+      recommendedAction: "Proceed",
+      topPositiveSignals: [],
+      topMissingOrSuspiciousSignals: [],
+      buckets: [],
+    },
+    artworkOverview: {
+      imageUrls: [],
+      artistName: "Stik",
+      title: "Big Mother",
+      dimensions: "Not provided",
+      measurements: [],
+      price: 500,
+      currency: "GBP",
+      medium: "Not provided",
+      yearOfRelease: "Not provided",
+      edition: "Not provided",
+      confidence: {},
+    },
+  };
+}
+
+function watch(userId: string, urls: string[]) {
+  for (const url of urls) addWatchlist(userId, { listingId: `test_${url.slice(-4)}`, source: "ebay", url, title: "Big Mother" });
+}
+
+function makeDue(userId: string, cadence: "hourly" | "daily", now: number) {
+  saveScanSchedule({ userId, cadence, nextRunAt: new Date(now - 1000).toISOString() });
+}
+
+describe("nextScanAt", () => {
+  it("keeps each user on a fixed slot within the period", () => {
+    const first = nextScanAt("usr_a", "hourly", START);
+    expect(first).toBeGreaterThan(START);
+    expect(first).toBeLessThanOrEqual(START + HOUR_MS);
+    expect(nextScanAt("usr_a", "hourly", first)).toBe(first + HOUR_MS);
+    expect(nextScanAt("usr_a", "hourly", first - 1)).toBe(first);
+    expect(nextScanAt("usr_a", "daily", START) % (24 * HOUR_MS)).toBe(nextScanAt("usr_a", "daily", START + 5 * HOUR_MS) % (24 * HOUR_MS));
+  });
+
+  it("spreads users across the period", () => {
+    const slots = new Set(["usr_a", "usr_b", "usr_c", "usr_d"].map((userId) => nextScanAt(userId, "hourly", START)));
+    expect(slots.size).toBe(4);
+  });
+});
+
+describe("createScanScheduler", () => {
+  it("spaces fetches to the same host and ignores a tick that overlaps a running one", async () => {
+    const clock = fakeClock(START);
+    const calls: Array<{ url: string; at: number }> = [];
+    const build: SnapshotBuilder = async (url) => {
+      calls.push({ url, at: clock.now() });
+      return response(url);
+    };
+    const user = ensureUser("throttle@example.com");
+    watch(user.id, ["https://www.ebay.com/itm/0001", "https://www.ebay.com/itm/0002", "https://www.ebay.com/itm/0003", "https://www.etsy.com/listing/0004"]);
+    makeDue(user.id, "hourly", START);
+    updatePreferences(user.id, { scanCadence: "hourly" });
+
+    const scheduler = createScanScheduler({ clock, build });
+    const running = scheduler.tick();
+    await expect(scheduler.tick()).resolves.toEqual([]);
+    await clock.advance(10_000);
+    const [result] = await running;
+
+    expect(result).toMatchObject({ userId: user.id, cadence: "hourly", rescanned: 4, failed: 0 });
+    const ebay = calls.filter((call) => call.url.includes("ebay.com")).map((call) => call.at - START);
+    const etsy = calls.filter((call) => call.url.includes("etsy.com")).map((call) => call.at - START);
+    expect(ebay).toEqual([0, 2000, 4000]);
+    expect(etsy).toEqual([0]);
+    expect(getScanSchedule(user.id)?.nextRunAt).toBe(new Date(nextScanAt(user.id, "hourly", START + 4000)).toISOString());
+  });
+
+  it("reschedules from the last run when the cadence changes", async () => {
+    const clock = fakeClock(START);
+    const build: SnapshotBuilder = async (url) => response(url);
+    const user = ensureUser("cadence@example.com");
+    watch(user.id, ["https://www.ebay.com/itm/0005"]);
+    const lastRunAt = new Date(START - 2 * HOUR_MS).toISOString();
+    saveScanSchedule({ userId: user.id, cadence: "daily", lastRunAt, nextRunAt: new Date(nextScanAt(user.id, "daily", START - 2 * HOUR_MS)).toISOString() });
+    updatePreferences(user.id, { scanCadence: "hourly" });
+
+    const scheduler = createScanScheduler({ clock, build });
+    const results = await scheduler.tick();
+    expect(results.map((entry) => entry.userId)).toContain(user.id);
+    expect(getScanSchedule(user.id)).toMatchObject({ cadence: "hourly", lastRunAt: new Date(START).toISOString() });
+
+    updatePreferences(user.id, { scanCadence: "off" });
+    expect((await scheduler.tick()).map((entry) => entry.userId)).not.toContain(user.id);
+  });
+
+  it("runs on its own timer until stopped", async () => {
+    const clock = fakeClock(START);
+    const user = ensureUser("timer@example.com");
+    watch(user.id, ["https://www.ebay.com/itm/0006"]);
+    updatePreferences(user.id, { scanCadence: "hourly" });
+    const build = vi.fn<SnapshotBuilder>(async (url) => response(url));
+    const scheduler = createScanScheduler({ clock, build, tickMs: 60_000 });
+
+    scheduler.start();
+    makeDue(user.id, "hourly", START);
+    await clock.advance(60_000);
+    expect(build).toHaveBeenCalledTimes(1);
+
+    scheduler.stop();
+    makeDue(user.id, "hourly", clock.now());
+    await clock.advance(5 * 60_000);
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("watchlist persistence", () => {
+  it("keeps watchlist owners across a restart so their schedules still run", async () => {
+    const user = ensureUser("restart@example.com");
+    watch(user.id, ["https://www.ebay.com/itm/0007"]);
+    flushStore();
+    vi.resetModules();
+    const reloaded = await import("./store");
+    expect(reloaded.listWatchlistOwners()).toContain(user.id);
+    expect(listWatchlistOwners()).toContain(user.id);
+  });
+});
@@ -0,0 +1,191 @@
+import { createHash } from "node:crypto";
+import { env } from "@/lib/env";
+import { sendDueDigests } from "./digest";
+import { deliverPendingNotifications } from "./notifier";
+import { rescanWatchlist, SnapshotBuilder } from "./rescan";
+import { buildSnapshotFromUrl } from "./snapshot";
+import { getPreferences, getScanSchedule, getUserById, listWatchlistOwners, saveScanSchedule, ScanScheduleEntry } from "./store";
+
+// Everything time-related goes through the clock so the scheduler can run on fake time.
+export type SchedulerClock = {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+};
+
+export type ScheduledScanResult = {
+  userId: string;
+  cadence: ScanScheduleEntry["cadence"];
+  rescanned: number;
+  failed: number;
+  alerts: number;
+  error?: string;
+};
+
+export type ScanScheduler = {
+  start(): void;
+  stop(): void;
+  // Runs every due user once, then sends pending notifications and due digests; a tick that starts while another is running does nothing.
+  tick(): Promise<ScheduledScanResult[]>;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const CADENCE_MS: Record<ScanScheduleEntry["cadence"], number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+const TICK_MS = 60 * 1000;
+const MAX_USERS_PER_TICK = 5;
+// Minimum gap between two fetches from the same marketplace, across all users.
+const HOST_GAP_MS = 2000;
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => {
+    const handle = setTimeout(callback, ms);
+    // The scheduler should never be what keeps the process alive.
+    handle.unref?.();
+    return handle;
+  },
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+function sleep(clock: SchedulerClock, ms: number): Promise<void> {
+  return new Promise((resolve) => clock.setTimeout(resolve, ms));
+}
+
+// Each user gets a fixed slot within the cadence period, so runs spread out instead of piling up on the hour.
+function slotOffset(userId: string, period: number): number {
+  return createHash("sha256").update(userId).digest().readUIntBE(0, 6) % period;
+}
+
+export function nextScanAt(userId: string, cadence: ScanScheduleEntry["cadence"], after: number): number {
+  const period = CADENCE_MS[cadence];
+  const offset = slotOffset(userId, period);
+  return (Math.floor((after - offset) / period) + 1) * period + offset;
+}
+
+function hostKey(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+// Queues fetches per marketplace host so a batch of watchlists never hammers one site.
+function throttleByHost(build: SnapshotBuilder, clock: SchedulerClock): SnapshotBuilder {
+  const nextFreeAt = new Map<string, number>();
+  return async (url) => {
+    const host = hostKey(url);
+    const now = clock.now();
+    const startAt = Math.max(now, nextFreeAt.get(host) ?? 0);
+    nextFreeAt.set(host, startAt + HOST_GAP_MS);
+    if (startAt > now) await sleep(clock, startAt - now);
+    return build(url);
+  };
+}
+
+// Brings each watchlist owner's schedule in line with their cadence and returns the ones due now.
+function dueSchedules(now: number): Array<{ entry: ScanScheduleEntry; email?: string }> {
+  const due: Array<{ entry: ScanScheduleEntry; email?: string }> = [];
+  for (const userId of listWatchlistOwners()) {
+    const email = getUserById(userId)?.email;
+    const cadence = getPreferences(userId, email).scanCadence ?? "daily";
+    if (cadence === "off") continue;
+    let entry = getScanSchedule(userId);
+    if (!entry || entry.cadence !== cadence) {
+      // A changed cadence counts from the last run, so switching to hourly after a day runs right away.
+      const since = entry?.lastRunAt ? Date.parse(entry.lastRunAt) : now;
+      entry = { ...entry, userId, cadence, nextRunAt: new Date(nextScanAt(userId, cadence, since)).toISOString() };
+      saveScanSchedule(entry);
+    }
+    if (Date.parse(entry.nextRunAt) <= now) due.push({ entry, email });
+  }
+  return due.sort((a, b) => a.entry.nextRunAt.localeCompare(b.entry.nextRunAt)).slice(0, MAX_USERS_PER_TICK);
+}
+
+export function createScanScheduler(
+  options: { clock?: SchedulerClock; tickMs?: number; build?: SnapshotBuilder } = {}
+): ScanScheduler {
+  const clock = options.clock ?? systemClock;
+  const tickMs = options.tickMs ?? TICK_MS;
+  const build = throttleByHost(options.build ?? buildSnapshotFromUrl, clock);
+  let handle: unknown;
+  let running = false;
+  let ticking = false;
+
+  const runUser = async ({ entry, email }: { entry: ScanScheduleEntry; email?: string }): Promise<ScheduledScanResult> => {
+    const result: ScheduledScanResult = { userId: entry.userId, cadence: entry.cadence, rescanned: 0, failed: 0, alerts: 0 };
+    try {
+      const items = await rescanWatchlist(entry.userId, email, build);
+      result.rescanned = items.length;
+      result.failed = items.filter((item) => item.error).length;
+      result.alerts = items.reduce((sum, item) => sum + item.alerts.length, 0);
+    } catch (error) {
+      result.error = (error as Error)?.message || "Scheduled rescan failed.";
+    }
+    // A failed run still waits for the next slot rather than retrying every tick.
+    const finishedAt = clock.now();
+    saveScanSchedule({
+      ...entry,
+      lastRunAt: new Date(finishedAt).toISOString(),
+      nextRunAt: new Date(nextScanAt(entry.userId, entry.cadence, finishedAt)).toISOString(),
+      lastRun: { rescanned: result.rescanned, failed: result.failed, alerts: result.alerts, error: result.error },
+    });
+    return result;
+  };
+
+  const tick = async (): Promise<ScheduledScanResult[]> => {
+    if (ticking) return [];
+    ticking = true;
+    try {
+      const results: ScheduledScanResult[] = [];
+      for (const due of dueSchedules(clock.now())) results.push(await runUser(due));
+      // Also retries earlier failures and releases deliveries held back by quiet hours.
+      await deliverPendingNotifications(clock.now());
+      await sendDueDigests(clock.now());
+      return results;
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const schedule = () => {
+    handle = clock.setTimeout(async () => {
+      try {
+        await tick();
+      } catch (error) {
+        console.warn("Scheduled scan tick failed:", error);
+      }
+      if (running) schedule();
+    }, tickMs);
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      schedule();
+    },
+    stop() {
+      running = false;
+      if (handle !== undefined) clock.clearTimeout(handle);
+      handle = undefined;
+    },
+    tick,
+  };
+}
+
+// Module state does not survive dev-server reloads, so the running scheduler is kept on globalThis.
+const globalScheduler = globalThis as typeof globalThis & { __scanScheduler?: ScanScheduler };
+
+export function startScanScheduler(): ScanScheduler | undefined {
+  if (env.SCAN_SCHEDULER_DISABLED) return undefined;
+  if (!globalScheduler.__scanScheduler) {
+    globalScheduler.__scanScheduler = createScanScheduler();
+    globalScheduler.__scanScheduler.start();
+  }
+  return globalScheduler.__scanScheduler;
+}
@@ -11,3 +11,103 @@ export const refreshPayloadSchema = z.object({
 export const urlPayloadSchema = z.object({
   url: z.url("A valid URL is required.").refine((value) => /^https?:\/\//i.test(value), "URL must use http or https."),
 });
+
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a three-letter ISO code.")
+  .transform((value) => value.toUpperCase());
+
+export const fxRateTableSchema = z.object({
+  date: z.iso.date("Rate table date must be YYYY-MM-DD."),
+  base: currencyCodeSchema,
+  rates: z
+    .record(currencyCodeSchema, z.number().positive("Rates must be positive."))
+    .refine((rates) => Object.keys(rates).length > 0, "At least one rate is required."),
+});
+
+export const preferencesPayloadSchema = z.object({
+  homeCurrency: currencyCodeSchema.optional(),
+  scanCadence: z.enum(["hourly", "daily", "weekly", "off"], "Scan cadence must be hourly, daily, weekly or off.").optional(),
+  digestFrequency: z.enum(["daily", "weekly", "off"], "Digest frequency must be daily, weekly or off.").optional(),
+});
+
+// Percentages and 0-100 confidence scores share one range.
+const thresholdSchema = z.number().min(0, "Thresholds must be between 0 and 100.").max(100, "Thresholds must be between 0 and 100.");
+
+export const alertRulesPayloadSchema = z.object({
+  priceDrop: z.object({ enabled: z.boolean().optional(), minPercent: thresholdSchema.optional() }).optional(),
+  priceRise: z.object({ enabled: z.boolean().optional(), minPercent: thresholdSchema.optional() }).optional(),
+  scoreDowngrade: z.object({ enabled: z.boolean().optional(), minPoints: thresholdSchema.optional() }).optional(),
+  listingEnded: z.object({ enabled: z.boolean().optional() }).optional(),
+  listingEdited: z.object({ enabled: z.boolean().optional() }).optional(),
+  newListing: z.object({ enabled: z.boolean().optional(), minScore: thresholdSchema.optional() }).optional(),
+});
+
+const alertIdsSchema = z.array(z.string().min(1)).min(1, "Pass at least one alert id, or omit ids for all alerts.").max(500);
+
+export const markAlertsPayloadSchema = z.object({
+  state: z.enum(["read", "unread"], "State must be read or unread."),
+  ids: alertIdsSchema.optional(),
+});
+
+export const clearAlertsPayloadSchema = z.object({
+  ids: alertIdsSchema.optional(),
+});
+
+const clockTimeSchema = z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM on a 24-hour clock.");
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const emailConfirmationPayloadSchema = z.object({
+  token: z.string().trim().min(1, "Confirmation code is required."),
+});
+
+export const notificationPreferencesPayloadSchema = z.object({
+  email: z
+    .object({
+      enabled: z.boolean().optional(),
+      address: z.email("Valid email is required.").transform((value) => value.trim().toLowerCase()).optional(),
+    })
+    .optional(),
+  webhook: z
+    .object({
+      enabled: z.boolean().optional(),
+      url: z.url("A valid URL is required.").refine((value) => value.startsWith("https://"), "Webhook URLs must use https.").optional(),
+    })
+    .optional(),
+  push: z.object({ enabled: z.boolean().optional() }).optional(),
+  alertTypes: z
+    .array(z.enum(["priceDrop", "priceRise", "listingEnded", "scoreDowngrade", "listingEdited", "newListing"], "Unknown alert type."))
+    .optional(),
+  quietHours: z
+    .object({
+      start: clockTimeSchema,
+      end: clockTimeSchema,
+      timeZone: z.string().refine(isTimeZone, "Time zone must be an IANA zone such as Europe/London."),
+    })
+    .nullable()
+    .optional(),
+});
+
+const base64urlKeySchema = (bytes: number, name: string) =>
+  z.string().refine((value) => /^[A-Za-z0-9_-]+$/.test(value) && Buffer.from(value, "base64url").length === bytes, `${name} is not a valid key.`);
+
+export const pushSubscriptionPayloadSchema = z.object({
+  endpoint: z.url("A valid endpoint URL is required.").refine((value) => value.startsWith("https://"), "Push endpoints must use https."),
+  keys: z.object({
+    p256dh: base64urlKeySchema(65, "keys.p256dh"),
+    auth: base64urlKeySchema(16, "keys.auth"),
+  }),
+});
+
+export const pushUnsubscribePayloadSchema = z.object({
+  endpoint: z.string().min(1, "endpoint required."),
+});
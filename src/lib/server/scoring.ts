@@ -0,0 +1,116 @@
+import { ActionRule, CheckId, ScoringRubric } from "./rubric";
+import { ConfidenceStatus, RecommendedAction, SnapshotBucket, SnapshotBucketCheck, SnapshotResponseBody } from "./types";
+
+export type CheckResults = Record<CheckId, SnapshotBucketCheck>;
+export type ScoredSnapshot = Omit<SnapshotResponseBody["snapshot"], "listingId">;
+
+function computeStatus(score: number, rubric: ScoringRubric): ConfidenceStatus {
+  if (score >= rubric.statusThresholds.good) return "Good";
+  if (score >= rubric.statusThresholds.needsReview) return "Needs review";
+  return "Missing evidence";
+}
+
+function computeBucketScore(checks: Array<{ check: SnapshotBucketCheck; weight: number }>, rubric: ScoringRubric): number {
+  const total = checks.reduce((sum, entry) => sum + entry.weight, 0);
+  if (!total) return 0;
+  const value = checks.reduce((sum, entry) => sum + (entry.check.grade ?? rubric.checkValueScores[entry.check.value]) * entry.weight, 0);
+  return Math.round((value / total) * 100);
+}
+
+function explainBucket(status: ConfidenceStatus, checks: SnapshotBucketCheck[]): string {
+  const evidenceGood = checks.filter((check) => check.value === "Good").length;
+  const redFlags = checks.filter((check) => check.value === "Red flag").length;
+  if (redFlags) {
+    return `${redFlags} red flag${redFlags === 1 ? "" : "s"} in this bucket — the listing contradicts expected evidence.`;
+  }
+  if (status === "Good") return `${evidenceGood}/${checks.length} signals are solid in this bucket.`;
+  if (status === "Needs review") {
+    return `Partial evidence (${evidenceGood}/${checks.length}) — verify missing items with seller.`;
+  }
+  return `Low evidence (${evidenceGood}/${checks.length}) — high uncertainty remains.`;
+}
+
+function ruleMatches(rule: ActionRule, score: number, buckets: SnapshotBucket[]): boolean {
+  const { minScore, maxScore, noBucketStatus, anyCheckValue } = rule.when;
+  if (typeof minScore === "number" && score < minScore) return false;
+  if (typeof maxScore === "number" && score > maxScore) return false;
+  if (
+    noBucketStatus &&
+    buckets.some((bucket) => noBucketStatus.buckets.includes(bucket.key) && bucket.status === noBucketStatus.status)
+  ) {
+    return false;
+  }
+  if (
+    anyCheckValue &&
+    !buckets.some(
+      (bucket) =>
+        anyCheckValue.buckets.includes(bucket.key) && bucket.checks.some((check) => check.value === anyCheckValue.value)
+    )
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function computeRedFlagPenalty(buckets: SnapshotBucket[], rubric: ScoringRubric): number {
+  const penalty = rubric.redFlagPenalty;
+  if (!penalty) return 0;
+  const flags = buckets
+    .filter((bucket) => penalty.buckets.includes(bucket.key))
+    .flatMap((bucket) => bucket.checks)
+    .filter((check) => check.value === "Red flag").length;
+  return Math.min(penalty.maxPoints, flags * penalty.pointsPerFlag);
+}
+
+export function scoreChecks(checks: CheckResults, rubric: ScoringRubric): ScoredSnapshot {
+  const buckets: SnapshotBucket[] = rubric.buckets.map((definition) => {
+    const weighted = definition.checks.map((entry) => ({
+      check: { ...checks[entry.id], label: entry.label },
+      weight: entry.weight ?? 1,
+    }));
+    const bucketChecks = weighted.map((entry) => entry.check);
+    const score = computeBucketScore(weighted, rubric);
+    const status = computeStatus(score, rubric);
+    return {
+      key: definition.key,
+      label: definition.label,
+      weight: definition.weight,
+      checks: bucketChecks,
+      score,
+      status,
+      explanation: explainBucket(status, bucketChecks),
+    };
+  });
+
+  const weightedScore = buckets.reduce((acc, bucket) => acc + bucket.score * (bucket.weight / 100), 0);
+  const score = Math.max(0, Math.round(weightedScore - computeRedFlagPenalty(buckets, rubric)));
+  const status = computeStatus(score, rubric);
+
+  const negativeBuckets = new Set(rubric.buckets.filter((bucket) => bucket.negative).map((bucket) => bucket.key));
+  const topPositiveSignals = buckets
+    .filter((bucket) => !negativeBuckets.has(bucket.key))
+    .flatMap((bucket) => bucket.checks.filter((check) => check.value === "Good").map((check) => `[${bucket.label}] ${check.detail}`))
+    .slice(0, 3);
+  // Red flags outrank plain gaps so contradictions ("signed" and "unsigned" in one listing) surface first.
+  const topMissingOrSuspiciousSignals = buckets
+    .flatMap((bucket) =>
+      bucket.checks
+        .filter((check) => check.value !== "Good")
+        .map((check) => ({ check, text: `[${bucket.label}] ${check.detail}` }))
+    )
+    .sort((a, b) => Number(b.check.value === "Red flag") - Number(a.check.value === "Red flag"))
+    .map((entry) => entry.text)
+    .slice(0, 3);
+
+  const recommendedAction: RecommendedAction =
+    rubric.actionRules.find((rule) => ruleMatches(rule, score, buckets))?.action ?? rubric.defaultAction;
+
+  return {
+    score,
+    status,
+    recommendedAction,
+    topPositiveSignals,
+    topMissingOrSuspiciousSignals,
+    buckets,
+  };
+}
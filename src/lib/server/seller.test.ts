@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { extractListing } from "./extractors";
+import { mergeSellerProfiles, parseMemberSince, parseSellerProfile, sellerToCheck } from "./seller";
+import { ListingRecord, SellerProfile } from "./types";
+
+const now = new Date("2026-10-19T09:00:00Z");
+
+function listing(seller: SellerProfile | undefined, price = 400, currency = "GBP"): ListingRecord {
+  return {
+    listingId: "ebay_1",
+    source: "ebay",
+    url: "https://www.ebay.co.uk/itm/1",
+    fetchedAt: now.toISOString(),
+    currency,
+    price,
+    artwork: { title: "Print" },
+    artist: {},
+    seller,
+    visual: { imageUrls: [] },
+  };
+}
+
+describe("parseMemberSince", () => {
+  it.each([
+    ["Mar 2021", "2021-03-01"],
+    ["Mar-15-10", "2010-03-15"],
+    ["15 March 2021", "2021-03-15"],
+    ["2019", "2019-01-01"],
+    ["2 weeks ago", "2026-10-05"],
+    ["a year ago", "2025-10-19"],
+  ])("reads %s", (value, iso) => {
+    expect(parseMemberSince(value, now)).toBe(iso);
+  });
+
+  it("ignores dates in the future and text without a year", () => {
+    expect(parseMemberSince("Jan 2030", now)).toBeUndefined();
+    expect(parseMemberSince("recently", now)).toBeUndefined();
+  });
+});
+
+describe("parseSellerProfile", () => {
+  it("reads an eBay seller card", () => {
+    const text = "Seller information printhouse_uk (1,234) 99.6% positive feedback Joined Mar 2015 Item location: Bristol, United Kingdom";
+    expect(parseSellerProfile(text, now)).toEqual({
+      username: "printhouse_uk",
+      feedbackCount: 1234,
+      positivePercent: 99.6,
+      memberSince: "2015-03-01",
+      location: "Bristol, United Kingdom",
+    });
+  });
+
+  it("reads abbreviated counts and returns nothing for unrelated text", () => {
+    expect(parseSellerProfile("Sold by artdrops (2.5k) 100% positive", now)).toMatchObject({ username: "artdrops", feedbackCount: 2500 });
+    expect(parseSellerProfile("Hand signed screenprint", now)).toBeUndefined();
+  });
+
+  it("keeps the first value for each field", () => {
+    expect(mergeSellerProfiles({ username: "card" }, undefined, { username: "text", feedbackCount: 3 })).toEqual({ username: "card", feedbackCount: 3 });
+    expect(mergeSellerProfiles(undefined, {})).toBeUndefined();
+  });
+
+  it("reads the seller from eBay markup", () => {
+    const raw = `<title>Print | eBay</title><div class="x-sellercard-atf"><div class="x-sellercard-atf__info__about-seller"><span>printhouse_uk</span></div>
+<div class="x-sellercard-atf__data-item"><span>(1,234)</span></div><span>99.6% positive feedback</span></div>
+<div class="x-store-information"><span>Joined Mar 2015</span></div>`;
+    const record = extractListing({ url: "https://www.ebay.co.uk/itm/123456789012", raw, listingId: "ebay_123456789012", fetchedAt: now.toISOString() });
+    expect(record.seller).toMatchObject({ username: "printhouse_uk", positivePercent: 99.6, memberSince: "2015-03-01" });
+  });
+});
+
+describe("sellerToCheck", () => {
+  const established = { username: "printhouse_uk", feedbackCount: 1234, positivePercent: 99.6, memberSince: "2015-03-01" };
+
+  it("passes an established seller", () => {
+    expect(sellerToCheck(listing(established, 15000), now)).toMatchObject({ value: "Good" });
+  });
+
+  it("needs history to judge a seller", () => {
+    expect(sellerToCheck(listing({ username: "someone" }), now).detail).toBe("Seller someone is named but shows no feedback or account history.");
+    expect(sellerToCheck(listing(undefined), now).value).toBe("Missing evidence");
+  });
+
+  it("flags a poor record at any price", () => {
+    expect(sellerToCheck(listing({ ...established, positivePercent: 85 }, 50), now).value).toBe("Red flag");
+  });
+
+  it("flags a new account selling a high-value work and reviews it at lower prices", () => {
+    const fresh = { username: "newbie", feedbackCount: 2, memberSince: "2026-10-01" };
+    expect(sellerToCheck(listing(fresh, 8000), now).value).toBe("Red flag");
+    expect(sellerToCheck(listing(fresh, 200), now).value).toBe("Needs review");
+  });
+
+  it("converts the price before comparing it to the thresholds", () => {
+    const young = { ...established, memberSince: "2026-03-01" };
+    expect(sellerToCheck(listing(young, 900, "USD"), now).value).toBe("Good");
+    expect(sellerToCheck(listing(young, 900, "GBP"), now).value).toBe("Needs review");
+  });
+});
@@ -0,0 +1,159 @@
+import { convertOnDate } from "./fx";
+import { ListingRecord, SellerProfile, SnapshotBucketCheck } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Thresholds are in USD so a £15k print and a $19k print are judged alike.
+const HIGH_VALUE_USD = 5000;
+const MID_VALUE_USD = 1000;
+const NEW_ACCOUNT_DAYS = 90;
+const YOUNG_ACCOUNT_DAYS = 365;
+const THIN_FEEDBACK = 10;
+const MODEST_FEEDBACK = 50;
+const SOLID_POSITIVE = 98;
+const POOR_POSITIVE = 90;
+
+const USERNAME = /\b(?:seller|sold by|offered by|seller information)\s*:?\s*([A-Za-z0-9][\w.*-]{2,63})\s*\(\s*[\d,.]+k?\s*\)/i;
+const FEEDBACK_COUNT = [
+  /\b[A-Za-z0-9][\w.*-]{2,63}\s*\(\s*([\d,.]+k?)\s*\)\s*(?:[\d.]+%|★|\n)/i,
+  /\bfeedback score\s*:?\s*([\d,.]+k?)/i,
+  /\b([\d,.]+k?)\s+(?:feedback|ratings|seller reviews)\b/i,
+];
+const POSITIVE = [/\b(\d{1,3}(?:\.\d+)?)\s?%\s*positive\b/i, /\bpositive feedback\s*:?\s*(\d{1,3}(?:\.\d+)?)\s?%/i];
+const MEMBER_SINCE =
+  /\b(?:member since|joined(?: in| on)?|on (?:ebay|etsy|the site) since|selling since|registered(?: since)?)\s*:?\s*([^\n|•]{2,24})/i;
+const LOCATION = /\b(?:item location|located in|ships from|seller location|location)\s*:\s*([^\n|•]{2,60})/i;
+
+function readCount(value: string): number | undefined {
+  const thousands = /k$/i.test(value);
+  const digits = value.replace(/k$/i, "");
+  const parsed = thousands ? Number(digits.replace(",", ".")) * 1000 : Number(digits.replace(/[,.](?=\d{3}\b)/g, ""));
+  return Number.isFinite(parsed) ? Math.round(parsed) : undefined;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const value = text.match(pattern)?.[1];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Reads "Mar 2021", "Mar-15-10", "15 March 2021", "2019" and relative forms like "2 weeks ago".
+export function parseMemberSince(value: string | undefined, now = new Date()): string | undefined {
+  if (!value) return undefined;
+  const text = value.trim().toLowerCase();
+  const relative = text.match(/^(\d+|an?)\s+(day|week|month|year)s?\s+ago\b/);
+  if (relative) {
+    const count = /^\d/.test(relative[1]) ? Number(relative[1]) : 1;
+    const date = new Date(now);
+    if (relative[2] === "day") date.setUTCDate(date.getUTCDate() - count);
+    if (relative[2] === "week") date.setUTCDate(date.getUTCDate() - count * 7);
+    if (relative[2] === "month") date.setUTCMonth(date.getUTCMonth() - count);
+    if (relative[2] === "year") date.setUTCFullYear(date.getUTCFullYear() - count);
+    return isoDay(date);
+  }
+  const month = MONTHS.findIndex((name) => new RegExp(`\\b${name}`).test(text));
+  const yearMatch = text.match(/\b(19\d{2}|20\d{2})\b/) ?? (month >= 0 ? text.match(/[-\s'](\d{2})\s*$/) : null);
+  if (!yearMatch) return undefined;
+  const year = yearMatch[1].length === 2 ? 2000 + Number(yearMatch[1]) : Number(yearMatch[1]);
+  const day = month >= 0 ? Number(text.match(/[a-z]\.?[-\s](\d{1,2})\b[-,\s]/)?.[1] ?? text.match(/^(\d{1,2})\s+[a-z]/)?.[1] ?? 1) : 1;
+  const date = new Date(Date.UTC(year, Math.max(0, month), day));
+  if (Number.isNaN(date.getTime()) || date > now) return undefined;
+  return isoDay(date);
+}
+
+export function parseSellerProfile(text: string, now = new Date()): SellerProfile | undefined {
+  const username = text.match(USERNAME)?.[1];
+  const feedback = firstMatch(text, FEEDBACK_COUNT);
+  const positive = firstMatch(text, POSITIVE);
+  const positivePercent = positive ? Number(positive) : undefined;
+  const profile: SellerProfile = {
+    username,
+    feedbackCount: feedback ? readCount(feedback) : undefined,
+    positivePercent: typeof positivePercent === "number" && positivePercent <= 100 ? positivePercent : undefined,
+    memberSince: parseMemberSince(text.match(MEMBER_SINCE)?.[1], now),
+    location: text.match(LOCATION)?.[1]?.trim(),
+  };
+  return Object.values(profile).some((value) => value !== undefined) ? profile : undefined;
+}
+
+// Fields read from dedicated markup win over whatever the page text suggested.
+export function mergeSellerProfiles(...profiles: Array<SellerProfile | undefined>): SellerProfile | undefined {
+  const merged: SellerProfile = {};
+  for (const profile of profiles) {
+    if (!profile) continue;
+    for (const [key, value] of Object.entries(profile) as Array<[keyof SellerProfile, string | number | undefined]>) {
+      if (value !== undefined && merged[key] === undefined) Object.assign(merged, { [key]: value });
+    }
+  }
+  return Object.keys(merged).length ? merged : undefined;
+}
+
+function accountAgeDays(seller: SellerProfile, now: Date): number | undefined {
+  if (!seller.memberSince) return undefined;
+  const since = new Date(seller.memberSince).getTime();
+  return Number.isNaN(since) ? undefined : Math.max(0, Math.floor((now.getTime() - since) / DAY_MS));
+}
+
+function describeAge(days: number): string {
+  if (days < 14) return `${days} day${days === 1 ? "" : "s"}`;
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  if (days < 730) return `${Math.round(days / 30)} months`;
+  return `${Math.floor(days / 365)} years`;
+}
+
+function describeSeller(seller: SellerProfile, ageDays?: number): string {
+  const parts = [
+    typeof seller.feedbackCount === "number" ? `${seller.feedbackCount.toLocaleString("en-US")} feedback` : undefined,
+    typeof seller.positivePercent === "number" ? `${seller.positivePercent}% positive` : undefined,
+    typeof ageDays === "number" ? `member for ${describeAge(ageDays)}` : undefined,
+    seller.location ? `based in ${seller.location}` : undefined,
+  ].filter(Boolean);
+  const name = seller.username ? `${seller.username}: ` : "";
+  return `${name}${parts.join(", ")}.`;
+}
+
+export function sellerToCheck(listing: ListingRecord, now = new Date()): SnapshotBucketCheck {
+  const label = "Seller reliability";
+  const seller = listing.seller;
+  const hasHistory =
+    typeof seller?.feedbackCount === "number" || typeof seller?.positivePercent === "number" || Boolean(seller?.memberSince);
+  if (!seller || !hasHistory) {
+    const named = seller?.username ? `Seller ${seller.username} is named but` : "The listing";
+    return { label, value: "Missing evidence", detail: `${named} shows no feedback or account history.` };
+  }
+
+  const ageDays = accountAgeDays(seller, now);
+  const priceUsd = typeof listing.price === "number" ? convertOnDate(listing.price, listing.currency, "USD") : undefined;
+  const highValue = typeof priceUsd === "number" && priceUsd >= HIGH_VALUE_USD;
+  const midValue = typeof priceUsd === "number" && priceUsd >= MID_VALUE_USD;
+  const newAccount = typeof ageDays === "number" && ageDays < NEW_ACCOUNT_DAYS;
+  const youngAccount = typeof ageDays === "number" && ageDays < YOUNG_ACCOUNT_DAYS;
+  const thinFeedback = typeof seller.feedbackCount === "number" && seller.feedbackCount < THIN_FEEDBACK;
+  const modestFeedback = typeof seller.feedbackCount === "number" && seller.feedbackCount < MODEST_FEEDBACK;
+  const positive = seller.positivePercent;
+  const summary = describeSeller(seller, ageDays);
+
+  if (typeof positive === "number" && positive < POOR_POSITIVE) {
+    return { label, value: "Red flag", detail: `Poor feedback record. ${summary}` };
+  }
+  // A brand-new or barely rated account is a common pattern behind high-value fakes.
+  if (highValue && (newAccount || thinFeedback)) {
+    return { label, value: "Red flag", detail: `New or barely rated account selling a high-value work. ${summary}` };
+  }
+  if (
+    newAccount ||
+    thinFeedback ||
+    (typeof positive === "number" && positive < SOLID_POSITIVE) ||
+    (midValue && (youngAccount || modestFeedback))
+  ) {
+    return { label, value: "Needs review", detail: `Limited seller track record for this price. ${summary}` };
+  }
+  return { label, value: "Good", detail: `Established seller. ${summary}` };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { getSellerHistory, recordSellerHistory, sellerKey, sellerPatternToCheck } from "./sellerGraph";
+import { CheckValue, ConfidenceStatus, ListingRecord, SnapshotBucket, SnapshotResponseBody } from "./types";
+
+function listing(id: string, handle: string | undefined, title: string, artistName: string): ListingRecord {
+  return {
+    listingId: id,
+    source: "ebay",
+    url: `https://www.ebay.co.uk/itm/${id}`,
+    fetchedAt: "2026-10-19T09:00:00Z",
+    currency: "GBP",
+    artwork: { title },
+    artist: { name: artistName },
+    seller: handle ? { username: handle } : undefined,
+    visual: { imageUrls: [] },
+  };
+}
+
+type ScannedSnapshot = Pick<SnapshotResponseBody["snapshot"], "score" | "status" | "buckets">;
+
+function snapshot(score: number, status: ConfidenceStatus, checks: CheckValue[] = []): ScannedSnapshot {
+  const bucket: SnapshotBucket = {
+    key: "redFlags",
+    label: "Red flags",
+    score,
+    weight: 1,
+    status,
+    explanation: "",
+    checks: checks.map((value) => ({ label: "Check", value, detail: "" })),
+  };
+  return { score, status, buckets: [bucket] };
+}
+
+const template = (artist: string) => `Hand Signed ${artist} Limited Screenprint with COA Certificate`;
+
+describe("sellerPatternToCheck", () => {
+  it("needs a handle and other listings to compare", () => {
+    expect(sellerPatternToCheck(listing("1", undefined, "Print", "Stik"), true).detail).toContain("Seller handle not found");
+    expect(sellerPatternToCheck(listing("2", "first_timer", "Print", "Stik"), true).detail).toBe(
+      "No other listings from this seller have been scanned yet."
+    );
+  });
+
+  it("flags one signed template reused across artists", () => {
+    const artists = ["Banksy", "Stik", "KAWS", "Shepard Fairey"];
+    artists.forEach((artist, index) =>
+      recordSellerHistory(listing(`t${index}`, "TemplateShop", template(artist), artist), snapshot(60, "Needs review"), true)
+    );
+    const current = listing("t-new", "templateshop", template("Keith Haring"), "Keith Haring");
+    expect(sellerPatternToCheck(current, true)).toMatchObject({ value: "Red flag", detail: 'Seller has 5 near-identical "signed" listings across 5 artists.' });
+    expect(sellerPatternToCheck(current, false).value).toBe("Good");
+  });
+
+  it("reviews the same template across fewer listings", () => {
+    recordSellerHistory(listing("s1", "smallshop", template("Banksy"), "Banksy"), snapshot(60, "Needs review"), true);
+    recordSellerHistory(listing("s2", "smallshop", template("Stik"), "Stik"), snapshot(60, "Needs review"), true);
+    expect(sellerPatternToCheck(listing("s3", "smallshop", template("KAWS"), "KAWS"), true).value).toBe("Needs review");
+  });
+
+  it("does not count one artist's own series as a pattern", () => {
+    for (const id of ["b1", "b2", "b3", "b4"]) recordSellerHistory(listing(id, "banksyfan", template("Banksy"), "Banksy"), snapshot(80, "Good"), true);
+    expect(sellerPatternToCheck(listing("b5", "banksyfan", template("Banksy"), "Banksy"), true).value).toBe("Good");
+  });
+
+  it("reviews a seller whose earlier listings mostly raised red flags", () => {
+    recordSellerHistory(listing("r1", "flaggy", "Girl with Balloon", "Banksy"), snapshot(20, "Needs review", ["Red flag"]), false);
+    recordSellerHistory(listing("r2", "flaggy", "Companion", "KAWS"), snapshot(20, "Needs review", ["Red flag"]), false);
+    recordSellerHistory(listing("r3", "flaggy", "Obey Giant", "Shepard Fairey"), snapshot(80, "Good", ["Good"]), false);
+    expect(sellerPatternToCheck(listing("r4", "flaggy", "Big Mother", "Stik"), false).detail).toBe("2 of 3 earlier listings from this seller raised red flags.");
+  });
+});
+
+describe("getSellerHistory", () => {
+  it("summarizes a seller's scanned listings", () => {
+    recordSellerHistory(listing("h1", "History_Shop", "Girl with Balloon", "Banksy"), snapshot(90, "Good"), true);
+    recordSellerHistory(listing("h2", "History_Shop", "Companion", "KAWS"), snapshot(30, "Needs review", ["Red flag"]), false);
+    recordSellerHistory(listing("h2", "History_Shop", "Companion", "KAWS"), snapshot(40, "Needs review", ["Red flag"]), false);
+    const history = getSellerHistory("ebay", "history_shop");
+    expect(history?.seller.key).toBe(sellerKey("ebay", "History_Shop"));
+    expect(history?.stats).toMatchObject({
+      listingCount: 2,
+      averageScore: 65,
+      redFlagListings: 1,
+      signedListings: 1,
+      artists: ["KAWS", "Banksy"],
+      statusCounts: { Good: 1, "Needs review": 1, "Missing evidence": 0 },
+    });
+    expect(getSellerHistory("ebay", "nobody")).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { getArtistById, normalizeArtistKey } from "@/lib/shared/artists";
+import { getSellerRecord, recordSellerListing, SellerListingEntry, SellerRecord } from "./store";
+import { ConfidenceStatus, ListingRecord, SnapshotBucketCheck, SnapshotResponseBody } from "./types";
+
+const TEMPLATE_SIMILARITY = 0.6;
+const PATTERN_WARN = 3;
+const PATTERN_FLAG = 5;
+const MIN_HISTORY_FOR_RATIO = 3;
+// Words every art listing shares; they would make unrelated titles look alike.
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "the",
+  "of",
+  "by",
+  "with",
+  "in",
+  "on",
+  "for",
+  "art",
+  "print",
+  "edition",
+  "original",
+  "artwork",
+]);
+
+export type SellerStats = {
+  listingCount: number;
+  averageScore?: number;
+  statusCounts: Record<ConfidenceStatus, number>;
+  // Listings per score band: 0-24, 25-49, 50-74, 75-100.
+  scoreBands: Array<{ band: string; count: number }>;
+  redFlagListings: number;
+  signedListings: number;
+  artists: string[];
+};
+
+export function sellerKey(source: string, handle: string): string {
+  return `${source}:${handle.trim().toLowerCase()}`;
+}
+
+export function sellerKeyFor(listing: ListingRecord): string | undefined {
+  const handle = listing.seller?.username?.trim();
+  return handle ? sellerKey(listing.source, handle) : undefined;
+}
+
+function artistKeyOf(entry: { artistId?: string; artistName?: string }): string | undefined {
+  return entry.artistId ?? (entry.artistName ? normalizeArtistKey(entry.artistName) : undefined);
+}
+
+// Strips the artist's names, numbers and filler so only the shop's boilerplate wording remains.
+function templateTokens(title: string, artistId?: string, artistName?: string): Set<string> {
+  const artist = artistId ? getArtistById(artistId) : undefined;
+  const names = [artistName, artist?.displayName, artist?.realName, ...(artist?.aliases ?? [])]
+    .filter((name): name is string => Boolean(name))
+    .flatMap((name) => normalizeArtistKey(name).split(" "));
+  const skip = new Set([...names, ...FILLER_WORDS]);
+  return new Set(
+    normalizeArtistKey(title)
+      .split(" ")
+      .filter((word) => word.length > 1 && !/\d/.test(word) && !skip.has(word))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+export function sellerPatternToCheck(listing: ListingRecord, signed: boolean): SnapshotBucketCheck {
+  const label = "Seller listing pattern";
+  const key = sellerKeyFor(listing);
+  if (!key) return { label, value: "Missing evidence", detail: "Seller handle not found, so their other listings cannot be compared." };
+  const others = (getSellerRecord(key)?.listings ?? []).filter((entry) => entry.listingId !== listing.listingId);
+  if (!others.length) {
+    return { label, value: "Missing evidence", detail: "No other listings from this seller have been scanned yet." };
+  }
+
+  if (signed) {
+    const template = templateTokens(listing.artwork.title ?? "", listing.artist.id, listing.artist.name);
+    const lookalikes = others.filter(
+      (entry) =>
+        entry.signed && similarity(template, templateTokens(entry.title, entry.artistId, entry.artistName)) >= TEMPLATE_SIMILARITY
+    );
+    const artists = new Set(
+      [artistKeyOf({ artistId: listing.artist.id, artistName: listing.artist.name }), ...lookalikes.map(artistKeyOf)].filter(Boolean)
+    );
+    const count = lookalikes.length + 1;
+    // The same "signed" template reused across several artists is typical of counterfeit shops.
+    if (count >= PATTERN_WARN && artists.size >= 2) {
+      return {
+        label,
+        value: count >= PATTERN_FLAG ? "Red flag" : "Needs review",
+        detail: `Seller has ${count} near-identical "signed" listings across ${artists.size} artists.`,
+      };
+    }
+  }
+
+  const flagged = others.filter((entry) => entry.redFlags > 0).length;
+  if (others.length >= MIN_HISTORY_FOR_RATIO && flagged / others.length >= 0.5) {
+    return { label, value: "Needs review", detail: `${flagged} of ${others.length} earlier listings from this seller raised red flags.` };
+  }
+  return {
+    label,
+    value: "Good",
+    detail: `${others.length} other listing${others.length === 1 ? "" : "s"} from this seller scanned; no repeated-template pattern.`,
+  };
+}
+
+export function recordSellerHistory(
+  listing: ListingRecord,
+  snapshot: Pick<SnapshotResponseBody["snapshot"], "score" | "status" | "buckets">,
+  signed: boolean,
+  scannedAt = new Date()
+): void {
+  const key = sellerKeyFor(listing);
+  const handle = listing.seller?.username?.trim();
+  if (!key || !handle) return;
+  const entry: SellerListingEntry = {
+    listingId: listing.listingId,
+    url: listing.url,
+    title: listing.artwork.title ?? "Untitled",
+    artistId: listing.artist.id,
+    artistName: listing.artist.name,
+    score: snapshot.score,
+    status: snapshot.status,
+    redFlags: snapshot.buckets.flatMap((bucket) => bucket.checks).filter((check) => check.value === "Red flag").length,
+    signed,
+    scannedAt: scannedAt.toISOString(),
+  };
+  recordSellerListing({ key, source: listing.source, handle, profile: listing.seller }, entry);
+}
+
+export function summarizeSeller(record: SellerRecord): SellerStats {
+  const { listings } = record;
+  const bands = [
+    { band: "0-24", min: 0, max: 24 },
+    { band: "25-49", min: 25, max: 49 },
+    { band: "50-74", min: 50, max: 74 },
+    { band: "75-100", min: 75, max: 100 },
+  ];
+  return {
+    listingCount: listings.length,
+    averageScore: listings.length
+      ? Math.round(listings.reduce((sum, entry) => sum + entry.score, 0) / listings.length)
+      : undefined,
+    statusCounts: {
+      Good: listings.filter((entry) => entry.status === "Good").length,
+      "Needs review": listings.filter((entry) => entry.status === "Needs review").length,
+      "Missing evidence": listings.filter((entry) => entry.status === "Missing evidence").length,
+    },
+    scoreBands: bands.map(({ band, min, max }) => ({
+      band,
+      count: listings.filter((entry) => entry.score >= min && entry.score <= max).length,
+    })),
+    redFlagListings: listings.filter((entry) => entry.redFlags > 0).length,
+    signedListings: listings.filter((entry) => entry.signed).length,
+    artists: [...new Set(listings.map((entry) => entry.artistName).filter((name): name is string => Boolean(name)))],
+  };
+}
+
+export function getSellerHistory(source: string, handle: string): { seller: SellerRecord; stats: SellerStats } | undefined {
+  const record = getSellerRecord(sellerKey(source, handle));
+  return record ? { seller: record, stats: summarizeSeller(record) } : undefined;
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildSnapshotFromUrl } from "./snapshot";
+import { ensureUser, followArtist, listAlerts, listSnapshotVersions } from "./store";
+
+// Photos are not downloaded in these tests.
+vi.mock("./images", async (importOriginal) => ({ ...(await importOriginal<typeof import("./images")>()), fetchListingImages: async () => [] }));
+
+function listingPage(title: string, price: string, description: string): string {
+  return `<!doctype html><html><head><title>${title} | eBay</title>
+<meta property="og:title" content="${title}">
+<script type="application/ld+json">${JSON.stringify({ "@type": "Product", name: title, offers: { price, priceCurrency: "GBP" } })}</script>
+</head><body><h1 class="x-item-title__mainTitle"><span>${title}</span></h1>
+<div class="x-price-primary"><span>£${price}</span></div>
+<div id="desc">${description}</div></body></html>`;
+}
+
+function servePage(html: string) {
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(html, { status: 200, headers: { "Content-Type": "text/html" } })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("buildSnapshotFromUrl", () => {
+  it("scores a listing page and records a version", async () => {
+    servePage(listingPage("Banksy Girl with Balloon screenprint 23/150", "2450", "Hand signed and numbered 23/150. Comes with COA from Pest Control."));
+    const response = await buildSnapshotFromUrl("https://www.ebay.co.uk/itm/123456789012");
+    expect(response.snapshot.listingId).toBe("ebay_123456789012");
+    expect(response.artworkOverview).toMatchObject({ artistId: "banksy", price: 2450, currency: "GBP", edition: "23/150" });
+    expect(response.snapshot.buckets.find((bucket) => bucket.key === "authenticity")?.checks.map((check) => check.value)).toContain("Good");
+    expect(listSnapshotVersions("ebay_123456789012")).toHaveLength(1);
+  });
+
+  it("does not tell followers about a listing another user scanned", async () => {
+    const follower = ensureUser("follower@example.com");
+    followArtist(follower.id, "Banksy", follower.email);
+    servePage(listingPage("Banksy Love is in the Air screenprint", "1800", "Signed."));
+    await buildSnapshotFromUrl("https://www.ebay.co.uk/itm/223456789012");
+    expect(listAlerts(follower.id)).toEqual([]);
+    expect(listSnapshotVersions("ebay_223456789012")[0].discovered).toBeUndefined();
+  });
+
+  it("announces listings the app discovered itself", async () => {
+    const follower = ensureUser("fan@example.com");
+    followArtist(follower.id, "banksy", follower.email);
+    servePage(listingPage("Banksy Flower Thrower screenprint", "3100", "Signed."));
+    await buildSnapshotFromUrl("https://www.ebay.co.uk/itm/323456789012", { discovered: true });
+    expect(listAlerts(follower.id)).toMatchObject([{ type: "newListing", listingId: "ebay_323456789012" }]);
+    expect(listSnapshotVersions("ebay_323456789012")[0].discovered).toBe(true);
+  });
+});
@@ -1,13 +1,33 @@
-import { randomUUID } from "node:crypto";
-import { ListingRecord, SnapshotBucket, SnapshotBucketCheck, SnapshotResponseBody } from "./types";
+import { SnapshotResponseBody } from "./types";
 import { saveListing } from "./store";
+import { extractListing, resolveExtractorForUrl } from "./extractors";
+import { getActiveRubric } from "./rubric";
+import { CheckResults, scoreChecks } from "./scoring";
+import {
+  EVIDENCE_RULES,
+  RED_FLAG_RULES,
+  buildEvidenceSources,
+  evidenceToCheck,
+  findEvidence,
+  redFlagToCheck,
+  sellerAuthoredSources,
+} from "./evidence";
+import { analyzeEdition, describeEdition, editionToCheck } from "./edition";
+import { extractAcquisitionClaim, extractMedium, extractReleaseYears, releaseYearToCheck } from "./attributes";
+import { comparablesToCheck, computePriceContext, percentileToCheck, recordPriceObservation, trendBandToCheck } from "./priceHistory";
+import { sellerToCheck } from "./seller";
+import { recordSellerHistory, sellerPatternToCheck } from "./sellerGraph";
+import { fetchListingImages } from "./images";
+import { assessImages, detailShotsToCheck, imageQualityToCheck, screenImageUrls } from "./imageQuality";
+import { imageMetadataToCheck, inspectImageMetadata } from "./imageMetadata";
+import { hashListingImages, photoReuseToCheck, recordListingImageHashes } from "./photoReuse";
+import { recordSnapshotVersion } from "./snapshotHistory";
+import { canonicalListingId } from "./listingIdentity";
+import { alertFollowers } from "./alerts";
+import { applyCatalogueMatch, catalogueToCheck, matchCatalogueWork } from "./catalogue";
 
 const FETCH_TIMEOUT_MS = 15000;
 
-function isEbayUrl(url: string): boolean {
-  return /(?:^|\.)ebay\./i.test(new URL(url).hostname);
-}
-
 function isLikelyBotBlock(content: string): boolean {
   return /\b(robot check|access denied|to continue, please verify|security measure|captcha)\b/i.test(content);
 }
@@ -38,8 +58,8 @@ async function fetchListingHtml(url: string): Promise<string> {
     if (isLikelyBotBlock(raw)) throw new Error("Listing page appears bot-protected.");
     return raw;
   } catch (error) {
-    if (!isEbayUrl(url)) throw error;
-    // Fallback proxy for eBay pages when direct fetch is blocked.
+    if (!resolveExtractorForUrl(url)?.allowProxyFallback) throw error;
+    // Fallback proxy for marketplaces (e.g. eBay) whose pages block direct fetches.
     const fallbackUrl = `https://r.jina.ai/http://${url.replace(/^https?:\/\//i, "")}`;
     const fallback = await fetchWithTimeout(fallbackUrl, { headers: { "User-Agent": "ArtDetectiveWeb/1.0" } });
     if (!fallback.ok) {
@@ -49,326 +69,200 @@ async function fetchListingHtml(url: string): Promise<string> {
   }
 }
 
-function inferDimensions(text: string): string | undefined {
-  const match = text.match(
-    /\b(\d{1,4}(?:\.\d+)?)\s*(?:x|by)\s*(\d{1,4}(?:\.\d+)?)(?:\s*(?:x|by)\s*(\d{1,4}(?:\.\d+)?))?\s*(cm|mm|inches|inch|in|")\b/i
-  );
-  if (!match) return undefined;
-  const unit = match[4].toLowerCase() === '"' ? "in" : match[4].toLowerCase().replace("inches", "in").replace("inch", "in");
-  return `${match[1]} x ${match[2]}${match[3] ? ` x ${match[3]}` : ""} ${unit}`;
-}
-
-function extractImageUrls(raw: string): string[] {
-  const matches = raw.match(/https?:\/\/[^"'<>\s]+?\.(?:jpg|jpeg|png|webp)(?:\?[^"'<>\s]*)?/gi) ?? [];
-  return [...new Set(matches)].slice(0, 8);
-}
-
-function extractMetaContent(raw: string, key: string): string | undefined {
-  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  const re1 = new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]+content=["']([^"']+)["']`, "i");
-  const re2 = new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]+(?:property|name)=["']${escaped}["']`, "i");
-  return raw.match(re1)?.[1] ?? raw.match(re2)?.[1];
-}
-
-function extractFromJsonLd(raw: string): { title?: string; price?: number; currency?: string; images?: string[] } {
-  const scripts = [...raw.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)];
-  for (const script of scripts) {
-    const text = script[1]?.trim();
-    if (!text) continue;
-    try {
-      const parsed = JSON.parse(text) as Record<string, unknown>;
-      const offer = (parsed.offers ?? {}) as Record<string, unknown>;
-      const title = typeof parsed.name === "string" ? parsed.name : undefined;
-      const price = typeof offer.price === "string" || typeof offer.price === "number" ? Number(offer.price) : undefined;
-      const currency = typeof offer.priceCurrency === "string" ? offer.priceCurrency : undefined;
-      const imageRaw = parsed.image;
-      const images =
-        typeof imageRaw === "string"
-          ? [imageRaw]
-          : Array.isArray(imageRaw)
-            ? imageRaw.filter((v): v is string => typeof v === "string")
-            : undefined;
-      if (title || price || currency || images?.length) {
-        return { title, price, currency, images };
-      }
-    } catch {
-      // Ignore malformed JSON-LD blocks.
-    }
-  }
-  return {};
-}
-
-function computeStatus(score: number): "Good" | "Needs review" | "Missing evidence" {
-  if (score >= 75) return "Good";
-  if (score >= 50) return "Needs review";
-  return "Missing evidence";
-}
-
-function toCheck(label: string, good: boolean, detailWhenGood: string, detailWhenMissing: string): SnapshotBucketCheck {
-  return {
-    label,
-    value: good ? "Good" : "Missing evidence",
-    detail: good ? detailWhenGood : detailWhenMissing,
-  };
-}
-
-function computeBucketScore(checks: SnapshotBucketCheck[]): number {
-  const total = checks.length;
-  const value = checks.reduce((sum, check) => {
-    if (check.value === "Good") return sum + 1;
-    if (check.value === "Needs review") return sum + 0.5;
-    return sum;
-  }, 0);
-  return Math.round((value / total) * 100);
-}
-
-function sanitizeArtistCandidate(value: string): string {
-  return value
-    .replace(/\s+/g, " ")
-    .replace(/^[^A-Za-z]+/, "")
-    .replace(/[^A-Za-z.'\-\s]+$/g, "")
-    .trim();
-}
-
-function looksLikeArtistName(value: string): boolean {
-  if (!value) return false;
-  if (/\d/.test(value)) return false;
-  const words = value.split(/\s+/).filter(Boolean);
-  return words.length >= 2 && words.length <= 5;
-}
-
-function inferArtistName(title: string): string {
-  // Common pattern: "Artist Name \"Work Title\" Print"
-  const quoteIndex = title.search(/["'“”]/);
-  if (quoteIndex > 0) {
-    const quotedPrefix = sanitizeArtistCandidate(title.slice(0, quoteIndex));
-    if (looksLikeArtistName(quotedPrefix)) return quotedPrefix;
-  }
-
-  // Pattern: "... by Artist Name"
-  const byMatch = title.match(/\bby\s+([A-Za-z][A-Za-z .'\-]{1,80})/i);
-  if (byMatch?.[1]) {
-    const byArtist = sanitizeArtistCandidate(byMatch[1]);
-    if (looksLikeArtistName(byArtist)) return byArtist;
-  }
-
-  // Pattern: "Artist Name - Listing title"
-  const separatorMatch = title.match(/^(.+?)\s*[-|:]/);
-  if (separatorMatch?.[1]) {
-    const separated = sanitizeArtistCandidate(separatorMatch[1]);
-    if (looksLikeArtistName(separated)) return separated;
-  }
-
-  const fallback = sanitizeArtistCandidate(title);
-  return looksLikeArtistName(fallback) ? fallback : "Unknown artist";
-}
-
-function stripMarketplaceSuffix(value: string): string {
-  return value.replace(/\s*\|\s*eBay.*$/i, "").trim();
-}
-
-export async function buildSnapshotFromUrl(url: string): Promise<SnapshotResponseBody> {
+export async function buildSnapshotFromUrl(url: string, options: { discovered?: boolean } = {}): Promise<SnapshotResponseBody> {
   const raw = await fetchListingHtml(url);
-  const searchable = raw.toLowerCase();
-  const jsonLd = extractFromJsonLd(raw);
-  const titleMatch = raw.match(/<title>([^<]+)<\/title>/i);
-  const ogTitle = extractMetaContent(raw, "og:title");
-  const titleCandidate = (
-    jsonLd.title ||
-    ogTitle ||
-    titleMatch?.[1] ||
-    "Untitled listing"
-  ).trim();
-  const title = stripMarketplaceSuffix(titleCandidate) || "Untitled listing";
-  const priceJsonMatch = raw.match(/"price"\s*:\s*"?(\d+(?:\.\d+)?)"?/i);
-  const priceDollarMatch = raw.match(/\$([0-9,]+(?:\.\d+)?)/);
-  const price = typeof jsonLd.price === "number" && Number.isFinite(jsonLd.price)
-    ? jsonLd.price
-    : priceJsonMatch?.[1]
-    ? Number(priceJsonMatch[1])
-    : priceDollarMatch?.[1]
-      ? Number(priceDollarMatch[1].replace(/,/g, ""))
-      : undefined;
-  const detectedCurrency = jsonLd.currency || extractMetaContent(raw, "product:price:currency") || "USD";
-  const artist = inferArtistName(title);
-  const dimensions = inferDimensions(raw) ?? "Not provided";
-  const ogImage = extractMetaContent(raw, "og:image");
-  const imageUrls = [
-    ...(jsonLd.images ?? []),
-    ...(ogImage ? [ogImage] : []),
-    ...extractImageUrls(raw),
-  ].filter((value, index, all) => all.indexOf(value) === index).slice(0, 8);
-
-  const hasCoa = /\b(coa|certificate of authenticity|authenticity certificate)\b/i.test(searchable);
-  const hasSignatureEvidence = /\b(signed|signature|hand[- ]signed)\b/i.test(searchable);
-  const hasEditionEvidence = /\b(edition|ed\.\s?\d+|\/\d{1,4}|numbered)\b/i.test(searchable);
-  const hasProvenance = /\b(provenance|acquired from|from the collection|previous sale|auction|sold at)\b/i.test(searchable);
-  const hasReleaseContext = /\b(released|release|drop|year|published)\b/i.test(searchable);
-  const hasPriceComparable = /\b(comparable|market|last sale|price history|median|percentile)\b/i.test(searchable);
-  const hasReturnPolicy = /\b(return policy|returns accepted|return within|no returns)\b/i.test(searchable);
-  const hasInsurance = /\b(shipping insurance|insured shipping|insured)\b/i.test(searchable);
-  const hasBuyerProtection = /\b(buyer protection|money back guarantee|guarantee)\b/i.test(searchable);
-  const hasSellerReliability = /\b(positive feedback|seller rating|top rated seller|trusted seller)\b/i.test(searchable);
-  const hasDetailShots = imageUrls.length >= 2;
-  const hasDocs = /\b(receipt|invoice|proof of purchase|documentation)\b/i.test(searchable) || hasCoa;
-  const hasImageQuality = imageUrls.length > 0;
-
-  const authenticityChecks: SnapshotBucketCheck[] = [
-    toCheck("COA presence", hasCoa, "COA language detected.", "No COA mention found."),
-    toCheck("Signature evidence", hasSignatureEvidence, "Signature keywords detected.", "No signature evidence found."),
-    toCheck("Edition consistency", hasEditionEvidence, "Edition/numbering clues detected.", "Edition details missing."),
-  ];
-  const provenanceChecks: SnapshotBucketCheck[] = [
-    toCheck("Prior listing/sale mentions", hasProvenance, "Provenance or prior-sale context found.", "No provenance trail mentioned."),
-    toCheck("Release context", hasReleaseContext, "Release/date context appears in listing.", "Release context is missing."),
-  ];
-  const priceChecks: SnapshotBucketCheck[] = [
-    {
-      label: "Comparable listings",
-      value: typeof price === "number" ? "Good" : "Missing evidence",
-      detail: typeof price === "number" ? "Current listing includes a concrete price." : "No concrete listing price extracted.",
-    },
-    toCheck("12-month trend band", hasPriceComparable, "Market-comparison language detected.", "No trend/comparable references found."),
-    {
-      label: "Percentile position",
-      value: typeof price === "number" && hasPriceComparable ? "Needs review" : "Missing evidence",
-      detail:
-        typeof price === "number" && hasPriceComparable
-          ? "Price is available; percentile still requires stronger market feed."
-          : "Not enough context to compute percentile position.",
-    },
-  ];
-  const riskChecks: SnapshotBucketCheck[] = [
-    toCheck("Return policy", hasReturnPolicy, "Return policy terms detected.", "Return policy not clearly stated."),
-    toCheck("Shipping insurance", hasInsurance, "Shipping insurance language detected.", "No shipping insurance mention."),
-    toCheck("Buyer protection", hasBuyerProtection, "Buyer protection terms found.", "Buyer protection mention missing."),
-    toCheck("Seller reliability", hasSellerReliability, "Seller reliability signals detected.", "Seller reliability signal missing."),
-  ];
-  const visualChecks: SnapshotBucketCheck[] = [
-    toCheck("Image quality score", hasImageQuality, "At least one image detected.", "No listing images detected."),
-    toCheck("Detail shots", hasDetailShots, "Multiple images suggest detail coverage.", "No detail-shot coverage detected."),
-    toCheck("Docs detection", hasDocs, "COA/receipt-like docs mention detected.", "No COA/receipt docs mention detected."),
-  ];
-
-  const baseBuckets: SnapshotBucket[] = [
-    {
-      key: "authenticity",
-      label: "Authenticity",
-      weight: 35,
-      checks: authenticityChecks,
-      score: computeBucketScore(authenticityChecks),
-      status: "Needs review",
-      explanation: "",
-    },
-    {
-      key: "provenance",
-      label: "Provenance",
-      weight: 20,
-      checks: provenanceChecks,
-      score: computeBucketScore(provenanceChecks),
-      status: "Needs review",
-      explanation: "",
-    },
-    {
-      key: "price",
-      label: "Price reassurance",
-      weight: 20,
-      checks: priceChecks,
-      score: computeBucketScore(priceChecks),
-      status: "Needs review",
-      explanation: "",
-    },
-    {
-      key: "risk",
-      label: "Risk reducers",
-      weight: 15,
-      checks: riskChecks,
-      score: computeBucketScore(riskChecks),
-      status: "Needs review",
-      explanation: "",
-    },
-    {
-      key: "visual",
-      label: "Visual proof",
-      weight: 10,
-      checks: visualChecks,
-      score: computeBucketScore(visualChecks),
-      status: "Needs review",
-      explanation: "",
-    },
-  ];
-
-  const buckets: SnapshotBucket[] = baseBuckets.map((bucket) => {
-    const status = computeStatus(bucket.score);
-    const evidenceGood = bucket.checks.filter((check) => check.value === "Good").length;
-    const explanation =
-      status === "Good"
-        ? `${evidenceGood}/${bucket.checks.length} signals are solid in this bucket.`
-        : status === "Needs review"
-          ? `Partial evidence (${evidenceGood}/${bucket.checks.length}) — verify missing items with seller.`
-          : `Low evidence (${evidenceGood}/${bucket.checks.length}) — high uncertainty remains.`;
-    return { ...bucket, status, explanation };
+  const extracted = extractListing({
+    url,
+    raw,
+    listingId: canonicalListingId(url),
+    fetchedAt: new Date().toISOString(),
   });
+  const evidenceSources = buildEvidenceSources(extracted, raw);
+  const sellerSources = sellerAuthoredSources(evidenceSources);
+  const editionAnalysis = analyzeEdition(sellerSources);
+  const medium = extractMedium(extracted, sellerSources);
+  const releaseYears = extractReleaseYears(extracted, sellerSources, raw);
+  const releaseYear = releaseYears.find((candidate) => candidate.confidence !== "low");
+  const withAttributes = {
+    ...extracted,
+    artwork: {
+      ...extracted.artwork,
+      medium: medium?.value,
+      yearOfRelease: releaseYear?.value,
+      edition: editionAnalysis.edition,
+      extracted: { medium, yearOfRelease: releaseYear },
+    },
+  };
+  const catalogueMatch = matchCatalogueWork(withAttributes);
+  const listing = applyCatalogueMatch(withAttributes, catalogueMatch);
+  const price = listing.price;
+  const screened = screenImageUrls(listing.visual.imageUrls);
+  const fetchedImages = await fetchListingImages(screened.urls);
+  const imageAssessment = assessImages(fetchedImages, screened.rejected);
+  const photoUrls = new Set(imageAssessment.photos.map((photo) => photo.url));
+  // Only real photos are fingerprinted, so shared logos never count as photo reuse.
+  const photos = fetchedImages.filter((image) => photoUrls.has(image.url));
+  const imageHashes = hashListingImages(photos);
+  const photoMetadata = inspectImageMetadata(photos, imageHashes);
+  const rejectedUrls = new Set(imageAssessment.rejected.map((entry) => entry.url));
+  const imageUrls = listing.visual.imageUrls.filter((url) => !rejectedUrls.has(url));
 
-  const score = Math.round(buckets.reduce((acc, bucket) => acc + bucket.score * (bucket.weight / 100), 0));
-  const status = computeStatus(score);
-
-  const positiveSignals = buckets
-    .flatMap((bucket) => bucket.checks.filter((check) => check.value === "Good").map((check) => `[${bucket.label}] ${check.detail}`))
-    .slice(0, 3);
-  const missingSignals = buckets
-    .flatMap((bucket) =>
-      bucket.checks
-        .filter((check) => check.value !== "Good")
-        .map((check) => `[${bucket.label}] ${check.detail}`)
-    )
-    .slice(0, 3);
-
-  const authenticityOrRiskWeak = buckets.some(
-    (bucket) =>
-      (bucket.key === "authenticity" || bucket.key === "risk") &&
-      bucket.status === "Missing evidence"
-  );
-  const recommendedAction =
-    score >= 75 && !authenticityOrRiskWeak
-      ? "Proceed"
-      : score >= 50
-        ? "Ask seller for docs"
-        : "Wait/monitor";
+  const coa = findEvidence(evidenceSources, EVIDENCE_RULES.coa);
+  const signature = findEvidence(evidenceSources, EVIDENCE_RULES.signature);
+  const edition = findEvidence(evidenceSources, EVIDENCE_RULES.edition);
+  const provenance = findEvidence(evidenceSources, EVIDENCE_RULES.provenance);
+  const returnPolicy = findEvidence(evidenceSources, EVIDENCE_RULES.returnPolicy);
+  const insurance = findEvidence(evidenceSources, EVIDENCE_RULES.insurance);
+  const buyerProtection = findEvidence(evidenceSources, EVIDENCE_RULES.buyerProtection);
+  const documents = findEvidence(evidenceSources, EVIDENCE_RULES.documents);
+  const reproduction = findEvidence(sellerSources, RED_FLAG_RULES.reproductionLanguage);
+  const attribution = findEvidence(sellerSources, RED_FLAG_RULES.attributionHedging);
+  const unofficial = findEvidence(sellerSources, RED_FLAG_RULES.unofficialMerch);
+  const market = computePriceContext(listing);
+  const signed = signature.verdict === "affirmed";
 
-  const listing: ListingRecord = {
-    listingId: `lst_${randomUUID().slice(0, 12)}`,
-    source: /ebay\./i.test(url) ? "ebay" : /stockx\./i.test(url) ? "stockx" : /artsy\./i.test(url) ? "artsy" : "listing",
-    url,
-    fetchedAt: new Date().toISOString(),
-    currency: detectedCurrency,
-    price,
-    artwork: { title, dimensions, medium: undefined, yearOfRelease: undefined },
-    artist: { name: artist },
-    visual: { imageUrls },
+  const checks: CheckResults = {
+    coa: evidenceToCheck("COA presence", coa, {
+      good: "COA language detected.",
+      missing: "No COA mention found.",
+      negated: "Listing states there is no COA.",
+      hedged: "COA is only hinted at (e.g. on request) — confirm with seller.",
+      mixed: "Listing contradicts itself about the COA.",
+    }),
+    signature: evidenceToCheck("Signature evidence", signature, {
+      good: "Signature keywords detected.",
+      missing: "No signature evidence found.",
+      negated: "Listing describes the work as unsigned.",
+      hedged: "Signature is uncertain or unverified in the listing.",
+      mixed: "Listing contradicts itself about the signature.",
+    }),
+    edition: editionToCheck(
+      editionAnalysis,
+      evidenceToCheck("Edition consistency", edition, {
+        good: "Edition/numbering clues detected.",
+        missing: "Edition details missing.",
+        negated: "Listing states the work is not numbered.",
+        hedged: "Edition details are hedged — confirm numbering with seller.",
+        mixed: "Listing contradicts itself about the edition.",
+      }),
+      evidenceSources
+    ),
+    catalogueMatch: catalogueToCheck(catalogueMatch),
+    provenance: evidenceToCheck("Prior listing/sale mentions", provenance, {
+      good: "Provenance or prior-sale context found.",
+      missing: "No provenance trail mentioned.",
+      negated: "Listing states there is no provenance.",
+      hedged: "Provenance is hedged or unverified.",
+      mixed: "Listing contradicts itself about provenance.",
+    }),
+    releaseContext: releaseYearToCheck(releaseYears, catalogueMatch?.work.releaseYear),
+    comparableListings: comparablesToCheck(market),
+    trendBand: trendBandToCheck(market, price),
+    percentile: percentileToCheck(market, price),
+    returnPolicy: evidenceToCheck("Return policy", returnPolicy, {
+      good: "Return policy terms detected.",
+      missing: "Return policy not clearly stated.",
+      negated: "Seller does not accept returns.",
+      hedged: "Return terms are conditional — confirm before buying.",
+      mixed: "Return terms are contradictory.",
+    }),
+    insurance: evidenceToCheck("Shipping insurance", insurance, {
+      good: "Shipping insurance language detected.",
+      missing: "No shipping insurance mention.",
+      negated: "Shipping is explicitly uninsured.",
+      hedged: "Shipping insurance is optional or unconfirmed.",
+      mixed: "Listing contradicts itself about shipping insurance.",
+    }),
+    buyerProtection: evidenceToCheck("Buyer protection", buyerProtection, {
+      good: "Buyer protection terms found.",
+      missing: "Buyer protection mention missing.",
+      negated: "Listing excludes buyer protection.",
+      hedged: "Buyer protection is conditional.",
+      mixed: "Listing contradicts itself about buyer protection.",
+    }),
+    sellerReliability: sellerToCheck(listing),
+    sellerPattern: sellerPatternToCheck(listing, signed),
+    imageQuality: imageQualityToCheck(imageAssessment),
+    detailShots: detailShotsToCheck(imageAssessment, imageHashes),
+    documents: evidenceToCheck("Docs detection", documents.verdict === "absent" ? coa : documents, {
+      good: "COA/receipt-like docs mention detected.",
+      missing: "No COA/receipt docs mention detected.",
+      negated: "Listing states no receipt or COA is included.",
+      hedged: "Documentation is only offered on request.",
+      mixed: "Listing is contradictory about documentation.",
+    }),
+    photoReuse: photoReuseToCheck(listing, imageHashes),
+    imageMetadata: imageMetadataToCheck(photoMetadata, photos.length, extractAcquisitionClaim(sellerSources)),
+    reproductionLanguage: redFlagToCheck("Reproduction language", reproduction, {
+      clear: "No replica or reproduction wording found.",
+      flagged: "Listing describes the item as a replica, reproduction or poster.",
+      hedged: "Listing hints the item may be a reproduction.",
+      denied: "Seller explicitly states the item is not a reproduction.",
+    }),
+    attributionHedging: redFlagToCheck("Attribution hedging", attribution, {
+      clear: "No hedged attribution found.",
+      flagged: "Attribution is hedged (\"in the style of\", \"after\", \"attributed to\") rather than by the artist.",
+      hedged: "Attribution wording is uncertain.",
+      denied: "Seller rules out a hedged attribution.",
+    }),
+    unofficialMerch: redFlagToCheck("Unofficial or fan-made", unofficial, {
+      clear: "No unofficial or fan-art wording found.",
+      flagged: "Listing describes the item as unofficial, fan art or an homage.",
+      hedged: "Listing may be describing unofficial merchandise.",
+      denied: "Seller states the item is official.",
+    }),
   };
+  const rubric = getActiveRubric();
+  const scored = scoreChecks(checks, rubric);
+  scored.buckets = scored.buckets.map((bucket) => (bucket.key === "price" && market ? { ...bucket, market } : bucket));
+
   saveListing(listing);
+  recordPriceObservation(listing);
+  recordSellerHistory(listing, scored, signed);
+  recordListingImageHashes(listing, imageHashes);
 
-  return {
+  const response: SnapshotResponseBody = {
     source: listing.source,
+    rubricVersion: rubric.version,
     snapshot: {
       listingId: listing.listingId,
-      score,
-      status,
-      recommendedAction,
-      topPositiveSignals: positiveSignals,
-      topMissingOrSuspiciousSignals: missingSignals,
-      buckets,
+      ...scored,
     },
     artworkOverview: {
       imageUrls,
+      artistId: listing.artist.id,
       artistName: listing.artist.name ?? "Unknown artist",
       title: listing.artwork.title ?? "Untitled",
       dimensions: listing.artwork.dimensions ?? "Not provided",
+      measurements: listing.artwork.measurements ?? [],
       price: listing.price,
+      shippingPrice: listing.shippingPrice,
       currency: listing.currency,
       medium: listing.artwork.medium ?? "Not provided",
       yearOfRelease: listing.artwork.yearOfRelease ?? "Not provided",
+      edition: describeEdition(listing.artwork.edition),
+      seller: listing.seller,
+      listingEnded: listing.ended,
+      confidence: {
+        medium: listing.artwork.extracted?.medium?.confidence,
+        yearOfRelease: listing.artwork.extracted?.yearOfRelease?.confidence,
+      },
     },
   };
+  const version = recordSnapshotVersion(listing, response, new Date(), options.discovered);
+  // Only listings the app found itself are announced; a user's own scan must not tell others what they are looking at.
+  if (options.discovered && version.version === 1 && listing.artist.id && !listing.ended) {
+    alertFollowers({
+      type: "newListing",
+      listingId: listing.listingId,
+      title: response.artworkOverview.title,
+      url: listing.url,
+      artistId: listing.artist.id,
+      artistName: response.artworkOverview.artistName,
+      score: response.snapshot.score,
+      price: listing.price,
+      currency: listing.currency,
+    });
+  }
+  return response;
 }
@@ -0,0 +1,190 @@
+import { appendSnapshotVersion, listSnapshotVersions, SnapshotVersion } from "./store";
+import { ConfidenceStatus, ListingRecord, SnapshotResponseBody } from "./types";
+
+export type SnapshotVersionSummary = {
+  version: number;
+  listingId: string;
+  capturedAt: string;
+  rubricVersion: string;
+  score: number;
+  status: ConfidenceStatus;
+  price?: number;
+  currency: string;
+  title: string;
+};
+
+export type BucketScoreChange = {
+  key: string;
+  label: string;
+  from?: number;
+  to?: number;
+  change: number;
+  statusFrom?: ConfidenceStatus;
+  statusTo?: ConfidenceStatus;
+};
+
+export type SnapshotDiff = {
+  url: string;
+  from: SnapshotVersionSummary;
+  to: SnapshotVersionSummary;
+  changed: boolean;
+  price?: { from?: number; to?: number; currencyFrom: string; currencyTo: string; change?: number; changePercent?: number };
+  shippingPrice?: { from?: number; to?: number };
+  title?: { from: string; to: string };
+  // Sentences added to or removed from the description; both empty when an older version only kept its hash.
+  description?: { added: string[]; removed: string[] };
+  images: { added: string[]; removed: string[] };
+  score: { from: number; to: number; change: number };
+  // Only buckets whose score or status moved.
+  buckets: BucketScoreChange[];
+};
+
+export function recordSnapshotVersion(
+  listing: ListingRecord,
+  response: SnapshotResponseBody,
+  capturedAt = new Date(),
+  discovered = false
+): SnapshotVersion {
+  return appendSnapshotVersion({
+    listingId: listing.listingId,
+    url: listing.url,
+    capturedAt: capturedAt.toISOString(),
+    description: listing.description,
+    response,
+    discovered,
+  });
+}
+
+export function latestVersionNumber(listingId: string): number | undefined {
+  const versions = listSnapshotVersions(listingId);
+  return versions[versions.length - 1]?.version;
+}
+
+export function summarizeVersion(entry: SnapshotVersion): SnapshotVersionSummary {
+  const { response } = entry;
+  return {
+    version: entry.version,
+    listingId: entry.listingId,
+    capturedAt: entry.capturedAt,
+    rubricVersion: response.rubricVersion,
+    score: response.snapshot.score,
+    status: response.snapshot.status,
+    price: response.artworkOverview.price,
+    currency: response.artworkOverview.currency,
+    title: response.artworkOverview.title,
+  };
+}
+
+export function getSnapshotHistory(listingId: string): { url: string; versions: SnapshotVersionSummary[] } | undefined {
+  const versions = listSnapshotVersions(listingId);
+  if (!versions.length) return undefined;
+  return { url: versions[versions.length - 1].url, versions: versions.map(summarizeVersion).reverse() };
+}
+
+function sentences(text?: string): string[] {
+  return (text ?? "")
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+function setDifference(values: string[], remove: string[]): string[] {
+  const removed = new Set(remove);
+  return [...new Set(values)].filter((value) => !removed.has(value));
+}
+
+// No hash means the listing had no description; a hash without text means the text was pruned.
+function descriptionText(entry: SnapshotVersion): string | undefined {
+  return entry.descriptionHash ? entry.description : "";
+}
+
+export function diffSnapshotVersions(from: SnapshotVersion, to: SnapshotVersion): SnapshotDiff {
+  const before = from.response;
+  const after = to.response;
+  const diff: SnapshotDiff = {
+    url: to.url,
+    from: summarizeVersion(from),
+    to: summarizeVersion(to),
+    changed: false,
+    images: {
+      added: setDifference(after.artworkOverview.imageUrls, before.artworkOverview.imageUrls),
+      removed: setDifference(before.artworkOverview.imageUrls, after.artworkOverview.imageUrls),
+    },
+    score: { from: before.snapshot.score, to: after.snapshot.score, change: after.snapshot.score - before.snapshot.score },
+    buckets: [],
+  };
+
+  const priceFrom = before.artworkOverview.price;
+  const priceTo = after.artworkOverview.price;
+  const currencyFrom = before.artworkOverview.currency;
+  const currencyTo = after.artworkOverview.currency;
+  if (priceFrom !== priceTo || currencyFrom !== currencyTo) {
+    // A change is only meaningful when both prices are in the same currency.
+    const comparable = priceFrom !== undefined && priceTo !== undefined && currencyFrom === currencyTo;
+    diff.price = {
+      from: priceFrom,
+      to: priceTo,
+      currencyFrom,
+      currencyTo,
+      change: comparable ? Math.round((priceTo - priceFrom) * 100) / 100 : undefined,
+      changePercent: comparable && priceFrom ? Math.round(((priceTo - priceFrom) / priceFrom) * 1000) / 10 : undefined,
+    };
+  }
+  if (before.artworkOverview.shippingPrice !== after.artworkOverview.shippingPrice) {
+    diff.shippingPrice = { from: before.artworkOverview.shippingPrice, to: after.artworkOverview.shippingPrice };
+  }
+  if (before.artworkOverview.title !== after.artworkOverview.title) {
+    diff.title = { from: before.artworkOverview.title, to: after.artworkOverview.title };
+  }
+  const textBefore = descriptionText(from);
+  const textAfter = descriptionText(to);
+  if (textBefore !== undefined && textAfter !== undefined) {
+    const sentencesBefore = sentences(textBefore);
+    const sentencesAfter = sentences(textAfter);
+    const added = setDifference(sentencesAfter, sentencesBefore);
+    const removed = setDifference(sentencesBefore, sentencesAfter);
+    if (added.length || removed.length) diff.description = { added, removed };
+  } else if (from.descriptionHash !== to.descriptionHash) {
+    diff.description = { added: [], removed: [] };
+  }
+
+  const keys = [...new Set([...before.snapshot.buckets, ...after.snapshot.buckets].map((bucket) => bucket.key))];
+  for (const key of keys) {
+    const a = before.snapshot.buckets.find((bucket) => bucket.key === key);
+    const b = after.snapshot.buckets.find((bucket) => bucket.key === key);
+    if (a?.score === b?.score && a?.status === b?.status) continue;
+    diff.buckets.push({
+      key,
+      label: b?.label ?? a?.label ?? key,
+      from: a?.score,
+      to: b?.score,
+      change: (b?.score ?? 0) - (a?.score ?? 0),
+      statusFrom: a?.status,
+      statusTo: b?.status,
+    });
+  }
+
+  diff.changed = Boolean(
+    diff.price ||
+      diff.shippingPrice ||
+      diff.title ||
+      diff.description ||
+      diff.images.added.length ||
+      diff.images.removed.length ||
+      diff.score.change ||
+      diff.buckets.length
+  );
+  return diff;
+}
+
+// Versions default to the latest scan compared with the one before it.
+export function diffSnapshotHistory(listingId: string, fromVersion?: number, toVersion?: number): SnapshotDiff | undefined {
+  const versions = listSnapshotVersions(listingId);
+  if (!versions.length) return undefined;
+  const to = toVersion === undefined ? versions[versions.length - 1] : versions.find((entry) => entry.version === toVersion);
+  const from =
+    fromVersion === undefined
+      ? [...versions].reverse().find((entry) => to && entry.version < to.version)
+      : versions.find((entry) => entry.version === fromVersion);
+  return from && to ? diffSnapshotVersions(from, to) : undefined;
+}
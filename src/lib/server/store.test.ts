@@ -0,0 +1,123 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { diffSnapshotVersions } from "./snapshotHistory";
+import { appendSnapshotVersion, ensureUser, flushStore, listSnapshotVersions } from "./store";
+import { SnapshotResponseBody } from "./types";
+
+const STATE_FILE = join(process.cwd(), ".data", "store-state.json");
+
+function response(listingId: string, price: number): SnapshotResponseBody {
+  return {
+    source: "ebay",
+    rubricVersion: "6.0.0",
+    snapshot: {
+      listingId,
+      score: 64,
+      status: "Needs review",
+      recommendedAction: "Ask seller for docs",
+      topPositiveSignals: ["Edition number stated."],
+      topMissingOrSuspiciousSignals: ["No COA mentioned."],
+      buckets: [
+        {
+          key: "authenticity",
+          label: "Authenticity",
+          score: 70,
+          weight: 0.3,
+          status: "Needs review",
+          explanation: "A long explanation that history does not need.",
+          checks: [
+            {
+              label: "Signature",
+              value: "Good",
+              detail: "Hand signed in pencil.",
+              evidence: [{ source: "description", text: "Hand signed in pencil by the artist.", match: "signed", start: 5, end: 11, polarity: "affirmed" }],
+            },
+          ],
+        },
+      ],
+    },
+    artworkOverview: {
+      imageUrls: ["https://i.ebayimg.com/1.jpg"],
+      artistName: "Stik",
+      title: "Big Mother",
+      dimensions: "50 x 70 cm",
+      measurements: [],
+      price,
+      currency: "GBP",
+      medium: "Screenprint",
+      yearOfRelease: "2013",
+      edition: "12/250",
+      seller: { username: "printdealer", feedbackCount: 1200, positivePercent: 99.5 },
+      confidence: { medium: "high" },
+    },
+  };
+}
+
+function append(listingId: string, price: number, description?: string) {
+  return appendSnapshotVersion({ listingId, url: `https://www.ebay.com/itm/${listingId}`, capturedAt: new Date().toISOString(), description, response: response(listingId, price) });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("appendSnapshotVersion", () => {
+  it("keeps a compact summary of each report instead of the full body", () => {
+    const saved = append("ebay_compact", 100, "Hand signed in pencil.");
+    expect(saved.response.snapshot).toEqual({ score: 64, status: "Needs review", buckets: [{ key: "authenticity", label: "Authenticity", score: 70, status: "Needs review" }] });
+    expect(saved.response.artworkOverview.seller).toEqual({ username: "printdealer" });
+    expect(JSON.stringify(saved)).not.toMatch(/evidence|explanation|topPositiveSignals|measurements/);
+    expect(saved.descriptionHash).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("keeps description text on the newest two versions only", () => {
+    append("ebay_text", 100, "First text.");
+    append("ebay_text", 100, "Second text.");
+    append("ebay_text", 100, "Third text.");
+    const versions = listSnapshotVersions("ebay_text");
+    expect(versions.map((entry) => entry.description)).toEqual([undefined, "Second text.", "Third text."]);
+    expect(versions.every((entry) => entry.descriptionHash)).toBe(true);
+
+    // Sentence-level diffs still work for the latest change, and older edits are still spotted by hash.
+    expect(diffSnapshotVersions(versions[1], versions[2]).description).toEqual({ added: ["Third text."], removed: ["Second text."] });
+    expect(diffSnapshotVersions(versions[0], versions[2]).description).toEqual({ added: [], removed: [] });
+  });
+
+  it("caps versions per listing without reusing version numbers", () => {
+    for (let i = 0; i < 35; i += 1) append("ebay_many", 100 + i);
+    const versions = listSnapshotVersions("ebay_many");
+    expect(versions).toHaveLength(30);
+    expect(versions[0].version).toBe(6);
+    expect(versions[29].version).toBe(35);
+  });
+
+  it("drops the least recently scanned listing past the listing cap", () => {
+    append("ebay_stale", 100);
+    append("ebay_fresh", 100);
+    for (let i = 0; i < 999; i += 1) {
+      append(`ebay_fill_${i}`, 100);
+      // Rescanning keeps a listing at the fresh end.
+      if (i === 500) append("ebay_fresh", 101);
+    }
+    expect(listSnapshotVersions("ebay_stale")).toEqual([]);
+    expect(listSnapshotVersions("ebay_fresh")).toHaveLength(2);
+  });
+});
+
+describe("persistence", () => {
+  it("writes once after a burst of changes", async () => {
+    flushStore();
+    vi.useFakeTimers();
+    const before = existsSync(STATE_FILE) ? readFileSync(STATE_FILE, "utf8") : "";
+    ensureUser("burst@example.com");
+    append("ebay_burst", 100);
+    append("ebay_burst", 90);
+    expect(existsSync(STATE_FILE) ? readFileSync(STATE_FILE, "utf8") : "").toBe(before);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const state = JSON.parse(readFileSync(STATE_FILE, "utf8"));
+    expect(state.usersByEmail.map(([email]: [string]) => email)).toContain("burst@example.com");
+    expect(new Map(state.snapshotHistoryByListing).get("ebay_burst")).toHaveLength(2);
+  });
+});
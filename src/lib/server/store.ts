@@ -1,7 +1,9 @@
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import { existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
-import { ListingRecord } from "./types";
+import { FxRateTable } from "@/lib/shared/currency";
+import { ConfidenceStatus, ListingRecord, SellerProfile, SnapshotBucket, SnapshotResponseBody } from "./types";
+import { normalizeUrlKey } from "./urls";
 
 type User = {
   id: string;
@@ -16,6 +18,188 @@ export type WatchlistItem = {
   thumbnailUrl?: string;
   price?: number;
   currency?: string;
+  score?: number;
+  // The snapshot version this user last saw; their next rescan is compared with it.
+  lastSeenVersion?: number;
+  // Set by a rescan that found the listing ended or gone.
+  ended?: boolean;
+  endedAt?: string;
+};
+
+export type PriceObservation = {
+  listingId: string;
+  url: string;
+  source: string;
+  artistId?: string;
+  artistName?: string;
+  workId?: string;
+  price: number;
+  currency: string;
+  observedAt: string;
+};
+
+export type SellerListingEntry = {
+  listingId: string;
+  url: string;
+  title: string;
+  artistId?: string;
+  artistName?: string;
+  score: number;
+  status: ConfidenceStatus;
+  redFlags: number;
+  // Whether the listing claims the work is hand signed.
+  signed: boolean;
+  scannedAt: string;
+};
+
+export type SellerRecord = {
+  key: string;
+  source: string;
+  handle: string;
+  profile?: SellerProfile;
+  listings: SellerListingEntry[];
+};
+
+export type ImageHashEntry = {
+  hash: string;
+  imageUrl: string;
+  listingId: string;
+  listingUrl: string;
+  source: string;
+  sellerKey?: string;
+  seenAt: string;
+};
+
+export type AlertType = "priceDrop" | "priceRise" | "listingEnded" | "scoreDowngrade" | "listingEdited" | "newListing";
+
+export type AlertState = "unread" | "read" | "dismissed";
+
+export type AlertEntry = {
+  id: string;
+  type: AlertType;
+  state: AlertState;
+  message: string;
+  createdAt: string;
+  // The canonical id of the listing the alert is about, when there is one.
+  listingId?: string;
+  artistId?: string;
+  // The numbers behind the message, for clients that word alerts themselves.
+  data?: Record<string, string | number>;
+  // One entry per notification channel the alert was sent to.
+  deliveries?: AlertDelivery[];
+};
+
+export type NotificationChannelName = "email" | "webhook" | "push";
+
+export type AlertDelivery = {
+  channel: NotificationChannelName;
+  status: "pending" | "sent" | "failed" | "skipped";
+  attempts: number;
+  // When a pending delivery is next tried; pushed back by retries and quiet hours.
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  deliveredAt?: string;
+  error?: string;
+};
+
+export type NotificationPreferences = {
+  email?: {
+    enabled: boolean;
+    // A custom address is only mailed once confirmed; until then mail goes to the account email.
+    address?: string;
+    addressConfirmedAt?: string;
+    confirmation?: { tokenHash: string; expiresAt: string };
+  };
+  webhook?: { enabled: boolean; url?: string; secret?: string };
+  push?: { enabled: boolean };
+  // Alert types to send out; every type when unset.
+  alertTypes?: AlertType[];
+  // Local "HH:MM" times in an IANA zone; the window may cross midnight.
+  quietHours?: { start: string; end: string; timeZone: string };
+};
+
+export type PushSubscriptionRecord = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  createdAt: string;
+};
+
+export type AlertRules = {
+  priceDrop: { enabled: boolean; minPercent: number };
+  priceRise: { enabled: boolean; minPercent: number };
+  scoreDowngrade: { enabled: boolean; minPoints: number };
+  listingEnded: { enabled: boolean };
+  listingEdited: { enabled: boolean };
+  newListing: { enabled: boolean; minScore: number };
+};
+
+// Users only store the rule fields they changed.
+export type AlertRuleOverrides = { [K in keyof AlertRules]?: Partial<AlertRules[K]> };
+
+// What history needs from a report: scores, statuses and the overview fields that get compared, without checks or evidence.
+export type CompactSnapshotResponse = {
+  rubricVersion: string;
+  snapshot: Pick<SnapshotResponseBody["snapshot"], "score" | "status"> & {
+    buckets: Array<Pick<SnapshotBucket, "key" | "label" | "score" | "status">>;
+  };
+  artworkOverview: Pick<
+    SnapshotResponseBody["artworkOverview"],
+    | "imageUrls"
+    | "artistId"
+    | "artistName"
+    | "title"
+    | "dimensions"
+    | "price"
+    | "shippingPrice"
+    | "currency"
+    | "medium"
+    | "yearOfRelease"
+    | "edition"
+    | "listingEnded"
+  > & { seller?: Pick<SellerProfile, "username"> };
+};
+
+export type SnapshotVersion = {
+  // Counts up from 1 per listing and survives pruning of old versions.
+  version: number;
+  listingId: string;
+  url: string;
+  capturedAt: string;
+  // Not part of the response body, but needed to spot quiet edits.
+  descriptionHash?: string;
+  // Only the newest versions keep the text, so the latest scan can say which sentences changed.
+  description?: string;
+  response: CompactSnapshotResponse;
+  // Found by the app's own discovery rather than scanned by a user; only these are announced to followers.
+  discovered?: boolean;
+};
+
+export type ScanCadence = "hourly" | "daily" | "weekly" | "off";
+
+export type UserPreferences = {
+  homeCurrency?: string;
+  alertRules?: AlertRuleOverrides;
+  // How often the background scheduler rescans the watchlist; daily when unset.
+  scanCadence?: ScanCadence;
+  notifications?: NotificationPreferences;
+  digestFrequency?: "daily" | "weekly" | "off";
+};
+
+export type DigestScheduleEntry = {
+  userId: string;
+  frequency: "daily" | "weekly";
+  nextSendAt: string;
+  // The next digest covers everything since this time.
+  lastSentAt?: string;
+  lastError?: string;
+};
+
+export type ScanScheduleEntry = {
+  userId: string;
+  cadence: Exclude<ScanCadence, "off">;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastRun?: { rescanned: number; failed: number; alerts: number; error?: string };
 };
 
 type DeletedWatchlistRecord = {
@@ -43,22 +227,59 @@ const refreshToUserId = new Map<string, string>();
 const followsByEmail = new Map<string, Set<string>>();
 const watchlistByUser = new Map<string, WatchlistItem[]>();
 const deletedWatchlistByUser = new Map<string, Map<string, DeletedWatchlistRecord>>();
-const alertsByUser = new Map<string, Array<{ id: string; type: string; message: string; createdAt: string }>>();
+const alertsByUser = new Map<string, AlertEntry[]>();
+const MAX_ALERTS_PER_USER = 500;
+// Unread alerts pushed out by the cap since the user last cleared their inbox, so the inbox can say so.
+const droppedUnreadByUser = new Map<string, number>();
 const listingsById = new Map<string, ListingRecord>();
+let priceObservations: PriceObservation[] = [];
+const MAX_PRICE_OBSERVATIONS = 5000;
+const MAX_PRICE_OBSERVATIONS_PER_LISTING = 24;
+const preferencesByEmail = new Map<string, UserPreferences>();
+let importedRateTables: FxRateTable[] = [];
+const sellersByKey = new Map<string, SellerRecord>();
+const MAX_LISTINGS_PER_SELLER = 200;
+let imageHashes: ImageHashEntry[] = [];
+const MAX_IMAGE_HASHES = 20000;
+// Kept in least recently scanned order, so the listing dropped past the cap is the stalest one.
+const snapshotHistoryByListing = new Map<string, SnapshotVersion[]>();
+const MAX_VERSIONS_PER_LISTING = 30;
+const MAX_HISTORY_LISTINGS = 1000;
+const VERSIONS_WITH_DESCRIPTION = 2;
+const scanSchedulesByUser = new Map<string, ScanScheduleEntry>();
+const pushSubscriptionsByUser = new Map<string, PushSubscriptionRecord[]>();
+const digestSchedulesByUser = new Map<string, DigestScheduleEntry>();
 const UNDO_TTL_MS = 10_000;
 const DATA_DIR = join(process.cwd(), ".data");
 const STATE_FILE = join(DATA_DIR, "store-state.json");
 const TEMP_STATE_FILE = join(DATA_DIR, "store-state.tmp.json");
 let lastPersistedMtimeMs = 0;
+// One write covers every change made within this window, e.g. all the records a snapshot touches.
+const PERSIST_DEBOUNCE_MS = 1000;
+let persistTimer: ReturnType<typeof setTimeout> | undefined;
 
 type PersistedStoreState = {
   usersByEmail: Array<[string, User]>;
   followsByEmail?: Array<[string, string[]]>;
   // Backward compatibility for older persisted shape.
   followsByUser?: Array<[string, string[]]>;
+  watchlistByUser?: Array<[string, WatchlistItem[]]>;
+  priceObservations?: PriceObservation[];
+  preferencesByEmail?: Array<[string, UserPreferences]>;
+  importedRateTables?: FxRateTable[];
+  sellersByKey?: Array<[string, SellerRecord]>;
+  imageHashes?: ImageHashEntry[];
+  snapshotHistoryByListing?: Array<[string, SnapshotVersion[]]>;
+  alertsByUser?: Array<[string, AlertEntry[]]>;
+  droppedUnreadByUser?: Array<[string, number]>;
+  scanSchedulesByUser?: Array<[string, ScanScheduleEntry]>;
+  pushSubscriptionsByUser?: Array<[string, PushSubscriptionRecord[]]>;
+  digestSchedulesByUser?: Array<[string, DigestScheduleEntry]>;
 };
 
 function loadPersistentState(force = false): void {
+  // Changes not yet written would be lost by reloading over them.
+  if (!force && persistTimer) return;
   if (!existsSync(STATE_FILE)) return;
   const mtimeMs = statSync(STATE_FILE).mtimeMs;
   if (!force && mtimeMs <= lastPersistedMtimeMs) return;
@@ -79,15 +300,89 @@ function loadPersistentState(force = false): void {
       followsByEmail.set(user.email, new Set(artists));
     }
   }
+  watchlistByUser.clear();
+  for (const [userId, items] of parsed.watchlistByUser ?? []) {
+    watchlistByUser.set(userId, items);
+  }
+  priceObservations = parsed.priceObservations ?? [];
+  preferencesByEmail.clear();
+  for (const [email, preferences] of parsed.preferencesByEmail ?? []) {
+    preferencesByEmail.set(email, preferences);
+  }
+  importedRateTables = parsed.importedRateTables ?? [];
+  sellersByKey.clear();
+  for (const [key, record] of parsed.sellersByKey ?? []) {
+    sellersByKey.set(key, record);
+  }
+  imageHashes = parsed.imageHashes ?? [];
+  snapshotHistoryByListing.clear();
+  for (const [listingId, versions] of parsed.snapshotHistoryByListing ?? []) {
+    // Older state files kept full reports on every version.
+    snapshotHistoryByListing.set(
+      listingId,
+      versions.map((entry, index) => ({
+        ...entry,
+        descriptionHash: entry.descriptionHash ?? (entry.description ? hashText(entry.description) : undefined),
+        description: index >= versions.length - VERSIONS_WITH_DESCRIPTION ? entry.description : undefined,
+        response: compactSnapshotResponse(entry.response),
+      }))
+    );
+  }
+  alertsByUser.clear();
+  for (const [userId, alerts] of parsed.alertsByUser ?? []) {
+    alertsByUser.set(userId, alerts);
+  }
+  droppedUnreadByUser.clear();
+  for (const [userId, count] of parsed.droppedUnreadByUser ?? []) {
+    droppedUnreadByUser.set(userId, count);
+  }
+  scanSchedulesByUser.clear();
+  for (const [userId, entry] of parsed.scanSchedulesByUser ?? []) {
+    scanSchedulesByUser.set(userId, entry);
+  }
+  pushSubscriptionsByUser.clear();
+  for (const [userId, subscriptions] of parsed.pushSubscriptionsByUser ?? []) {
+    pushSubscriptionsByUser.set(userId, subscriptions);
+  }
+  digestSchedulesByUser.clear();
+  for (const [userId, entry] of parsed.digestSchedulesByUser ?? []) {
+    digestSchedulesByUser.set(userId, entry);
+  }
   lastPersistedMtimeMs = mtimeMs;
 }
 
 function persistState(): void {
+  if (persistTimer) return;
+  persistTimer = setTimeout(flushStore, PERSIST_DEBOUNCE_MS);
+  // A pending write should not keep the process alive; the exit hook below still saves it.
+  persistTimer.unref?.();
+}
+
+// Writes pending changes now instead of waiting for the debounce.
+export function flushStore(): void {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = undefined;
+  writeState();
+}
+
+function writeState(): void {
   try {
     mkdirSync(DATA_DIR, { recursive: true });
     const payload: PersistedStoreState = {
       usersByEmail: [...usersByEmail.entries()],
       followsByEmail: [...followsByEmail.entries()].map(([email, artists]) => [email, [...artists.values()]]),
+      watchlistByUser: [...watchlistByUser.entries()],
+      priceObservations,
+      preferencesByEmail: [...preferencesByEmail.entries()],
+      importedRateTables,
+      sellersByKey: [...sellersByKey.entries()],
+      imageHashes,
+      snapshotHistoryByListing: [...snapshotHistoryByListing.entries()],
+      alertsByUser: [...alertsByUser.entries()],
+      droppedUnreadByUser: [...droppedUnreadByUser.entries()],
+      scanSchedulesByUser: [...scanSchedulesByUser.entries()],
+      pushSubscriptionsByUser: [...pushSubscriptionsByUser.entries()],
+      digestSchedulesByUser: [...digestSchedulesByUser.entries()],
     };
     writeFileSync(TEMP_STATE_FILE, JSON.stringify(payload), "utf8");
     renameSync(TEMP_STATE_FILE, STATE_FILE);
@@ -101,6 +396,9 @@ function persistState(): void {
 }
 
 loadPersistentState(true);
+process.once("exit", () => {
+  if (persistTimer) flushStore();
+});
 
 function findUserByIdInMemory(userId: string): User | undefined {
   for (const user of usersByEmail.values()) {
@@ -109,29 +407,6 @@ function findUserByIdInMemory(userId: string): User | undefined {
   return undefined;
 }
 
-function normalizeUrlKey(url: string): string {
-  const trimmed = url.trim();
-  if (!trimmed) return "";
-  try {
-    const parsed = new URL(trimmed);
-    parsed.hash = "";
-    const trackingParams = [
-      "utm_source",
-      "utm_medium",
-      "utm_campaign",
-      "utm_term",
-      "utm_content",
-      "gclid",
-      "fbclid",
-    ];
-    for (const key of trackingParams) parsed.searchParams.delete(key);
-    const pathname = parsed.pathname.replace(/\/+$/, "") || "/";
-    return `${parsed.protocol}//${parsed.hostname.toLowerCase()}${pathname}${parsed.search}`;
-  } catch {
-    return trimmed.toLowerCase();
-  }
-}
-
 function dedupeWatchlist(items: WatchlistItem[]): WatchlistItem[] {
   const seenListingIds = new Set<string>();
   const seenUrls = new Set<string>();
@@ -213,7 +488,16 @@ export function listFollowing(userId: string, email?: string): string[] {
   return [...(followsByEmail.get(emailKey) ?? new Set<string>()).values()];
 }
 
+export function listFollowers(): Array<{ userId: string; email: string; artists: string[] }> {
+  loadPersistentState();
+  return [...followsByEmail.entries()].flatMap(([email, artists]) => {
+    const user = usersByEmail.get(email);
+    return user && artists.size ? [{ userId: user.id, email, artists: [...artists.values()] }] : [];
+  });
+}
+
 export function addWatchlist(userId: string, item: WatchlistItem): void {
+  loadPersistentState();
   const list = dedupeWatchlist(watchlistByUser.get(userId) ?? []);
   const incomingUrlKey = normalizeUrlKey(item.url);
   const next = dedupeWatchlist([
@@ -223,6 +507,7 @@ export function addWatchlist(userId: string, item: WatchlistItem): void {
     ),
   ]);
   watchlistByUser.set(userId, next);
+  persistState();
 
   const deleted = deletedWatchlistByUser.get(userId);
   if (!deleted) return;
@@ -233,12 +518,33 @@ export function addWatchlist(userId: string, item: WatchlistItem): void {
   }
 }
 
+export function updateWatchlistItem(
+  userId: string,
+  listingId: string,
+  patch: Partial<Omit<WatchlistItem, "listingId" | "url">>
+): WatchlistItem | undefined {
+  loadPersistentState();
+  const list = watchlistByUser.get(userId) ?? [];
+  const index = list.findIndex((entry) => entry.listingId === listingId);
+  if (index < 0) return undefined;
+  const updated = { ...list[index], ...patch };
+  watchlistByUser.set(userId, [...list.slice(0, index), updated, ...list.slice(index + 1)]);
+  persistState();
+  return updated;
+}
+
 export function listWatchlist(userId: string): WatchlistItem[] {
+  loadPersistentState();
   const deduped = dedupeWatchlist(watchlistByUser.get(userId) ?? []);
   watchlistByUser.set(userId, deduped);
   return deduped;
 }
 
+export function listWatchlistOwners(): string[] {
+  loadPersistentState();
+  return [...watchlistByUser.entries()].filter(([, items]) => items.length).map(([userId]) => userId);
+}
+
 function getDeletedMap(userId: string): Map<string, DeletedWatchlistRecord> {
   const existing = deletedWatchlistByUser.get(userId);
   if (existing) return existing;
@@ -259,6 +565,7 @@ function pruneExpiredDeleted(userId: string): void {
 }
 
 export function deleteWatchlistItem(userId: string, listingId: string): DeleteWatchlistResult {
+  loadPersistentState();
   pruneExpiredDeleted(userId);
   const list = watchlistByUser.get(userId) ?? [];
   const match = list.find((entry) => entry.listingId === listingId);
@@ -267,6 +574,7 @@ export function deleteWatchlistItem(userId: string, listingId: string): DeleteWa
       userId,
       list.filter((entry) => entry.listingId !== listingId)
     );
+    persistState();
     const deleted = getDeletedMap(userId);
     const now = Date.now();
     const record: DeletedWatchlistRecord = {
@@ -318,14 +626,117 @@ export function restoreWatchlistItem(userId: string, listingId: string, undoToke
   return { state: "restored", item: existing.item };
 }
 
-export function addAlert(userId: string, type: string, message: string): void {
+// Past the cap, dismissed alerts go first, then the oldest read ones; unread alerts are dropped last.
+function pruneAlerts(list: AlertEntry[]): AlertEntry[] {
+  let excess = list.length - MAX_ALERTS_PER_USER;
+  if (excess <= 0) return list;
+  const dropped = new Set<AlertEntry>();
+  for (const state of ["dismissed", "read", "unread"] as AlertState[]) {
+    for (let i = list.length - 1; i >= 0 && excess > 0; i -= 1) {
+      if (list[i].state !== state || dropped.has(list[i])) continue;
+      dropped.add(list[i]);
+      excess -= 1;
+    }
+  }
+  return list.filter((entry) => !dropped.has(entry));
+}
+
+export function addAlert(userId: string, alert: Omit<AlertEntry, "id" | "state" | "createdAt">, createdAt = new Date()): AlertEntry {
+  loadPersistentState();
+  const entry: AlertEntry = { id: `alt_${randomUUID().slice(0, 10)}`, state: "unread", createdAt: createdAt.toISOString(), ...alert };
+  const list = [entry, ...(alertsByUser.get(userId) ?? [])];
+  const kept = pruneAlerts(list);
+  const droppedUnread = list.filter((item) => item.state === "unread").length - kept.filter((item) => item.state === "unread").length;
+  if (droppedUnread) droppedUnreadByUser.set(userId, (droppedUnreadByUser.get(userId) ?? 0) + droppedUnread);
+  alertsByUser.set(userId, kept);
+  persistState();
+  return entry;
+}
+
+// Newest first, dismissed alerts included.
+export function listAlerts(userId: string): AlertEntry[] {
+  loadPersistentState();
+  return [...(alertsByUser.get(userId) ?? [])];
+}
+
+// Without ids every alert in one of the `from` states changes; returns how many did.
+export function setAlertState(userId: string, state: AlertState, ids?: string[], from?: AlertState[]): number {
+  loadPersistentState();
+  const wanted = ids ? new Set(ids) : undefined;
+  let changed = 0;
+  const next = (alertsByUser.get(userId) ?? []).map((entry) => {
+    if (entry.state === state || (wanted && !wanted.has(entry.id)) || (from && !from.includes(entry.state))) return entry;
+    changed += 1;
+    return { ...entry, state };
+  });
+  // Reading or clearing the whole inbox acknowledges the alerts that no longer fit in it.
+  const acknowledged = !ids && state !== "unread" && droppedUnreadByUser.delete(userId);
+  if (changed) alertsByUser.set(userId, next);
+  if (changed || acknowledged) persistState();
+  return changed;
+}
+
+export function getDroppedUnreadCount(userId: string): number {
+  loadPersistentState();
+  return droppedUnreadByUser.get(userId) ?? 0;
+}
+
+// Deliveries still waiting to go out, across every user, soonest first.
+export function listPendingDeliveries(): Array<{ userId: string; alert: AlertEntry; delivery: AlertDelivery }> {
+  loadPersistentState();
+  const pending: Array<{ userId: string; alert: AlertEntry; delivery: AlertDelivery }> = [];
+  for (const [userId, alerts] of alertsByUser.entries()) {
+    for (const alert of alerts) {
+      for (const delivery of alert.deliveries ?? []) {
+        if (delivery.status === "pending") pending.push({ userId, alert, delivery });
+      }
+    }
+  }
+  return pending.sort((a, b) => (a.delivery.nextAttemptAt ?? "").localeCompare(b.delivery.nextAttemptAt ?? ""));
+}
+
+export function updateAlertDelivery(
+  userId: string,
+  alertId: string,
+  channel: NotificationChannelName,
+  patch: Partial<Omit<AlertDelivery, "channel">>
+): AlertDelivery | undefined {
+  loadPersistentState();
   const list = alertsByUser.get(userId) ?? [];
-  list.unshift({ id: `alt_${randomUUID().slice(0, 10)}`, type, message, createdAt: new Date().toISOString() });
-  alertsByUser.set(userId, list.slice(0, 30));
+  const alert = list.find((entry) => entry.id === alertId);
+  const index = alert?.deliveries?.findIndex((delivery) => delivery.channel === channel) ?? -1;
+  if (!alert?.deliveries || index < 0) return undefined;
+  const updated = { ...alert.deliveries[index], ...patch };
+  const deliveries = [...alert.deliveries.slice(0, index), updated, ...alert.deliveries.slice(index + 1)];
+  alertsByUser.set(
+    userId,
+    list.map((entry) => (entry.id === alertId ? { ...entry, deliveries } : entry))
+  );
+  persistState();
+  return updated;
+}
+
+export function listPushSubscriptions(userId: string): PushSubscriptionRecord[] {
+  loadPersistentState();
+  return [...(pushSubscriptionsByUser.get(userId) ?? [])];
+}
+
+// Re-subscribing from the same browser replaces its keys.
+export function savePushSubscription(userId: string, subscription: PushSubscriptionRecord): void {
+  loadPersistentState();
+  const others = (pushSubscriptionsByUser.get(userId) ?? []).filter((entry) => entry.endpoint !== subscription.endpoint);
+  pushSubscriptionsByUser.set(userId, [...others, subscription]);
+  persistState();
 }
 
-export function listAlerts(userId: string): Array<{ id: string; type: string; message: string; createdAt: string }> {
-  return alertsByUser.get(userId) ?? [];
+export function removePushSubscription(userId: string, endpoint: string): boolean {
+  loadPersistentState();
+  const list = pushSubscriptionsByUser.get(userId) ?? [];
+  const next = list.filter((entry) => entry.endpoint !== endpoint);
+  if (next.length === list.length) return false;
+  pushSubscriptionsByUser.set(userId, next);
+  persistState();
+  return true;
 }
 
 export function saveListing(listing: ListingRecord): void {
@@ -335,3 +746,204 @@ export function saveListing(listing: ListingRecord): void {
 export function getListing(listingId: string): ListingRecord | undefined {
   return listingsById.get(listingId);
 }
+
+// A listing keeps at most one observation a day, and an unchanged price is only recorded again in a new month,
+// so listings that are rescanned hourly neither push the rest out nor outweigh them in the monthly medians.
+export function addPriceObservation(observation: PriceObservation): void {
+  loadPersistentState();
+  const own = priceObservations.filter((entry) => entry.listingId === observation.listingId);
+  const last = own[own.length - 1];
+  const unchanged = last && last.price === observation.price && last.currency === observation.currency;
+  if (unchanged && last.observedAt.slice(0, 7) === observation.observedAt.slice(0, 7)) return;
+  const sameDay = last && last.observedAt.slice(0, 10) === observation.observedAt.slice(0, 10) ? last : undefined;
+  const kept = own.filter((entry) => entry !== sameDay).slice(-(MAX_PRICE_OBSERVATIONS_PER_LISTING - 1));
+  const dropped = new Set(own.filter((entry) => !kept.includes(entry)));
+  priceObservations = [...priceObservations.filter((entry) => !dropped.has(entry)), observation].slice(-MAX_PRICE_OBSERVATIONS);
+  persistState();
+}
+
+export function listPriceObservations(filter: { artistId?: string; workId?: string }): PriceObservation[] {
+  loadPersistentState();
+  if (filter.workId) return priceObservations.filter((entry) => entry.workId === filter.workId);
+  if (filter.artistId) return priceObservations.filter((entry) => entry.artistId === filter.artistId);
+  return [];
+}
+
+export function getPreferences(userId: string, email?: string): UserPreferences {
+  loadPersistentState();
+  const emailKey = resolveEmailKey(userId, email);
+  if (!emailKey) return {};
+  return { ...(preferencesByEmail.get(emailKey) ?? {}) };
+}
+
+export function listUserPreferences(): Array<{ userId: string; email: string; preferences: UserPreferences }> {
+  loadPersistentState();
+  return [...preferencesByEmail.entries()].flatMap(([email, preferences]) => {
+    const user = usersByEmail.get(email);
+    return user ? [{ userId: user.id, email, preferences: { ...preferences } }] : [];
+  });
+}
+
+export function updatePreferences(userId: string, patch: UserPreferences, email?: string): UserPreferences {
+  loadPersistentState();
+  const emailKey = resolveEmailKey(userId, email);
+  if (!emailKey) return {};
+  const next = { ...(preferencesByEmail.get(emailKey) ?? {}), ...patch };
+  preferencesByEmail.set(emailKey, next);
+  persistState();
+  return { ...next };
+}
+
+export function getScanSchedule(userId: string): ScanScheduleEntry | undefined {
+  loadPersistentState();
+  const entry = scanSchedulesByUser.get(userId);
+  return entry ? { ...entry } : undefined;
+}
+
+export function saveScanSchedule(entry: ScanScheduleEntry): void {
+  loadPersistentState();
+  scanSchedulesByUser.set(entry.userId, entry);
+  persistState();
+}
+
+export function getDigestSchedule(userId: string): DigestScheduleEntry | undefined {
+  loadPersistentState();
+  const entry = digestSchedulesByUser.get(userId);
+  return entry ? { ...entry } : undefined;
+}
+
+export function saveDigestSchedule(entry: DigestScheduleEntry): void {
+  loadPersistentState();
+  digestSchedulesByUser.set(entry.userId, entry);
+  persistState();
+}
+
+// An imported table replaces any earlier import for the same day and base.
+export function saveRateTable(table: FxRateTable): void {
+  loadPersistentState();
+  importedRateTables = [
+    ...importedRateTables.filter((entry) => entry.date !== table.date || entry.base !== table.base),
+    table,
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  persistState();
+}
+
+export function listImportedRateTables(): FxRateTable[] {
+  loadPersistentState();
+  return [...importedRateTables];
+}
+
+// A rescan of the same listing replaces its earlier entry so each listing counts once.
+export function recordSellerListing(
+  seller: Omit<SellerRecord, "listings">,
+  entry: SellerListingEntry
+): SellerRecord {
+  loadPersistentState();
+  const existing = sellersByKey.get(seller.key);
+  const listings = [entry, ...(existing?.listings ?? []).filter((item) => item.listingId !== entry.listingId)].slice(
+    0,
+    MAX_LISTINGS_PER_SELLER
+  );
+  const record: SellerRecord = { ...seller, profile: seller.profile ?? existing?.profile, listings };
+  sellersByKey.set(seller.key, record);
+  persistState();
+  return record;
+}
+
+export function getSellerRecord(key: string): SellerRecord | undefined {
+  loadPersistentState();
+  return sellersByKey.get(key);
+}
+
+// A rescan replaces the listing's earlier hashes instead of matching against itself.
+export function saveImageHashes(listingId: string, entries: ImageHashEntry[]): void {
+  loadPersistentState();
+  imageHashes = [...imageHashes.filter((entry) => entry.listingId !== listingId), ...entries].slice(-MAX_IMAGE_HASHES);
+  persistState();
+}
+
+export function listImageHashes(excludeListingId?: string): ImageHashEntry[] {
+  loadPersistentState();
+  if (!excludeListingId) return [...imageHashes];
+  return imageHashes.filter((entry) => entry.listingId !== excludeListingId);
+}
+
+function hashText(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 32);
+}
+
+export function compactSnapshotResponse(response: SnapshotResponseBody | CompactSnapshotResponse): CompactSnapshotResponse {
+  const { snapshot, artworkOverview: overview } = response;
+  return {
+    rubricVersion: response.rubricVersion,
+    snapshot: {
+      score: snapshot.score,
+      status: snapshot.status,
+      buckets: snapshot.buckets.map(({ key, label, score, status }) => ({ key, label, score, status })),
+    },
+    artworkOverview: {
+      imageUrls: overview.imageUrls,
+      artistId: overview.artistId,
+      artistName: overview.artistName,
+      title: overview.title,
+      dimensions: overview.dimensions,
+      price: overview.price,
+      shippingPrice: overview.shippingPrice,
+      currency: overview.currency,
+      medium: overview.medium,
+      yearOfRelease: overview.yearOfRelease,
+      edition: overview.edition,
+      listingEnded: overview.listingEnded,
+      seller: overview.seller?.username ? { username: overview.seller.username } : undefined,
+    },
+  };
+}
+
+export function appendSnapshotVersion(entry: {
+  listingId: string;
+  url: string;
+  capturedAt: string;
+  description?: string;
+  response: SnapshotResponseBody | CompactSnapshotResponse;
+  discovered?: boolean;
+}): SnapshotVersion {
+  loadPersistentState();
+  const versions = snapshotHistoryByListing.get(entry.listingId) ?? [];
+  const saved: SnapshotVersion = {
+    version: (versions[versions.length - 1]?.version ?? 0) + 1,
+    listingId: entry.listingId,
+    url: entry.url,
+    capturedAt: entry.capturedAt,
+    descriptionHash: entry.description ? hashText(entry.description) : undefined,
+    description: entry.description,
+    response: compactSnapshotResponse(entry.response),
+    ...(entry.discovered ? { discovered: true } : {}),
+  };
+  const next = [...versions, saved].slice(-MAX_VERSIONS_PER_LISTING);
+  const textFrom = next.length - VERSIONS_WITH_DESCRIPTION;
+  snapshotHistoryByListing.delete(entry.listingId);
+  snapshotHistoryByListing.set(
+    entry.listingId,
+    next.map((version, index) => (index < textFrom && version.description ? { ...version, description: undefined } : version))
+  );
+  for (const listingId of snapshotHistoryByListing.keys()) {
+    if (snapshotHistoryByListing.size <= MAX_HISTORY_LISTINGS) break;
+    snapshotHistoryByListing.delete(listingId);
+  }
+  persistState();
+  return saved;
+}
+
+export function listSnapshotVersions(listingId: string): SnapshotVersion[] {
+  loadPersistentState();
+  return [...(snapshotHistoryByListing.get(listingId) ?? [])];
+}
+
+// Listings whose first snapshot was taken in [since, until).
+export function listFirstSnapshotVersions(since: string, until: string): SnapshotVersion[] {
+  loadPersistentState();
+  return [...snapshotHistoryByListing.values()].flatMap((versions) => {
+    const first = versions[0];
+    return first?.version === 1 && first.capturedAt >= since && first.capturedAt < until ? [first] : [];
+  });
+}
@@ -1,20 +1,96 @@
+import { HomeAmount } from "@/lib/shared/currency";
+
 export type ConfidenceStatus = "Good" | "Needs review" | "Missing evidence";
 export type RecommendedAction = "Proceed" | "Ask seller for docs" | "Wait/monitor";
+export type CheckValue = ConfidenceStatus | "Red flag";
+
+export type EvidenceSourceKind = "title" | "description" | "jsonLd" | "meta" | "page";
+
+export interface EvidenceExcerpt {
+  source: EvidenceSourceKind;
+  text: string;
+  match: string;
+  // Character offsets of the matched phrase within the source text.
+  start: number;
+  end: number;
+  polarity: "affirmed" | "negated" | "hedged";
+}
 
 export interface SnapshotBucketCheck {
   label: string;
-  value: "Good" | "Needs review" | "Missing evidence";
+  value: CheckValue;
   detail: string;
+  evidence?: EvidenceExcerpt[];
+  // Partial credit (0-1) for measured checks; scoring uses it instead of the fixed score for the value.
+  grade?: number;
+  reasons?: string[];
+}
+
+export interface PriceMarketStats {
+  // "work" when enough catalogue-matched comparables exist, otherwise the artist's wider market.
+  scope: "work" | "artist";
+  currency: string;
+  sampleSize: number;
+  percentile?: number;
+  band?: { low: number; median: number; high: number };
+  trendPercent?: number;
+  months: Array<{ month: string; median: number; count: number }>;
 }
 
 export interface SnapshotBucket {
-  key: "authenticity" | "provenance" | "price" | "risk" | "visual";
+  key: "authenticity" | "provenance" | "price" | "risk" | "visual" | "redFlags";
   label: string;
   score: number;
   weight: number;
   status: ConfidenceStatus;
   checks: SnapshotBucketCheck[];
   explanation: string;
+  // Only set on the price bucket.
+  market?: PriceMarketStats;
+}
+
+export type ExtractionConfidence = "high" | "medium" | "low";
+
+export interface ExtractedAttribute {
+  value: string;
+  confidence: ExtractionConfidence;
+  // "specifics" means a structured marketplace field such as eBay item specifics.
+  source: EvidenceSourceKind | "specifics";
+}
+
+export type MeasurementVariant = "sheet" | "image" | "framed" | "object" | "unspecified";
+
+export interface MeasurementSize {
+  width: number;
+  height: number;
+  depth?: number;
+}
+
+export interface ArtworkMeasurement {
+  variant: MeasurementVariant;
+  cm: MeasurementSize;
+  in: MeasurementSize;
+  sourceUnit: "cm" | "mm" | "in";
+  raw: string;
+}
+
+export type EditionVariant = "standard" | "AP" | "PP" | "HC" | "EA";
+
+export interface EditionInfo {
+  raw: string;
+  number?: number;
+  size?: number;
+  variant: EditionVariant;
+  openEdition?: boolean;
+}
+
+export interface SellerProfile {
+  username?: string;
+  feedbackCount?: number;
+  positivePercent?: number;
+  // ISO date of the earliest day the account is known to exist.
+  memberSince?: string;
+  location?: string;
 }
 
 export interface ListingRecord {
@@ -24,22 +100,40 @@ export interface ListingRecord {
   fetchedAt: string;
   currency: string;
   price?: number;
+  shippingPrice?: number;
+  description?: string;
   artwork: {
     title?: string;
     dimensions?: string;
+    measurements?: ArtworkMeasurement[];
     medium?: string;
     yearOfRelease?: string;
+    edition?: EditionInfo;
+    publisher?: string;
+    // Id of the matching work in the bundled catalogue, when one was found.
+    catalogueWorkId?: string;
+    extracted?: {
+      medium?: ExtractedAttribute;
+      yearOfRelease?: ExtractedAttribute;
+    };
   };
+  seller?: SellerProfile;
   artist: {
+    // Stable id from the canonical artist list, when the name resolved.
+    id?: string;
     name?: string;
   };
   visual: {
     imageUrls: string[];
   };
+  // The marketplace shows the listing as ended, sold or withdrawn.
+  ended?: boolean;
 }
 
 export interface SnapshotResponseBody {
   source: string;
+  // Version of the scoring rubric that produced this report.
+  rubricVersion: string;
   snapshot: {
     listingId: string;
     score: number;
@@ -51,12 +145,25 @@ export interface SnapshotResponseBody {
   };
   artworkOverview: {
     imageUrls: string[];
+    artistId?: string;
     artistName: string;
     title: string;
     dimensions: string;
+    measurements: ArtworkMeasurement[];
     price?: number;
+    shippingPrice?: number;
     currency: string;
+    // The price in the requesting user's home currency, converted at the latest rate table.
+    homePrice?: HomeAmount;
     medium: string;
     yearOfRelease: string;
+    edition: string;
+    seller?: SellerProfile;
+    listingEnded?: boolean;
+    // How sure the extractor is about medium and year; absent when the value is not provided.
+    confidence: {
+      medium?: ExtractionConfidence;
+      yearOfRelease?: ExtractionConfidence;
+    };
   };
 }
@@ -0,0 +1,23 @@
+// Drops tracking parameters, fragments and trailing slashes so the same page compares equal.
+export function normalizeUrlKey(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed) return "";
+  try {
+    const parsed = new URL(trimmed);
+    parsed.hash = "";
+    const trackingParams = [
+      "utm_source",
+      "utm_medium",
+      "utm_campaign",
+      "utm_term",
+      "utm_content",
+      "gclid",
+      "fbclid",
+    ];
+    for (const key of trackingParams) parsed.searchParams.delete(key);
+    const pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+    return `${parsed.protocol}//${parsed.hostname.toLowerCase()}${pathname}${parsed.search}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+}
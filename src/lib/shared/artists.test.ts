@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { findArtistInText, resolveArtist, sameArtist } from "./artists";
+
+describe("resolveArtist", () => {
+  it("matches names, aliases, real names and known misspellings exactly", () => {
+    expect(resolveArtist("Stik")).toMatchObject({ id: "stik", matchedOn: "name" });
+    expect(resolveArtist("hirst")).toMatchObject({ id: "damien-hirst", matchedOn: "alias" });
+    expect(resolveArtist("Haring")).toMatchObject({ id: "keith-haring", matchedOn: "alias" });
+    expect(resolveArtist("Thierry Guetta")).toMatchObject({ id: "mr-brainwash", matchedOn: "realName" });
+    expect(resolveArtist("bansky")).toMatchObject({ id: "banksy", matchedOn: "misspelling" });
+  });
+
+  it.each(["first", "stick", "hearing", "warhole", "murakamy"])("does not guess an artist for the ordinary word %s", (word) => {
+    expect(resolveArtist(word)).toBeUndefined();
+  });
+
+  it("tolerates typos in longer names", () => {
+    expect(resolveArtist("banksyy")).toMatchObject({ id: "banksy", matchedOn: "fuzzy" });
+    expect(resolveArtist("damien hirts")).toMatchObject({ id: "damien-hirst", matchedOn: "fuzzy" });
+    expect(resolveArtist("Shepherd Fairy")).toMatchObject({ id: "shepard-fairey", matchedOn: "fuzzy" });
+  });
+});
+
+describe("sameArtist", () => {
+  it("does not merge unrelated words with a surname", () => {
+    expect(sameArtist("first", "Damien Hirst")).toBe(false);
+    expect(sameArtist("Hirst", "Damien Hirst")).toBe(true);
+  });
+});
+
+describe("findArtistInText", () => {
+  it("prefers the longest name in the text", () => {
+    expect(findArtistInText("Ai Wei Wei Sunflower Seeds")).toMatchObject({ id: "ai-weiwei", matchedOn: "alias" });
+  });
+});
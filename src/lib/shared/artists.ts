@@ -0,0 +1,130 @@
+export type CanonicalArtist = {
+  id: string;
+  displayName: string;
+  realName?: string;
+  aliases: string[];
+  // Common typos seen in marketplace titles and search input.
+  misspellings: string[];
+};
+
+export type ResolvedArtist = {
+  id: string;
+  displayName: string;
+  matchedOn: "name" | "alias" | "realName" | "misspelling" | "fuzzy";
+};
+
+export const CANONICAL_ARTISTS: CanonicalArtist[] = [
+  { id: "kaws", displayName: "KAWS", realName: "Brian Donnelly", aliases: [], misspellings: ["kawz"] },
+  { id: "banksy", displayName: "Banksy", aliases: [], misspellings: ["bansky", "banksey", "banski"] },
+  {
+    id: "yayoi-kusama",
+    displayName: "Yayoi Kusama",
+    aliases: ["Kusama"],
+    misspellings: ["yayoi kusuma", "kusuma", "yayoi kasama"],
+  },
+  {
+    id: "takashi-murakami",
+    displayName: "Takashi Murakami",
+    aliases: ["Murakami"],
+    misspellings: ["takashi murakmi", "takeshi murakami"],
+  },
+  { id: "jeff-koons", displayName: "Jeff Koons", aliases: ["Koons"], misspellings: ["jeff koon", "jeff koones"] },
+  { id: "ai-weiwei", displayName: "Ai Weiwei", aliases: ["Ai Wei Wei", "Weiwei"], misspellings: ["ai wei-wei", "ai weiwai"] },
+  {
+    id: "shepard-fairey",
+    displayName: "Shepard Fairey",
+    aliases: ["OBEY", "Obey Giant"],
+    misspellings: ["shepard fairy", "shephard fairey", "sheppard fairey"],
+  },
+  {
+    id: "mr-brainwash",
+    displayName: "Mr. Brainwash",
+    realName: "Thierry Guetta",
+    aliases: ["MBW", "Mr Brainwash"],
+    misspellings: ["mr brain wash", "mister brainwash"],
+  },
+  { id: "keith-haring", displayName: "Keith Haring", aliases: ["Haring"], misspellings: ["keith herring", "keith harring"] },
+  { id: "andy-warhol", displayName: "Andy Warhol", aliases: ["Warhol"], misspellings: ["andy warhole", "andy worhol"] },
+  { id: "damien-hirst", displayName: "Damien Hirst", aliases: ["Hirst"], misspellings: ["damian hirst", "damien hurst"] },
+  { id: "david-hockney", displayName: "David Hockney", aliases: ["Hockney"], misspellings: ["david hockny", "david hockey"] },
+  { id: "daniel-arsham", displayName: "Daniel Arsham", aliases: ["Arsham"], misspellings: ["daniel arshum"] },
+  { id: "stik", displayName: "Stik", aliases: [], misspellings: [] },
+];
+
+export function normalizeArtistKey(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+type NameEntry = { artist: CanonicalArtist; key: string; matchedOn: Exclude<ResolvedArtist["matchedOn"], "fuzzy"> };
+
+const NAME_ENTRIES: NameEntry[] = CANONICAL_ARTISTS.flatMap((artist) => [
+  { artist, key: normalizeArtistKey(artist.displayName), matchedOn: "name" as const },
+  ...(artist.realName ? [{ artist, key: normalizeArtistKey(artist.realName), matchedOn: "realName" as const }] : []),
+  ...artist.aliases.map((alias) => ({ artist, key: normalizeArtistKey(alias), matchedOn: "alias" as const })),
+  ...artist.misspellings.map((name) => ({ artist, key: normalizeArtistKey(name), matchedOn: "misspelling" as const })),
+]).filter((entry) => entry.key);
+
+// Longest names first so "Ai Wei Wei" is matched before the bare "Weiwei".
+const ENTRIES_BY_LENGTH = [...NAME_ENTRIES].sort((a, b) => b.key.length - a.key.length);
+
+function toResolved(entry: NameEntry | undefined, matchedOn?: ResolvedArtist["matchedOn"]): ResolvedArtist | undefined {
+  if (!entry) return undefined;
+  return { id: entry.artist.id, displayName: entry.artist.displayName, matchedOn: matchedOn ?? entry.matchedOn };
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+export function getArtistById(id: string): CanonicalArtist | undefined {
+  return CANONICAL_ARTISTS.find((artist) => artist.id === id);
+}
+
+// Bare surnames are ordinary words one typo away ("first" / Hirst, "stick" / Stik), so they only match exactly.
+const FUZZY_ENTRIES = NAME_ENTRIES.filter((entry) => entry.matchedOn !== "alias");
+const MIN_FUZZY_LENGTH = 7;
+
+// Resolves a name typed by a user or stated by a seller; short inputs never match fuzzily.
+export function resolveArtist(input?: string | null): ResolvedArtist | undefined {
+  const key = normalizeArtistKey(input ?? "");
+  if (!key) return undefined;
+  const exact = toResolved(NAME_ENTRIES.find((entry) => entry.key === key));
+  if (exact) return exact;
+  if (key.length < MIN_FUZZY_LENGTH) return undefined;
+  const tolerance = key.length >= 10 ? 2 : 1;
+  let best: { entry: NameEntry; distance: number } | undefined;
+  for (const entry of FUZZY_ENTRIES) {
+    const distance = editDistance(key, entry.key);
+    if (distance <= tolerance && (!best || distance < best.distance)) best = { entry, distance };
+  }
+  return toResolved(best?.entry, "fuzzy");
+}
+
+// Finds a known artist named anywhere in free text such as a listing title.
+export function findArtistInText(text?: string | null): ResolvedArtist | undefined {
+  const haystack = ` ${normalizeArtistKey(text ?? "")} `;
+  if (!haystack.trim()) return undefined;
+  return toResolved(ENTRIES_BY_LENGTH.find((entry) => haystack.includes(` ${entry.key} `)));
+}
+
+export function sameArtist(a: string, b: string): boolean {
+  const left = resolveArtist(a);
+  const right = resolveArtist(b);
+  if (left && right) return left.id === right.id;
+  return normalizeArtistKey(a) === normalizeArtistKey(b);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { convertAmount, FxRateTable, pickRateTable, toHomeAmount } from "./currency";
+
+const tables: FxRateTable[] = [
+  { date: "2026-07-01", base: "USD", rates: { GBP: 0.75, EUR: 0.9, JPY: 150 } },
+  { date: "2026-01-02", base: "USD", rates: { GBP: 0.8, EUR: 0.92 } },
+];
+
+describe("convertAmount", () => {
+  it("converts through the base currency and rounds to cents", () => {
+    expect(convertAmount(100, "USD", "GBP", tables[0])).toBe(75);
+    expect(convertAmount(75, "gbp", "usd", tables[0])).toBe(100);
+    expect(convertAmount(100, "GBP", "EUR", tables[0])).toBe(120);
+    expect(convertAmount(1000, "JPY", "GBP", tables[0])).toBe(5);
+    expect(convertAmount(10, "EUR", "eur", tables[0])).toBe(10);
+  });
+
+  it("gives up on unknown or unusable rates", () => {
+    expect(convertAmount(100, "USD", "CHF", tables[0])).toBeUndefined();
+    expect(convertAmount(100, "USD", "GBP", { date: "2026-01-01", base: "USD", rates: { GBP: 0 } })).toBeUndefined();
+  });
+});
+
+describe("pickRateTable", () => {
+  it("uses the newest table on or before the day, or the oldest for earlier days", () => {
+    expect(pickRateTable(tables)?.date).toBe("2026-07-01");
+    expect(pickRateTable(tables, "2026-03-15T10:00:00Z")?.date).toBe("2026-01-02");
+    expect(pickRateTable(tables, "2026-07-01")?.date).toBe("2026-07-01");
+    expect(pickRateTable(tables, "2024-01-01")?.date).toBe("2026-01-02");
+    expect(pickRateTable([], "2026-01-01")).toBeUndefined();
+  });
+});
+
+describe("toHomeAmount", () => {
+  it("records the rate date used", () => {
+    expect(toHomeAmount(150, "GBP", "usd", tables[0])).toEqual({ amount: 200, currency: "USD", rateDate: "2026-07-01" });
+    expect(toHomeAmount(undefined, "GBP", "USD", tables[0])).toBeUndefined();
+    expect(toHomeAmount(150, "CHF", "USD", tables[0])).toBeUndefined();
+  });
+});
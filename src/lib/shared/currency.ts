@@ -0,0 +1,66 @@
+export type FxRateTable = {
+  date: string;
+  base: string;
+  // Units of each currency per one unit of the base currency.
+  rates: Record<string, number>;
+};
+
+export type HomeAmount = {
+  amount: number;
+  currency: string;
+  rateDate: string;
+};
+
+export const DEFAULT_HOME_CURRENCY = "USD";
+
+const SYMBOLS: Record<string, string> = {
+  GBP: "£",
+  EUR: "€",
+  USD: "$",
+  JPY: "¥",
+  CNY: "CN¥",
+  CAD: "C$",
+  AUD: "A$",
+  HKD: "HK$",
+};
+
+export function currencySymbol(currency?: string): string {
+  const code = (currency || "").toUpperCase();
+  return SYMBOLS[code] ?? `${code} `;
+}
+
+function rateFor(table: FxRateTable, currency: string): number | undefined {
+  const code = currency.toUpperCase();
+  if (code === table.base.toUpperCase()) return 1;
+  const rate = table.rates[code];
+  return typeof rate === "number" && rate > 0 ? rate : undefined;
+}
+
+export function convertAmount(amount: number, from: string, to: string, table: FxRateTable): number | undefined {
+  if (from.toUpperCase() === to.toUpperCase()) return amount;
+  const fromRate = rateFor(table, from);
+  const toRate = rateFor(table, to);
+  if (!fromRate || !toRate) return undefined;
+  return Math.round((amount / fromRate) * toRate * 100) / 100;
+}
+
+// The newest table dated on or before the given day; the oldest table when the day predates them all.
+export function pickRateTable(tables: FxRateTable[], onDate?: string): FxRateTable | undefined {
+  if (!tables.length) return undefined;
+  const sorted = [...tables].sort((a, b) => a.date.localeCompare(b.date));
+  if (!onDate) return sorted[sorted.length - 1];
+  const day = onDate.slice(0, 10);
+  return [...sorted].reverse().find((table) => table.date <= day) ?? sorted[0];
+}
+
+export function toHomeAmount(
+  amount: number | undefined,
+  currency: string | undefined,
+  homeCurrency: string,
+  table: FxRateTable | undefined
+): HomeAmount | undefined {
+  if (typeof amount !== "number" || !currency || !table) return undefined;
+  const converted = convertAmount(amount, currency, homeCurrency, table);
+  if (typeof converted !== "number") return undefined;
+  return { amount: converted, currency: homeCurrency.toUpperCase(), rateDate: table.date };
+}
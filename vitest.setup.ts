@@ -0,0 +1,6 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The store persists under the working directory, so every test file gets an empty one of its own.
+process.chdir(mkdtempSync(join(tmpdir(), "art-detective-test-")));